@@ -0,0 +1,89 @@
+import { createHash } from 'crypto';
+import { Dirent, createReadStream, existsSync, readFileSync, readdirSync } from 'fs';
+import { extname, resolve } from 'path';
+import type { Plugin } from 'vite';
+
+// Files PDF and image extraction load at runtime, by their path in the build and their
+// source in node_modules. Keep the paths in step with src/utils/offlineAssets.ts.
+const offlineAssets: Record<string, string> = {
+  'pdfjs/pdf.worker.min.mjs': 'pdfjs-dist/build/pdf.worker.min.mjs',
+  'ocr/worker.min.js': 'tesseract.js/dist/worker.min.js',
+  'ocr/core/tesseract-core-simd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'ocr/core/tesseract-core-lstm.wasm.js': 'tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'ocr/lang/eng.traineddata.gz': '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+  'ocr/lang/ara.traineddata.gz': '@tesseract.js-data/ara/4.0.0_best_int/ara.traineddata.gz'
+};
+
+const contentTypes: Record<string, string> = {
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.gz': 'application/gzip'
+};
+
+const sourceOf = (path: string): string => {
+  const source = resolve(__dirname, 'node_modules', offlineAssets[path]);
+  if (!existsSync(source)) {
+    throw new Error(`Offline asset ${path} is missing: ${source} does not exist. Run npm install.`);
+  }
+  return source;
+};
+
+/**
+ * Serves the PDF.js worker, the Tesseract worker and engine, and the OCR language data from
+ * the app itself so extraction works without internet access. The build also gets a service
+ * worker that caches every file of the app, making it installable for offline use.
+ */
+export default function offlineAssetsPlugin(): Plugin {
+  let base = '/';
+  let publicDir = '';
+
+  return {
+    name: 'offline-assets',
+
+    configResolved(config) {
+      base = config.base;
+      publicDir = config.publicDir;
+    },
+
+    // During development the assets are streamed straight from node_modules
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const path = req.url?.split('?')[0].slice(base.length);
+        if (!path || !(path in offlineAssets)) return next();
+
+        try {
+          const source = sourceOf(path);
+          res.setHeader('Content-Type', contentTypes[extname(path)] ?? 'application/octet-stream');
+          createReadStream(source).pipe(res);
+        } catch (error) {
+          server.config.logger.error(error instanceof Error ? error.message : String(error));
+          res.statusCode = 404;
+          res.end();
+        }
+      });
+    },
+
+    generateBundle(_options, bundle) {
+      // A missing asset fails the build rather than the first extraction on a workstation
+      Object.keys(offlineAssets).forEach(path => {
+        this.emitFile({ type: 'asset', fileName: path, source: readFileSync(sourceOf(path)) });
+      });
+
+      // The service worker precaches everything the build produced; a new build gets a new
+      // cache, which replaces the old one once the updated worker activates
+      const publicFiles = publicDir && existsSync(publicDir)
+        ? readdirSync(publicDir, { withFileTypes: true }).filter((entry: Dirent) => entry.isFile()).map((entry: Dirent) => entry.name)
+        : [];
+      const files = [...Object.keys(bundle), ...publicFiles]
+        .filter(file => !file.endsWith('.map'))
+        .sort();
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+      const serviceWorker = readFileSync(resolve(__dirname, 'src/serviceWorker.js'), 'utf-8');
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: `const PRECACHE = ${JSON.stringify({ version, files })};\n\n${serviceWorker}`
+      });
+    }
+  };
+}
@@ -10,18 +10,40 @@ import DataCorrection from './components/DataCorrection';
 import DocumentSearch from './components/DocumentSearch';
 import LearningInsights from './components/LearningInsights';
 import QuickFixModal from './components/QuickFixModal';
-import { ExtractedData } from './types';
+import LineItemsTable from './components/LineItemsTable';
+import FraudAlertsPanel from './components/FraudAlertsPanel';
+import AuditTrail from './components/AuditTrail';
+import BatchQueuePanel from './components/BatchQueuePanel';
+import OcrRegionsPanel from './components/OcrRegionsPanel';
+import PreprocessingSettingsPanel from './components/PreprocessingSettingsPanel';
+import { BatchJob, ExtractedData, FieldSource, PreprocessingSettings, ProcessingBatch, ReviewStatus, UserProfile } from './types';
 import * as mammoth from 'mammoth';
-import { processDocumentText } from './utils/extractors';
 import TrainingService from './services/TrainingService';
 import DocumentManager from './services/DocumentManager';
-import DocumentExtractorService from './services/DocumentExtractorService';
+import CustomerMasterService from './services/CustomerMasterService';
+import WatchlistService from './services/WatchlistService';
+import UserProfileService from './services/UserProfileService';
+import BatchQueueService from './services/BatchQueueService';
+import ExtractionWorkerPool from './services/ExtractionWorkerPool';
 import { validateExtractionData } from './services/DataValidationService';
+import { findMissingOfflineAssets } from './services/OfflineAssetService';
+import { fieldDefinitions, getField, getFieldQualifiers, getFieldDefinition, getFieldValues, setField } from './utils/fieldDefinitions';
+import { confidenceStep } from './utils/confidenceTrace';
+import { DEFAULT_CURRENCY } from './utils/currencies';
+import { unresolvedDuplicates } from './utils/duplicateDetection';
+import { FraudAlert, unacknowledgedAlerts } from './utils/fraudSignals';
+import { applyCorrection, correctionBlocker, currentApproval, getReviewStatus } from './utils/reviewWorkflow';
+import { isJobFinished } from './utils/batchQueue';
+import { OfflineAsset } from './utils/offlineAssets';
+import { joinOcrRegions, replaceOcrRegion } from './utils/ocrRegions';
+import { countTextCharacters, describePageMethods } from './utils/pageText';
+import { defaultPreprocessingSettings } from './utils/imagePreprocessing';
 
 function App() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [processedFiles, setProcessedFiles] = useState<number>(0);
   const [totalFiles, setTotalFiles] = useState<number>(0);
+  const [inProgressFiles, setInProgressFiles] = useState<number>(0); // Fraction of the documents being processed
   const [extractedData, setExtractedData] = useState<ExtractedData[]>([]);
   const [currentFile, setCurrentFile] = useState<File | null>(null);
   const [showResults, setShowResults] = useState(false);
@@ -29,6 +51,7 @@ function App() {
   const [storedDocuments, setStoredDocuments] = useState<{id: string; fileName: string; timestamp: string}[]>([]);
   const [showDocumentViewer, setShowDocumentViewer] = useState<boolean>(false);
   const [searchPattern, setSearchPattern] = useState<RegExp | null>(null);
+  const [highlightSource, setHighlightSource] = useState<FieldSource | null>(null);
   const [isInitialized, setIsInitialized] = useState<boolean>(false);
   const [documentText, setDocumentText] = useState<string>('');
   const [showLearningInsights, setShowLearningInsights] = useState<boolean>(false);
@@ -37,28 +60,66 @@ function App() {
   const [quickFixDocId, setQuickFixDocId] = useState<string | null>(null);
   const [documentCache, setDocumentCache] = useState<Map<string, File>>(new Map());
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [fraudAlerts, setFraudAlerts] = useState<FraudAlert[]>([]);
+  const [includeUnapproved, setIncludeUnapproved] = useState<boolean>(false);
+  const [currentUser, setCurrentUser] = useState<UserProfile | null>(null);
+  const [batchName, setBatchName] = useState<string>('');
+  const [activeBatch, setActiveBatch] = useState<ProcessingBatch | null>(null);
+  const [missingAssets, setMissingAssets] = useState<(OfflineAsset & { url: string })[]>([]);
+  const [preprocessingSettings, setPreprocessingSettings] = useState<PreprocessingSettings>(defaultPreprocessingSettings);
   
   // Refs for scrolling
   const documentViewerRef = useRef<HTMLDivElement>(null);
   
+  // Batch whose progress is shown; read by the queue listener registered on start
+  const activeBatchIdRef = useRef<string | null>(null);
+  
   const trainingService = TrainingService.getInstance();
   const documentManager = DocumentManager.getInstance();
-  const documentExtractor = DocumentExtractorService.getInstance();
+  const customerMaster = CustomerMasterService.getInstance();
+  const watchlist = WatchlistService.getInstance();
+  const userProfiles = UserProfileService.getInstance();
+  const batchQueue = BatchQueueService.getInstance();
+  const extractionPool = ExtractionWorkerPool.getInstance();
   
   // Initialize services
   useEffect(() => {
+    batchQueue.setProcessor(processBatchJob);
+    const unsubscribe = batchQueue.subscribe(handleBatchProgress);
+    const unsubscribeProgress = batchQueue.subscribeProgress((batchId, inProgress) => {
+      if (batchId === activeBatchIdRef.current) setInProgressFiles(inProgress);
+    });
+    
     const initialize = async () => {
+      // Extraction must not depend on a CDN; warn when the bundled assets are not served
+      findMissingOfflineAssets().then(setMissingAssets);
+      
       try {
         await trainingService.initialize();
+        setCurrentUser(await userProfiles.getCurrentUser());
         await loadStoredDocuments();
+        await loadFraudAlerts();
         await loadDocumentsIntoCache();
         setIsInitialized(true);
+        
+        // Carry on with batches a reload interrupted, showing the progress of the latest
+        const resumed = await batchQueue.resumeInterrupted();
+        if (resumed.length > 0) {
+          const latest = resumed.reduce((a, b) => a.createdAt > b.createdAt ? a : b);
+          activeBatchIdRef.current = latest.id;
+          setActiveBatch(latest);
+          setIsProcessing(true);
+        }
       } catch (error) {
         console.error("Failed to initialize services:", error);
       }
     };
     
     initialize();
+    return () => {
+      unsubscribe();
+      unsubscribeProgress();
+    };
   }, []);
   
   // Preload documents into cache
@@ -102,6 +163,34 @@ function App() {
     }
   };
   
+  // Reconcile a result with the customer master and screen it against the watchlist
+  const checkResult = async (data: ExtractedData): Promise<ExtractedData> => {
+    return watchlist.screen(await customerMaster.reconcile(data));
+  };
+  
+  // Re-run the fraud checks over all stored results
+  const loadFraudAlerts = async () => {
+    try {
+      setFraudAlerts(await documentManager.getFraudAlerts());
+    } catch (error) {
+      console.error("Error loading fraud alerts:", error);
+    }
+  };
+  
+  // Handle a reviewer acknowledging a fraud alert
+  const handleAcknowledgeFraudAlert = async (alert: FraudAlert, note?: string) => {
+    const user = requireUser();
+    if (!user) return;
+    
+    try {
+      await documentManager.acknowledgeFraudAlert(alert, user, note);
+      await loadFraudAlerts();
+    } catch (error) {
+      console.error("Error acknowledging fraud alert:", error);
+      setErrorMessage("Failed to acknowledge the fraud alert. Please try again.");
+    }
+  };
+  
   // Handle document selection
   const handleDocumentSelect = async (id: string) => {
     setErrorMessage(null);
@@ -129,6 +218,7 @@ function App() {
       if (file) {
         setCurrentFile(file);
         setSelectedDocumentId(id);
+        setHighlightSource(null);
         
         // Try to load existing extraction results
         const results = await documentManager.getExtractionResults(id);
@@ -140,10 +230,17 @@ function App() {
           processSelectedFile(file, id);
         }
         
-        // Extract text for context
+        // Extract text for context; images keep the text blocks their fields were extracted from
         try {
-          const text = await documentExtractor.extractText(file);
-          setDocumentText(text);
+          if (results?.ocrRegions) {
+            setDocumentText(joinOcrRegions(results.ocrRegions));
+          } else {
+            const { text } = await extractionPool.extract(file, {
+              textOnly: true,
+              preprocessing: results?.preprocessing?.settings ?? preprocessingSettings
+            });
+            setDocumentText(text);
+          }
         } catch (error) {
           console.error("Error extracting document text:", error);
           setDocumentText('');
@@ -162,52 +259,55 @@ function App() {
     }
   };
   
+  // Validate the fields extracted by a worker, then reconcile and screen the result
+  const finishExtractionResult = async (extractedInfo: ExtractedData, id: string): Promise<ExtractedData> => {
+    // Apply validation
+    const validated = validateExtractionData(getFieldValues(extractedInfo), {
+      qualifiers: getFieldQualifiers(extractedInfo),
+      lineItems: extractedInfo.lineItems,
+      layout: extractedInfo.detectedLayout
+    });
+    
+    // Update with validated values if valid
+    if (validated.isValid) {
+      for (const definition of fieldDefinitions) {
+        const field = getField(extractedInfo, definition.key);
+        const validatedField = validated.validatedData[definition.key];
+        if (field && validatedField?.isValid) {
+          field.value = validatedField.value;
+        }
+      }
+    }
+    
+    return checkResult({ ...extractedInfo, id });
+  };
+  
   // Process selected file
   const processSelectedFile = async (file: File, id?: string) => {
     setIsProcessing(true);
     
     try {
-      // Extract text from file
-      const text = await documentExtractor.extractText(file);
+      // Extract text and fields in a worker
+      const { text, data } = await extractionPool.extract(file, { preprocessing: preprocessingSettings });
       setDocumentText(text);
       
-      // Process the extracted text to get structured data
-      const extractedInfo = await processDocumentText(text, file.name);
-      
-      // Apply validation
-      const validated = validateExtractionData({
-        customerName: extractedInfo.customerName.value,
-        refundAmount: extractedInfo.refundAmount.value,
-        ibanNumber: extractedInfo.ibanNumber.value,
-        customerServiceNumber: extractedInfo.customerServiceNumber.value
-      });
-      
-      // Update with validated values
-      if (validated.isValid) {
-        extractedInfo.customerName.value = validated.validatedData.customerName.value;
-        extractedInfo.refundAmount.value = validated.validatedData.refundAmount.value;
-        extractedInfo.ibanNumber.value = validated.validatedData.ibanNumber.value;
-        extractedInfo.customerServiceNumber.value = validated.validatedData.customerServiceNumber.value;
+      // Blank scans leave every field unknown; say why rather than show empty results
+      if (countTextCharacters(text) === 0) {
+        setErrorMessage(`No text could be read from ${file.name}, neither from a text layer nor by OCR, so no fields were found. Check that the scan is legible and not blank.`);
       }
       
       // Ensure we have an ID
       const docId = id || `generated_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      const result = await finishExtractionResult(data!, docId);
       
       // Store extraction results if document ID is provided
       if (id) {
-        const resultWithId = {
-          ...extractedInfo,
-          id
-        };
-        
-        await documentManager.storeExtractionResults(resultWithId);
-        setExtractedData([resultWithId]);
+        const storedResult = await documentManager.storeExtractionResults(result);
+        setExtractedData([storedResult]);
+        await loadFraudAlerts();
       } else {
         // For files without ID yet
-        setExtractedData([{
-          ...extractedInfo,
-          id: docId
-        }]);
+        setExtractedData([result]);
       }
       
       setShowResults(true);
@@ -236,143 +336,256 @@ function App() {
       setIsProcessing(false);
     }
   };
-
-  // Process multiple files
+  
+  // Process one queued document in the worker pool; a thrown error makes the queue retry it
+  const processBatchJob = async (job: BatchJob, signal: AbortSignal, onProgress: (progress: number) => void) => {
+    const file = await documentManager.getDocument(job.documentId);
+    if (!file) {
+      throw new Error(`Document ${job.fileName} is no longer stored`);
+    }
+    
+    // Read with the preprocessing settings the batch was queued with
+    const batch = await batchQueue.getBatch(job.batchId);
+    const { data } = await extractionPool.extract(file, { signal, onProgress, preprocessing: batch?.preprocessing });
+    
+    // Store extraction results, which links suspected duplicates
+    await documentManager.storeExtractionResults(await finishExtractionResult(data!, job.documentId));
+  };
+  
+  // Show the results of a batch
+  const handleOpenBatch = async (batch: ProcessingBatch, jobs: BatchJob[]) => {
+    const results: ExtractedData[] = [];
+    for (const job of jobs.filter(candidate => candidate.status === 'done')) {
+      const result = await documentManager.getExtractionResults(job.documentId);
+      if (result) results.push(result);
+    }
+    
+    setCurrentFile(null);
+    setSelectedDocumentId(null);
+    setShowDocumentViewer(false);
+    setExtractedData(results);
+    setShowResults(true);
+    console.log(`Showing ${results.length} results of batch "${batch.name}"`);
+  };
+  
+  // Follow the progress of the active batch and show its results once it is finished
+  const handleBatchProgress = async (batch: ProcessingBatch, jobs: BatchJob[]) => {
+    if (batch.id !== activeBatchIdRef.current) return;
+    
+    setActiveBatch(batch);
+    setTotalFiles(jobs.length);
+    setProcessedFiles(jobs.filter(isJobFinished).length);
+    
+    if (batch.status === 'completed' || batch.status === 'cancelled') {
+      activeBatchIdRef.current = null;
+      setActiveBatch(null);
+      setIsProcessing(false);
+      
+      await handleOpenBatch(batch, jobs);
+      await loadStoredDocuments();
+      await loadFraudAlerts();
+      
+      const failures = jobs.filter(job => job.status === 'failed');
+      if (failures.length > 0) {
+        setErrorMessage(`${failures.length} document(s) in "${batch.name}" could not be processed: ${failures.map(job => job.fileName).join(', ')}. They can be retried from Processing Batches.`);
+      }
+      
+      // Show learning insights after multiple files are processed
+      if (jobs.length > 1) {
+        setShowLearningInsights(true);
+      }
+    }
+  };
+  
+  // Store the uploaded files and queue them as a batch; the queue processes them in the background
   const handleFilesSelected = async (files: FileList) => {
     setTotalFiles(files.length);
     setProcessedFiles(0);
+    setInProgressFiles(0);
     setIsProcessing(true);
     setShowResults(false);
     setCurrentFile(null);
     setSelectedDocumentId(null);
+    setHighlightSource(null);
     setShowDocumentViewer(false);
     setErrorMessage(null);
     
-    const newExtractedData: ExtractedData[] = [];
+    const stored: { id: string; fileName: string }[] = [];
     const newCache = new Map(documentCache);
     
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      try {
-        // Store document first
+    try {
+      for (const file of Array.from(files)) {
         const docId = await documentManager.storeDocument(file);
-        
-        // Add file to cache
         newCache.set(docId, file);
-        
-        // Process the document
-        const text = await documentExtractor.extractText(file);
-        
-        // Process the extracted text to get structured data
-        const extractedInfo = await processDocumentText(text, file.name);
-        
-        // Apply validation
-        const validated = validateExtractionData({
-          customerName: extractedInfo.customerName.value,
-          refundAmount: extractedInfo.refundAmount.value,
-          ibanNumber: extractedInfo.ibanNumber.value,
-          customerServiceNumber: extractedInfo.customerServiceNumber.value
-        });
-        
-        // Update with validated values if valid
-        if (validated.isValid) {
-          extractedInfo.customerName.value = validated.validatedData.customerName.value;
-          extractedInfo.refundAmount.value = validated.validatedData.refundAmount.value;
-          extractedInfo.ibanNumber.value = validated.validatedData.ibanNumber.value;
-          extractedInfo.customerServiceNumber.value = validated.validatedData.customerServiceNumber.value;
-        }
-
-        // Create extraction result with ID
-        const resultWithId = {
-          ...extractedInfo,
-          id: docId
-        };
-        
-        // Store extraction results
-        await documentManager.storeExtractionResults(resultWithId);
-        
-        newExtractedData.push(resultWithId);
-        
-        setProcessedFiles(i + 1);
-      } catch (error) {
-        console.error(`Error processing file ${file.name}:`, error);
-        // Add a placeholder with error status
-        newExtractedData.push({
-          id: Date.now().toString() + i,
-          fileName: file.name,
-          customerName: { value: "Error processing file", confidence: 0 },
-          refundAmount: { value: "0.00", confidence: 0 },
-          ibanNumber: { value: "Unknown", confidence: 0 },
-          customerServiceNumber: { value: "Unknown", confidence: 0 },
-          detectedLayout: "Error",
-          layoutConfidence: 0,
-          timestamp: new Date().toISOString()
-        });
-        setProcessedFiles(i + 1);
+        stored.push({ id: docId, fileName: file.name });
       }
+      
+      // Update document cache with all stored files
+      setDocumentCache(newCache);
+      
+      const batch = await batchQueue.createBatch(batchName, stored, preprocessingSettings);
+      activeBatchIdRef.current = batch.id;
+      setActiveBatch(batch);
+      setBatchName('');
+    } catch (error) {
+      console.error("Error queueing documents:", error);
+      setErrorMessage("Failed to store the uploaded documents. Please try again.");
+      setIsProcessing(false);
     }
+  };
+  
+  // Only approved documents are exported unless the reviewer asks for the others too; rejected ones never are
+  const exportDocuments = extractedData.filter(item => includeUnapproved
+    ? getReviewStatus(item) !== 'rejected'
+    : getReviewStatus(item) === 'approved');
+  
+  // Suspected duplicates must be resolved before anything is exported for payment
+  const hasUnresolvedDuplicates = exportDocuments.some(item => unresolvedDuplicates(item).length > 0);
+  
+  // Documents held by watchlist screening must not be exported for payment
+  const hasHeldDocuments = exportDocuments.some(item => item.screening?.status === 'hold');
+  
+  // Fraud alerts on the exported documents must be acknowledged before a payment file is created
+  const hasOpenFraudAlerts = unacknowledgedAlerts(fraudAlerts, exportDocuments.map(item => item.id)).length > 0;
+  
+  // Why neither export may run yet, if anything stops it; applies to the CSV and JSON files alike
+  const exportBlocker = exportDocuments.length === 0 ? 'No approved documents to export' :
+    hasUnresolvedDuplicates ? 'Resolve suspected duplicates before exporting' :
+    hasHeldDocuments ? 'Release the watchlist holds before exporting' :
+    hasOpenFraudAlerts ? 'Acknowledge the fraud alerts before exporting' : null;
+  
+  // Status changes and corrections are recorded under the current user profile
+  const requireUser = (): UserProfile | null => {
+    if (!currentUser) {
+      alert("Choose the user profile you work as (System Settings → Users) before reviewing documents.");
+    }
+    return currentUser;
+  };
+  
+  // Handle moving documents to another review status; approvals and rejections need a reason
+  const handleChangeStatus = async (docIds: string[], status: ReviewStatus) => {
+    const user = requireUser();
+    if (!user) return;
     
-    // Update document cache with all processed files
-    setDocumentCache(newCache);
-    
-    // Refresh the list of stored documents
-    await loadStoredDocuments();
-    
-    setExtractedData(newExtractedData);
-    setIsProcessing(false);
-    setShowResults(true);
+    let note: string | undefined;
+    if (status === 'approved' || status === 'rejected') {
+      note = window.prompt(status === 'approved' ? 'Reason for approving the refunds' : 'Why are the refunds rejected?')?.trim();
+      if (!note) return;
+    }
     
-    // Show learning insights after multiple files are processed
-    if (files.length > 1) {
-      setShowLearningInsights(true);
+    try {
+      const { updated, refused } = await documentManager.setReviewStatus(docIds, status, user, note);
+      setExtractedData(prev => prev.map(item => updated.find(result => result.id === item.id) ?? item));
+      
+      if (refused.length > 0) {
+        setErrorMessage(refused.map(refusal => refusal.reason).join('. '));
+      }
+    } catch (error) {
+      console.error("Error changing review status:", error);
+      setErrorMessage("Failed to change the review status. Please try again.");
     }
   };
-
+  
+  // Approved documents in a downloaded payment file move on to exported
+  const markExported = async (documents: ExtractedData[]) => {
+    const approvedIds = documents.filter(item => getReviewStatus(item) === 'approved').map(item => item.id);
+    if (approvedIds.length > 0) await handleChangeStatus(approvedIds, 'exported');
+  };
+  
   // Handle exporting data as CSV
   const handleExportData = () => {
-    if (extractedData.length === 0) return;
+    if (exportBlocker) return;
+    
+    // Quote free text, doubling quotes inside it
+    const csvText = (value: string) => `"${value.replace(/"/g, '""')}"`;
     
     // Create CSV content
     const csvHeader = [
       'File Name',
-      'Customer Name',
-      'Name Confidence',
-      'Refund Amount',
-      'Amount Confidence',
-      'IBAN Number',
-      'IBAN Confidence',
-      'Customer Service Number',
-      'Service Number Confidence',
+      ...fieldDefinitions.flatMap(definition => [
+        definition.exportColumn,
+        ...(definition.hasCurrency ? [`${definition.exportColumn} Currency`] : []),
+        `${definition.exportColumn} Confidence`
+      ]),
       'Detected Layout',
       'Layout Confidence',
+      'Review Status',
+      'Verified By',
+      'Approved By',
+      'Approved At',
+      'Approval Reason',
       'Timestamp'
     ].join(',');
     
-    const csvRows = extractedData.map(item => {
+    const csvRows = exportDocuments.map(item => {
+      const approval = currentApproval(item);
       return [
-        `"${item.fileName}"`,
-        `"${item.customerName.value}"`,
-        item.customerName.confidence,
-        `"${item.refundAmount.value}"`,
-        item.refundAmount.confidence,
-        `"${item.ibanNumber.value}"`,
-        item.ibanNumber.confidence,
-        `"${item.customerServiceNumber.value}"`,
-        item.customerServiceNumber.confidence,
-        `"${item.detectedLayout}"`,
+        csvText(item.fileName),
+        ...fieldDefinitions.flatMap(definition => {
+          const field = getField(item, definition.key);
+          return [
+            csvText(field?.value ?? definition.emptyValue),
+            ...(definition.hasCurrency ? [csvText(field?.currency ?? DEFAULT_CURRENCY)] : []),
+            field?.confidence ?? 0
+          ];
+        }),
+        csvText(item.detectedLayout),
         item.layoutConfidence,
-        `"${item.timestamp}"`
+        csvText(getReviewStatus(item)),
+        csvText(item.approval?.verifiedBy?.userName ?? ''),
+        csvText(approval?.userName ?? ''),
+        csvText(approval?.decidedAt ?? ''),
+        csvText(approval?.reason ?? ''),
+        csvText(item.timestamp)
       ].join(',');
     });
     
     const csvContent = [csvHeader, ...csvRows].join('\n');
     
     // Create and download the CSV file
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    downloadFile(csvContent, 'text/csv;charset=utf-8;', `extracted_data_${new Date().toISOString().slice(0,10)}.csv`);
+    markExported(exportDocuments);
+  };
+
+  // Handle exporting data as JSON, including line items that don't fit in CSV columns
+  const handleExportJson = () => {
+    if (exportBlocker) return;
+    
+    const records = exportDocuments.map(item => ({
+      fileName: item.fileName,
+      fields: Object.fromEntries(fieldDefinitions.map(definition => {
+        const field = getField(item, definition.key);
+        return [definition.key, {
+          value: field?.value ?? definition.emptyValue,
+          confidence: field?.confidence ?? 0,
+          ...(definition.hasCurrency ? { currency: field?.currency ?? DEFAULT_CURRENCY } : {}),
+          ...(field?.identifierType ? { identifierType: field.identifierType } : {})
+        }];
+      })),
+      lineItems: item.lineItems ?? null,
+      detectedLayout: item.detectedLayout,
+      layoutConfidence: item.layoutConfidence,
+      reviewStatus: getReviewStatus(item),
+      verifiedBy: item.approval?.verifiedBy ?? null,
+      approval: currentApproval(item),
+      timestamp: item.timestamp
+    }));
+    
+    downloadFile(
+      JSON.stringify(records, null, 2),
+      'application/json;charset=utf-8;',
+      `extracted_data_${new Date().toISOString().slice(0,10)}.json`
+    );
+    markExported(exportDocuments);
+  };
+
+  // Download generated content as a file
+  const downloadFile = (content: string, type: string, fileName: string) => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.setAttribute('href', url);
-    link.setAttribute('download', `extracted_data_${new Date().toISOString().slice(0,10)}.csv`);
+    link.setAttribute('download', fileName);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -381,13 +594,18 @@ function App() {
 
   // Handle copying data to clipboard
   const handleCopyData = (data: ExtractedData) => {
-    const textToCopy = `
-Customer Name: ${data.customerName.value} (${data.customerName.confidence.toFixed(1)}% confidence)
-Refund Amount: ${data.refundAmount.value} (${data.refundAmount.confidence.toFixed(1)}% confidence)
-IBAN Number: ${data.ibanNumber.value} (${data.ibanNumber.confidence.toFixed(1)}% confidence)
-Customer Service Number: ${data.customerServiceNumber.value} (${data.customerServiceNumber.confidence.toFixed(1)}% confidence)
-Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% match)
-    `.trim();
+    const fieldLines = fieldDefinitions
+      .map(definition => ({ definition, field: getField(data, definition.key) }))
+      .filter(({ definition, field }) => field && (definition.required || field.value !== definition.emptyValue))
+      .map(({ definition, field }) => {
+        const value = definition.hasCurrency ? `${field!.value} ${field!.currency ?? DEFAULT_CURRENCY}` : field!.value;
+        return `${definition.label}: ${value} (${field!.confidence.toFixed(1)}% confidence)`;
+      });
+    
+    const textToCopy = [
+      ...fieldLines,
+      `Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% match)`
+    ].join('\n');
     
     navigator.clipboard.writeText(textToCopy)
       .then(() => {
@@ -398,44 +616,103 @@ Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% ma
       });
   };
   
-  // Handle data correction
-  const handleDataCorrection = async (fieldType: keyof ExtractedData, value: string, confidence: number) => {
-    if (!selectedDocumentId || extractedData.length === 0) return;
+  // Read one text block of the current image again with other OCR languages, then extract the
+  // fields again from the updated text. Changed values count as a correction by the reviewer.
+  const handleRereadRegion = async (index: number, language: string) => {
+    const currentData = extractedData[0];
+    if (!currentFile || !currentData?.ocrRegions) return;
+    
+    const user = requireUser();
+    if (!user) return;
+    
+    const blocker = correctionBlocker(currentData);
+    if (blocker) {
+      setErrorMessage(blocker);
+      return;
+    }
+    
+    try {
+      const { text, confidence } = await extractionPool.extract(currentFile, {
+        region: { bbox: currentData.ocrRegions[index].bbox, language },
+        preprocessing: currentData.preprocessing?.settings
+      });
+      const regions = replaceOcrRegion(currentData.ocrRegions, index, text, language, confidence ?? 0);
+      const updatedText = joinOcrRegions(regions);
+      
+      // Extract the fields again in a worker, keeping how each page of the document was read
+      const { data: extracted } = await extractionPool.extract(currentFile, {
+        documentText: { text: updatedText, pages: currentData.pages }
+      });
+      const result = await finishExtractionResult({
+        ...extracted!,
+        ocrRegions: regions,
+        preprocessing: currentData.preprocessing,
+        timestamp: currentData.timestamp,
+        duplicates: currentData.duplicates,
+        review: currentData.review,
+        approval: currentData.approval
+      }, currentData.id);
+      const storedData = await documentManager.storeExtractionResults(applyCorrection(result, user));
+      
+      setDocumentText(updatedText);
+      setExtractedData([storedData]);
+      await loadFraudAlerts();
+    } catch (error) {
+      console.error("Error reading the text block again:", error);
+      setErrorMessage(`Failed to read the text block again: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+  
+  // Handle data correction; resolves to whether the correction was applied
+  const handleDataCorrection = async (fieldType: string, value: string, confidence: number): Promise<boolean> => {
+    if (!selectedDocumentId || extractedData.length === 0) return false;
+    
+    const user = requireUser();
+    if (!user) return false;
+    
+    // Refunds already in a payment file keep the values they were paid with
+    const blocker = correctionBlocker(extractedData[0]);
+    if (blocker) {
+      setErrorMessage(blocker);
+      return false;
+    }
     
     try {
       // Get the current extraction result
       const currentData = extractedData[0];
+      const currentField = getField(currentData, fieldType);
       
-      // Create updated data
-      let updatedData = { ...currentData };
-      
-      // Update the specified field
-      switch (fieldType) {
-        case 'customerName':
-          updatedData.customerName = { value, confidence };
-          break;
-        case 'refundAmount':
-          updatedData.refundAmount = { value, confidence };
-          break;
-        case 'ibanNumber':
-          updatedData.ibanNumber = { value, confidence };
-          break;
-        case 'customerServiceNumber':
-          updatedData.customerServiceNumber = { value, confidence };
-          break;
-      }
+      // Amounts entered with a currency (e.g. "USD 120.00") store the currency separately,
+      // and service numbers store the identifier type they validate as
+      const definition = getFieldDefinition(fieldType);
+      const validation = definition?.validate(value, currentField);
+      const correctedValue = definition?.hasCurrency && validation?.isValid ? validation.formattedValue : value;
+      
+      // Update the specified field, keeping the remaining alternatives minus the value that was just chosen
+      const updatedData = setField(currentData, fieldType, {
+        value: correctedValue,
+        confidence,
+        trace: [confidenceStep('manual.correction', 'Value set by a reviewer', confidence)],
+        alternatives: currentField?.alternatives?.filter(alternative => alternative.value !== correctedValue),
+        currency: definition?.hasCurrency && validation?.isValid ? validation.currency : currentField?.currency,
+        identifierType: validation?.identifierType
+      });
       
-      // Save the updated data
-      await documentManager.storeExtractionResults(updatedData);
+      // Save the updated data; a corrected value can change the master reconciliation and the suspected duplicates,
+      // and sends a verified or approved result back to review
+      const storedData = await documentManager.storeExtractionResults(await checkResult(applyCorrection(updatedData, user)));
       
       // Update state
-      setExtractedData([updatedData]);
+      setExtractedData([storedData]);
+      await loadFraudAlerts();
       
       // Show learning insights after manual correction
       setShowLearningInsights(true);
-      
+      return true;
     } catch (error) {
       console.error("Error updating extraction data:", error);
+      setErrorMessage(`Failed to save the correction: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
     }
   };
   
@@ -456,36 +733,40 @@ Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% ma
     }
   };
 
+  // Open the document viewer on the text an extracted value came from
+  const handleShowSource = (source: FieldSource) => {
+    setHighlightSource(source);
+    setShowDocumentViewer(true);
+    
+    setTimeout(() => {
+      documentViewerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }, 100);
+  };
+
   // Handle value selection from document viewer
   const handleValueSelect = async (text: string, fieldType: string) => {
     if (!selectedDocumentId || extractedData.length === 0) return;
     
-    // Define a mapping to convert fieldType to ExtractedData key
-    const fieldTypeMapping: Record<string, keyof ExtractedData> = {
-      'customerName': 'customerName',
-      'refundAmount': 'refundAmount',
-      'ibanNumber': 'ibanNumber',
-      'customerServiceNumber': 'customerServiceNumber'
-    };
-    
-    const fieldKey = fieldTypeMapping[fieldType];
-    if (!fieldKey) return;
+    const definition = getFieldDefinition(fieldType);
+    if (!definition || !requireUser()) return;
     
     try {
-      // Record the correction in the training system
+      const previousValue = getField(extractedData[0], fieldType)?.value ?? definition.emptyValue;
+      
+      // Update the extraction data with 100% confidence; refused for refunds already exported or paid
+      if (!await handleDataCorrection(fieldType, text, 100)) return;
+      
+      // Only a correction that was applied teaches the training system
       await trainingService.recordCorrection(
-        fieldKey as 'customerName' | 'refundAmount' | 'ibanNumber' | 'customerServiceNumber',
-        extractedData[0][fieldKey].value,
+        fieldType,
+        previousValue,
         text,
         selectedDocumentId,
         documentText
       );
       
-      // Also update the extraction data with 100% confidence
-      await handleDataCorrection(fieldKey, text, 100);
-      
       // Show a success message
-      alert(`Successfully updated ${fieldType} to: ${text}`);
+      alert(`Successfully updated ${definition.label} to: ${text}`);
       
       // Turn off edit mode
       setValueEditMode(false);
@@ -508,6 +789,47 @@ Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% ma
   };
   
   // Handle Quick Fix action from the results table
+  // Handle a reviewer confirming that a suspected duplicate is a separate refund
+  const handleAcknowledgeDuplicate = async (docId: string, duplicateId: string) => {
+    try {
+      const updated = await documentManager.acknowledgeDuplicate(docId, duplicateId);
+      if (!updated) return;
+      
+      setExtractedData(prev => prev.map(item => {
+        if (item.id === docId) return updated;
+        // The other document may be in the same batch
+        if (item.id === duplicateId) {
+          return {
+            ...item,
+            duplicates: item.duplicates?.map(link => link.id === docId ? { ...link, acknowledged: true } : link)
+          };
+        }
+        return item;
+      }));
+    } catch (error) {
+      console.error("Error acknowledging duplicate:", error);
+      setErrorMessage("Failed to update the suspected duplicate. Please try again.");
+    }
+  };
+
+  // Handle a reviewer releasing a watchlist hold; the reviewer and reason go into the audit trail
+  const handleReleaseHold = async (docId: string) => {
+    const user = requireUser();
+    if (!user) return;
+    
+    const reason = window.prompt('Why is this customer not the listed party?');
+    if (!reason?.trim()) return;
+    
+    try {
+      const updated = await documentManager.releaseScreeningHold(docId, reason.trim(), user);
+      if (!updated) return;
+      setExtractedData(prev => prev.map(item => item.id === docId ? updated : item));
+    } catch (error) {
+      console.error("Error releasing watchlist hold:", error);
+      setErrorMessage("Failed to release the watchlist hold. Please try again.");
+    }
+  };
+
   const handleQuickFix = async (docId: string) => {
     console.log("Quick Fix clicked for document:", docId);
     setErrorMessage(null);
@@ -569,6 +891,7 @@ Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% ma
           // Set document data directly
           setCurrentFile(file);
           setSelectedDocumentId(docId);
+          setHighlightSource(null);
           
           // Load extraction results
           let results: ExtractedData | null = null;
@@ -592,7 +915,7 @@ Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% ma
           
           // Extract text for context if not already done
           if (!documentText) {
-            const text = await documentExtractor.extractText(file);
+            const { text } = await extractionPool.extract(file, { textOnly: true, preprocessing: preprocessingSettings });
             setDocumentText(text);
           }
           
@@ -665,9 +988,18 @@ Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% ma
     });
   };
 
+  // Validation rule findings for the verified document, e.g. the amount disagreeing with the amount in words
+  const verificationFindings = extractedData.length > 0
+    ? validateExtractionData(getFieldValues(extractedData[0]), {
+      qualifiers: getFieldQualifiers(extractedData[0]),
+      lineItems: extractedData[0].lineItems,
+      layout: extractedData[0].detectedLayout
+    }).findings
+    : [];
+
   return (
     <div className="min-h-screen bg-gray-50">
-      <Header />
+      <Header currentUser={currentUser} onUserChange={setCurrentUser} />
       
       <main className="container mx-auto px-4 py-8">
         <div className="max-w-6xl mx-auto">
@@ -683,6 +1015,22 @@ Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% ma
             </div>
           )}
 
+          {missingAssets.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded mb-6">
+              <p className="font-medium">
+                Some files needed to read PDFs and images are not available, so extracting those will fail:
+              </p>
+              <ul className="list-disc list-inside text-sm mt-1">
+                {missingAssets.map(asset => (
+                  <li key={asset.path}>{asset.label} <span className="text-amber-600">({asset.url})</span></li>
+                ))}
+              </ul>
+              <p className="text-sm mt-1">
+                They are part of the app's build. Rebuild the app after running npm install, and deploy the whole build folder.
+              </p>
+            </div>
+          )}
+
           <div className="bg-white rounded-lg shadow-md p-6 mb-8">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-xl font-semibold flex items-center">
@@ -707,24 +1055,42 @@ Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% ma
               </div>
             )}
             
+            <div className="mb-4">
+              <label htmlFor="batch-name" className="block text-sm font-medium text-gray-700 mb-1">Batch name</label>
+              <input
+                type="text"
+                id="batch-name"
+                value={batchName}
+                onChange={(e) => setBatchName(e.target.value)}
+                placeholder="E.g. Final settlements week 12 (optional)"
+                className="w-full bg-white border border-gray-300 text-gray-700 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2"
+              />
+            </div>
+            
+            <PreprocessingSettingsPanel settings={preprocessingSettings} onChange={setPreprocessingSettings} />
+            
             <FileUploader onFilesSelected={handleFilesSelected} />
             
             {isProcessing && (
               <div className="mt-4">
                 <div className="flex items-center justify-between mb-2">
-                  <span className="text-sm text-gray-600">Processing documents...</span>
+                  <span className="text-sm text-gray-600">
+                    {activeBatch?.status === 'paused' ? `${activeBatch.name} is paused` : activeBatch ? `Processing ${activeBatch.name}...` : 'Processing documents...'}
+                  </span>
                   <span className="text-sm font-medium">{processedFiles} of {totalFiles}</span>
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-2.5">
                   <div 
                     className="bg-blue-600 h-2.5 rounded-full transition-all duration-300" 
-                    style={{ width: `${(processedFiles / totalFiles) * 100}%` }}
+                    style={{ width: `${((processedFiles + inProgressFiles) / Math.max(1, totalFiles)) * 100}%` }}
                   ></div>
                 </div>
               </div>
             )}
           </div>
           
+          <BatchQueuePanel onOpenBatch={handleOpenBatch} />
+          
           {showLearningInsights && (
             <LearningInsights refreshInterval={5 * 60 * 1000} />
           )}
@@ -769,9 +1135,24 @@ Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% ma
                 file={currentFile}
                 readOnly={!valueEditMode}
                 highlightPattern={searchPattern}
+                documentText={documentText}
+                highlightSource={highlightSource}
                 onValueSelect={valueEditMode ? handleValueSelect : undefined}
+                preprocessing={extractedData[0]?.preprocessing?.settings ?? preprocessingSettings}
               />
               
+              {extractedData[0]?.pages && (
+                <p className="mt-2 text-xs text-gray-500">{describePageMethods(extractedData[0].pages)}</p>
+              )}
+              
+              {extractedData[0]?.ocrRegions && extractedData[0].ocrRegions.length > 0 && (
+                <OcrRegionsPanel
+                  regions={extractedData[0].ocrRegions}
+                  onReread={handleRereadRegion}
+                  disabled={isProcessing}
+                />
+              )}
+              
               {valueEditMode && (
                 <div className="mt-3 p-3 bg-blue-50 rounded-md border border-blue-200">
                   <div className="flex items-start">
@@ -797,54 +1178,41 @@ Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% ma
               </h3>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <DataCorrection
-                  fieldName="Customer Name"
-                  fieldType="customerName"
-                  currentValue={extractedData[0].customerName.value}
-                  confidence={extractedData[0].customerName.confidence}
-                  onValueCorrect={(value, confidence) => 
-                    handleDataCorrection('customerName', value, confidence)
-                  }
-                  context={documentText}
-                  documentId={selectedDocumentId}
-                />
-                
-                <DataCorrection
-                  fieldName="Refund Amount"
-                  fieldType="refundAmount"
-                  currentValue={extractedData[0].refundAmount.value}
-                  confidence={extractedData[0].refundAmount.confidence}
-                  onValueCorrect={(value, confidence) => 
-                    handleDataCorrection('refundAmount', value, confidence)
-                  }
-                  context={documentText}
-                  documentId={selectedDocumentId}
-                />
-                
-                <DataCorrection
-                  fieldName="IBAN Number"
-                  fieldType="ibanNumber"
-                  currentValue={extractedData[0].ibanNumber.value}
-                  confidence={extractedData[0].ibanNumber.confidence}
-                  onValueCorrect={(value, confidence) => 
-                    handleDataCorrection('ibanNumber', value, confidence)
-                  }
-                  context={documentText}
-                  documentId={selectedDocumentId}
-                />
-                
-                <DataCorrection
-                  fieldName="Customer Service Number"
-                  fieldType="customerServiceNumber"
-                  currentValue={extractedData[0].customerServiceNumber.value}
-                  confidence={extractedData[0].customerServiceNumber.confidence}
-                  onValueCorrect={(value, confidence) => 
-                    handleDataCorrection('customerServiceNumber', value, confidence)
-                  }
-                  context={documentText}
-                  documentId={selectedDocumentId}
-                />
+                {fieldDefinitions.map(definition => {
+                  const field = getField(extractedData[0], definition.key);
+                  if (!field) return null;
+                  
+                  return (
+                    <DataCorrection
+                      key={definition.key}
+                      fieldName={definition.label}
+                      fieldType={definition.key}
+                      currentValue={field.value}
+                      confidence={field.confidence}
+                      alternatives={field.alternatives}
+                      source={field.source}
+                      currency={field.currency}
+                      identifierType={field.identifierType}
+                      findings={verificationFindings.filter(finding => finding.field === definition.key)}
+                      repairs={field.repairs}
+                      reconciliation={extractedData[0].masterData?.fields.find(reconciliation => reconciliation.field === definition.key)}
+                      sourcePage={extractedData[0].pages?.find(page => page.page === field.source?.page)}
+                      onShowSource={handleShowSource}
+                      onValueCorrect={(value, confidence) => 
+                        handleDataCorrection(definition.key, value, confidence)
+                      }
+                      context={documentText}
+                      documentId={selectedDocumentId}
+                    />
+                  );
+                })}
               </div>
+              
+              {extractedData[0].lineItems && (
+                <LineItemsTable table={extractedData[0].lineItems} currency={extractedData[0].refundAmount.currency} />
+              )}
+              
+              <AuditTrail data={extractedData[0]} />
             </div>
           )}
           
@@ -855,6 +1223,8 @@ Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% ma
             </>
           )}
           
+          <FraudAlertsPanel alerts={fraudAlerts} onAcknowledge={handleAcknowledgeFraudAlert} />
+          
           <div className="bg-white rounded-lg shadow-md p-6">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-xl font-semibold flex items-center">
@@ -863,13 +1233,35 @@ Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% ma
               </h2>
               
               {showResults && extractedData.length > 0 && (
-                <button 
-                  onClick={handleExportData}
-                  className="inline-flex items-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                >
-                  <Download size={16} className="mr-2" />
-                  Export CSV
-                </button>
+                <div className="flex items-center space-x-2">
+                  <label className="flex items-center text-sm text-gray-600 mr-2">
+                    <input
+                      type="checkbox"
+                      checked={includeUnapproved}
+                      onChange={(e) => setIncludeUnapproved(e.target.checked)}
+                      className="mr-1.5"
+                    />
+                    Include unapproved
+                  </label>
+                  <button 
+                    onClick={handleExportJson}
+                    disabled={exportBlocker !== null}
+                    title={exportBlocker ?? undefined}
+                    className="inline-flex items-center px-4 py-2 bg-white text-blue-600 border border-blue-600 text-sm font-medium rounded-md hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Download size={16} className="mr-2" />
+                    Export JSON
+                  </button>
+                  <button 
+                    onClick={handleExportData}
+                    disabled={exportBlocker !== null}
+                    title={exportBlocker ?? undefined}
+                    className="inline-flex items-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Download size={16} className="mr-2" />
+                    Export CSV
+                  </button>
+                </div>
               )}
             </div>
             
@@ -878,6 +1270,9 @@ Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% ma
                 data={extractedData} 
                 onCopyData={handleCopyData}
                 onQuickFix={handleQuickFix}
+                onAcknowledgeDuplicate={handleAcknowledgeDuplicate}
+                onReleaseHold={handleReleaseHold}
+                onChangeStatus={handleChangeStatus}
               />
             ) : (
               <div className="border rounded-lg p-8 text-center text-gray-500">
@@ -896,6 +1291,7 @@ Detected Layout: ${data.detectedLayout} (${data.layoutConfidence.toFixed(1)}% ma
           documentId={selectedDocumentId}
           onClose={handleCloseQuickFix}
           onValueSelect={handleValueSelect}
+          data={extractedData.find(doc => doc.id === selectedDocumentId)}
         />
       )}
       
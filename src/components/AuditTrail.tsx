@@ -0,0 +1,49 @@
+import React, { useState, useEffect } from 'react';
+import { History } from 'lucide-react';
+import DocumentManager from '../services/DocumentManager';
+import { AuditAction, AuditEntry, ExtractedData } from '../types';
+
+interface AuditTrailProps {
+  data: ExtractedData; // Reloaded whenever the stored result changes
+}
+
+const actionLabels: Record<AuditAction, string> = {
+  screening: 'Watchlist screening',
+  screeningRelease: 'Hold released',
+  statusChange: 'Status changed',
+  fraudAcknowledgement: 'Fraud alert acknowledged'
+};
+
+const AuditTrail: React.FC<AuditTrailProps> = ({ data }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+
+  useEffect(() => {
+    DocumentManager.getInstance().getAuditTrail(data.id).then(setEntries);
+  }, [data]);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="border rounded-md p-3 bg-white mt-4">
+      <h4 className="text-sm font-medium text-gray-600 mb-2 flex items-center">
+        <History size={16} className="mr-2 text-blue-600" />
+        Audit Trail
+      </h4>
+
+      <table className="min-w-full text-sm">
+        <tbody className="divide-y divide-gray-100">
+          {entries.map(entry => (
+            <tr key={entry.id}>
+              <td className="py-1 pr-4 text-gray-500 whitespace-nowrap align-top">{new Date(entry.timestamp).toLocaleString()}</td>
+              <td className="py-1 pr-4 text-gray-800 whitespace-nowrap align-top">{actionLabels[entry.action]}</td>
+              <td className="py-1 pr-4 text-gray-700">{entry.details}</td>
+              <td className="py-1 text-gray-500 whitespace-nowrap align-top">{entry.actor}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default AuditTrail;
@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ListOrdered, Pause, Play, XCircle, RotateCcw, FolderOpen, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import BatchQueueService from '../services/BatchQueueService';
+import { BatchJob, BatchStatus, ProcessingBatch } from '../types';
+import { batchStatusLabels, jobStatusLabels, summarizeJobs } from '../utils/batchQueue';
+
+interface BatchQueuePanelProps {
+  onOpenBatch: (batch: ProcessingBatch, jobs: BatchJob[]) => void;
+}
+
+const statusColors: Record<BatchStatus, string> = {
+  running: 'bg-blue-100 text-blue-700',
+  paused: 'bg-amber-100 text-amber-700',
+  completed: 'bg-green-100 text-green-700',
+  cancelled: 'bg-gray-100 text-gray-700'
+};
+
+const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({ onOpenBatch }) => {
+  const [batches, setBatches] = useState<ProcessingBatch[]>([]);
+  const [jobsByBatch, setJobsByBatch] = useState<Record<string, BatchJob[]>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const batchQueue = BatchQueueService.getInstance();
+  const [concurrency, setConcurrency] = useState<string>(String(batchQueue.getConcurrency()));
+
+  const loadBatches = useCallback(async () => {
+    const stored = await batchQueue.getBatches();
+    const jobs = await Promise.all(stored.map(batch => batchQueue.getJobs(batch.id)));
+    setBatches(stored);
+    setJobsByBatch(Object.fromEntries(stored.map((batch, index) => [batch.id, jobs[index]])));
+  }, [batchQueue]);
+
+  // Follow the queue as it works
+  useEffect(() => {
+    loadBatches();
+    return batchQueue.subscribe((batch, jobs) => {
+      setBatches(prev => prev.some(existing => existing.id === batch.id)
+        ? prev.map(existing => existing.id === batch.id ? batch : existing)
+        : [batch, ...prev]);
+      setJobsByBatch(prev => ({ ...prev, [batch.id]: jobs }));
+    });
+  }, [batchQueue, loadBatches]);
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error(failure, err);
+      alert(failure);
+    }
+  };
+
+  const handleConcurrencyChange = async (value: string) => {
+    setConcurrency(value);
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed) || parsed < 1 || parsed > 8) return;
+    await runAction(() => batchQueue.setConcurrency(parsed), 'Failed to save the number of parallel documents');
+  };
+
+  const handleDelete = async (batch: ProcessingBatch) => {
+    if (!window.confirm(`Remove "${batch.name}" from the list? Its documents and results are kept.`)) return;
+    await runAction(() => batchQueue.deleteBatch(batch.id), 'Failed to remove the batch');
+    await loadBatches();
+  };
+
+  if (batches.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium flex items-center">
+          <ListOrdered className="mr-2 text-blue-600" size={18} />
+          Processing Batches
+        </h3>
+
+        <label className="flex items-center text-sm text-gray-600">
+          Documents processed in parallel
+          <input
+            type="number"
+            min={1}
+            max={8}
+            value={concurrency}
+            onChange={(e) => handleConcurrencyChange(e.target.value)}
+            className="ml-2 w-16 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 p-1"
+          />
+        </label>
+      </div>
+
+      <ul className="divide-y divide-gray-200 border rounded-md">
+        {batches.map(batch => {
+          const jobs = jobsByBatch[batch.id] ?? [];
+          const counts = summarizeJobs(jobs);
+          const finished = counts.done + counts.failed + counts.cancelled;
+          const expanded = expandedId === batch.id;
+
+          return (
+            <li key={batch.id} className="p-3">
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => setExpandedId(expanded ? null : batch.id)}
+                  className="flex items-center text-left text-sm"
+                >
+                  {expanded ? <ChevronDown size={16} className="mr-1" /> : <ChevronRight size={16} className="mr-1" />}
+                  <span>
+                    <span className="font-medium text-gray-900">{batch.name}</span>
+                    <span className="block text-xs text-gray-500">
+                      {new Date(batch.createdAt).toLocaleString()} · {counts.done} of {batch.documentCount} done
+                      {counts.failed > 0 && <span className="text-red-600"> · {counts.failed} failed</span>}
+                      {counts.cancelled > 0 && <span> · {counts.cancelled} cancelled</span>}
+                    </span>
+                  </span>
+                </button>
+
+                <div className="flex items-center space-x-3 text-sm">
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${statusColors[batch.status]}`}>
+                    {batchStatusLabels[batch.status]}
+                  </span>
+                  {batch.status === 'running' && (
+                    <button onClick={() => runAction(() => batchQueue.pauseBatch(batch.id), 'Failed to pause the batch')} className="text-gray-600 hover:text-gray-800" title="Pause after the current document">
+                      <Pause size={16} />
+                    </button>
+                  )}
+                  {batch.status === 'paused' && (
+                    <button onClick={() => runAction(() => batchQueue.resumeBatch(batch.id), 'Failed to resume the batch')} className="text-blue-600 hover:text-blue-800" title="Resume">
+                      <Play size={16} />
+                    </button>
+                  )}
+                  {(batch.status === 'running' || batch.status === 'paused') && (
+                    <button onClick={() => runAction(() => batchQueue.cancelBatch(batch.id), 'Failed to cancel the batch')} className="text-red-600 hover:text-red-800" title="Cancel the documents not processed yet">
+                      <XCircle size={16} />
+                    </button>
+                  )}
+                  {(batch.status === 'completed' || batch.status === 'cancelled') && counts.failed + counts.cancelled > 0 && (
+                    <button onClick={() => runAction(() => batchQueue.retryBatch(batch.id), 'Failed to retry the batch')} className="text-orange-600 hover:text-orange-800" title="Retry the failed and cancelled documents">
+                      <RotateCcw size={16} />
+                    </button>
+                  )}
+                  {counts.done > 0 && (
+                    <button onClick={() => onOpenBatch(batch, jobs)} className="text-blue-600 hover:text-blue-800" title="Show the batch's results">
+                      <FolderOpen size={16} />
+                    </button>
+                  )}
+                  {batch.status !== 'running' && (
+                    <button onClick={() => handleDelete(batch)} className="text-gray-500 hover:text-red-600" title="Remove from the list">
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {(batch.status === 'running' || batch.status === 'paused') && (
+                <div className="w-full bg-gray-200 rounded-full h-1.5 mt-2">
+                  <div
+                    className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
+                    style={{ width: `${(finished / Math.max(1, batch.documentCount)) * 100}%` }}
+                  ></div>
+                </div>
+              )}
+
+              {expanded && (
+                <table className="min-w-full text-sm mt-3">
+                  <tbody className="divide-y divide-gray-100">
+                    {jobs.map(job => (
+                      <tr key={job.id}>
+                        <td className="py-1 pr-4 text-gray-800">{job.fileName}</td>
+                        <td className={`py-1 pr-4 whitespace-nowrap ${job.status === 'failed' ? 'text-red-600' : 'text-gray-600'}`}>
+                          {jobStatusLabels[job.status]}
+                          {job.attempts > 1 && ` (${job.attempts} attempts)`}
+                        </td>
+                        <td className="py-1 pr-4 text-xs text-gray-500">
+                          {job.lastError}
+                          {job.status === 'queued' && job.nextAttemptAt && ` · retry at ${new Date(job.nextAttemptAt).toLocaleTimeString()}`}
+                        </td>
+                        <td className="py-1 text-right">
+                          {(job.status === 'queued' || job.status === 'processing') && (
+                            <button
+                              onClick={() => runAction(() => batchQueue.cancelJob(job.id), 'Failed to cancel the document')}
+                              className="text-red-600 hover:text-red-800"
+                              title="Cancel this document"
+                            >
+                              <XCircle size={14} />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default BatchQueuePanel;
@@ -1,14 +1,21 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { ConfidenceStep } from '../types';
 
 interface ConfidenceIndicatorProps {
   confidence: number;
   showText?: boolean;
+  trace?: ConfidenceStep[]; // When provided, the score can be expanded into its breakdown
 }
 
 const ConfidenceIndicator: React.FC<ConfidenceIndicatorProps> = ({ 
   confidence, 
-  showText = true 
+  showText = true,
+  trace
 }) => {
+  const [showBreakdown, setShowBreakdown] = useState<boolean>(false);
+  const hasTrace = !!trace && trace.length > 0;
+
   // Get the appropriate color based on confidence level
   const getColor = (confidence: number): string => {
     if (confidence >= 95) return 'bg-green-500';
@@ -47,7 +54,7 @@ const ConfidenceIndicator: React.FC<ConfidenceIndicatorProps> = ({
   };
 
   return (
-    <div className="flex items-center">
+    <div className="relative">
       <div className="flex items-center">
         <div className={`w-3 h-3 rounded-full ${getColor(confidence)} mr-2 relative ${getPattern(confidence)} after:absolute after:text-xs after:text-white after:font-bold after:right-0 after:top-0.5`}></div>
         {showText && (
@@ -55,7 +62,37 @@ const ConfidenceIndicator: React.FC<ConfidenceIndicatorProps> = ({
             {confidence.toFixed(1)}% - {getConfidenceText(confidence)}
           </span>
         )}
+        {hasTrace && (
+          <button
+            onClick={() => setShowBreakdown(!showBreakdown)}
+            className="ml-1 text-gray-400 hover:text-gray-600"
+            title={showBreakdown ? 'Hide score breakdown' : 'Why this score?'}
+          >
+            {showBreakdown ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+          </button>
+        )}
       </div>
+      
+      {hasTrace && showBreakdown && (
+        <div className="absolute z-10 mt-1 w-80 bg-white border rounded-md shadow-lg p-2 text-xs whitespace-normal">
+          <table className="w-full">
+            <tbody>
+              {trace!.map((step, idx) => (
+                <tr key={idx} className="align-top">
+                  <td className="py-0.5 pr-2 text-gray-700" title={step.rule}>{step.description}</td>
+                  <td className={`py-0.5 text-right font-mono ${step.delta < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                    {idx > 0 && step.delta >= 0 ? '+' : ''}{step.delta}
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-t">
+                <td className="pt-1 pr-2 font-medium text-gray-800">Confidence</td>
+                <td className="pt-1 text-right font-mono font-medium">{confidence.toFixed(1)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,6 +1,8 @@
 import React from 'react';
 import { ExtractedData } from '../types';
-import { FileText, LayoutGrid } from 'lucide-react';
+import { FileText, LayoutGrid, Wallet } from 'lucide-react';
+import { validateAmount } from '../services/DataValidationService';
+import { DEFAULT_CURRENCY, getCurrency } from '../utils/currencies';
 
 interface ConfidenceSummaryProps {
   data: ExtractedData[];
@@ -71,6 +73,26 @@ const ConfidenceSummary: React.FC<ConfidenceSummaryProps> = ({ data }) => {
 
   const layoutStats = getLayoutStats();
 
+  // Total refund amount per currency; amounts that don't validate are left out
+  const getRefundTotals = () => {
+    const totals: { [currency: string]: { amount: number, count: number } } = {};
+    
+    data.forEach(item => {
+      const validation = validateAmount(item.refundAmount.value, item.refundAmount.currency ?? DEFAULT_CURRENCY);
+      if (!validation.isValid) return;
+      
+      if (!totals[validation.currency]) {
+        totals[validation.currency] = { amount: 0, count: 0 };
+      }
+      totals[validation.currency].amount += validation.numericValue;
+      totals[validation.currency].count++;
+    });
+    
+    return totals;
+  };
+
+  const refundTotals = getRefundTotals();
+
   return (
     <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
       <div className="flex justify-between items-start mb-4">
@@ -129,6 +151,25 @@ const ConfidenceSummary: React.FC<ConfidenceSummaryProps> = ({ data }) => {
           <span className="text-sm">{(data.reduce((acc, item) => acc + item.customerServiceNumber.confidence, 0) / data.length).toFixed(1)}%</span>
         </div>
       </div>
+      
+      {Object.keys(refundTotals).length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+          <Wallet className="text-green-600" size={16} />
+          <span className="font-medium text-gray-700">Refund Totals:</span>
+          {Object.entries(refundTotals).map(([currency, total]) => (
+            <span
+              key={currency}
+              className="bg-green-50 text-green-800 rounded-full px-2 py-0.5"
+              title={`${total.count} document${total.count === 1 ? '' : 's'} in ${getCurrency(currency)?.name ?? currency}`}
+            >
+              {currency} {total.amount.toLocaleString(undefined, {
+                minimumFractionDigits: getCurrency(currency)?.minorUnits ?? 2,
+                maximumFractionDigits: getCurrency(currency)?.minorUnits ?? 2
+              })}
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Users, Upload, Trash2, Info, RefreshCw } from 'lucide-react';
+import CustomerMasterService from '../services/CustomerMasterService';
+
+const CustomerMasterImport: React.FC = () => {
+  const [recordCount, setRecordCount] = useState<number>(0);
+  const [lastImport, setLastImport] = useState<string | null>(null);
+  const [replace, setReplace] = useState<boolean>(true);
+  const [importing, setImporting] = useState<boolean>(false);
+  const [result, setResult] = useState<{ imported: number; errors: string[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const customerMaster = CustomerMasterService.getInstance();
+
+  // Load the size and age of the imported master
+  const loadStatus = useCallback(async () => {
+    setRecordCount(await customerMaster.getRecordCount());
+    setLastImport(await customerMaster.getLastImport());
+  }, [customerMaster]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    try {
+      setImporting(true);
+      setError(null);
+      setResult(await customerMaster.importCsv(await file.text(), replace));
+      await loadStatus();
+    } catch (err) {
+      console.error('Error importing customer master:', err);
+      setError('Failed to import the customer master file');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Remove all customer master records?')) return;
+
+    try {
+      await customerMaster.clear();
+      setResult(null);
+      await loadStatus();
+    } catch (err) {
+      console.error('Error clearing customer master:', err);
+      alert('Failed to clear the customer master');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium flex items-center">
+          <Users className="mr-2 text-blue-600" size={20} />
+          Customer Master
+        </h3>
+
+        <div className="flex space-x-2">
+          <button
+            onClick={loadStatus}
+            className="p-2 text-gray-500 hover:text-gray-700"
+            title="Refresh"
+          >
+            <RefreshCw size={18} />
+          </button>
+
+          <button
+            onClick={handleClear}
+            className="p-2 text-gray-500 hover:text-red-600"
+            title="Remove all records"
+            disabled={recordCount === 0}
+          >
+            <Trash2 size={18} />
+          </button>
+
+          <label className={`bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-md px-3 py-2 flex items-center cursor-pointer ${importing ? 'opacity-50 pointer-events-none' : ''}`}>
+            <Upload size={16} className="mr-1" />
+            {importing ? 'Importing...' : 'Import CSV'}
+            <input type="file" accept=".csv,text/csv" onChange={handleFileSelected} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-2">
+        {recordCount > 0
+          ? `${recordCount} customers on record${lastImport ? `, last imported ${new Date(lastImport).toLocaleString()}` : ''}.`
+          : 'No customer master imported. Extraction results are not reconciled until one is.'}
+      </p>
+      <p className="text-xs text-gray-500 mb-3">
+        The CSV needs a header row with the service number, registered name and registered IBAN columns.
+        Processed documents are compared with the record of their service number.
+      </p>
+
+      <label className="flex items-center text-sm text-gray-700 mb-4">
+        <input
+          type="checkbox"
+          checked={replace}
+          onChange={(e) => setReplace(e.target.checked)}
+          className="mr-2"
+        />
+        Replace existing records (the file is a full export)
+      </label>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-600 p-4 rounded-md mb-4">
+          <p className="flex items-center">
+            <Info size={16} className="mr-2" />
+            {error}
+          </p>
+        </div>
+      )}
+
+      {result && (
+        <div className={`p-4 rounded-md border ${result.errors.length > 0 ? 'bg-amber-50 border-amber-200' : 'bg-green-50 border-green-200'}`}>
+          <p className="text-sm font-medium text-gray-800">Imported {result.imported} records</p>
+          {result.errors.length > 0 && (
+            <ul className="mt-2 text-xs text-amber-800 list-disc list-inside max-h-40 overflow-y-auto">
+              {result.errors.map((message, index) => (
+                <li key={index}>{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomerMasterImport;
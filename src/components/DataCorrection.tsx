@@ -1,18 +1,38 @@
 import React, { useState, useEffect } from 'react';
-import { AlertCircle, Check, X } from 'lucide-react';
-import { validateCustomerName, validateAmount, validateIBAN, validateServiceNumber } from '../services/DataValidationService';
+import { AlertCircle, AlertTriangle, Check, Database, Info, Locate, X } from 'lucide-react';
 import TrainingService from '../services/TrainingService';
+import { CharacterRepair, FieldCandidate, FieldReconciliation, FieldSource, PageText } from '../types';
+import { FieldValidationResult, getFieldDefinition } from '../utils/fieldDefinitions';
+import { describeRepairs } from '../utils/iban';
+import { pageMethodLabels } from '../utils/pageText';
+import { RuleFinding, RuleSeverity } from '../utils/validationRules';
 
 interface DataCorrectionProps {
   fieldName: string;
-  fieldType: 'customerName' | 'refundAmount' | 'ibanNumber' | 'customerServiceNumber';
+  fieldType: string;
   currentValue: string;
   confidence: number;
   onValueCorrect: (value: string, confidence: number) => void;
   context?: string;
   documentId?: string;
+  alternatives?: FieldCandidate[];
+  source?: FieldSource;
+  currency?: string; // ISO code, for amount fields
+  identifierType?: string; // Service identifier type key, for service number fields
+  findings?: RuleFinding[]; // Validation rule findings reported on this field
+  repairs?: CharacterRepair[]; // OCR characters the extractor changed, to be confirmed
+  reconciliation?: FieldReconciliation; // Comparison with the customer master record
+  sourcePage?: PageText; // How the page the value was found on was read, for PDFs
+  onShowSource?: (source: FieldSource) => void;
 }
 
+// Icon and colour of validation findings by severity
+const findingStyles: Record<RuleSeverity, { Icon: typeof Info; className: string }> = {
+  error: { Icon: AlertCircle, className: 'text-red-600' },
+  warning: { Icon: AlertTriangle, className: 'text-amber-700' },
+  info: { Icon: Info, className: 'text-blue-600' }
+};
+
 const DataCorrection: React.FC<DataCorrectionProps> = ({
   fieldName,
   fieldType,
@@ -20,7 +40,16 @@ const DataCorrection: React.FC<DataCorrectionProps> = ({
   confidence,
   onValueCorrect,
   context,
-  documentId
+  documentId,
+  alternatives = [],
+  source,
+  currency,
+  identifierType,
+  findings = [],
+  repairs = [],
+  reconciliation,
+  sourcePage,
+  onShowSource
 }) => {
   const [editMode, setEditMode] = useState<boolean>(false);
   const [value, setValue] = useState<string>(currentValue);
@@ -33,29 +62,18 @@ const DataCorrection: React.FC<DataCorrectionProps> = ({
   useEffect(() => {
     setValue(currentValue);
     validateField(currentValue);
-  }, [currentValue]);
+  }, [currentValue, currency, identifierType]);
   
   const validateField = (input: string) => {
-    let validationResult: any = { isValid: true };
+    const definition = getFieldDefinition(fieldType);
+    const validationResult: FieldValidationResult = definition
+      ? definition.validate(input, { currency, identifierType })
+      : { isValid: true, formattedValue: input };
     
-    switch (fieldType) {
-      case 'customerName':
-        validationResult = validateCustomerName(input);
-        break;
-      case 'refundAmount':
-        validationResult = validateAmount(input);
-        break;
-      case 'ibanNumber':
-        validationResult = validateIBAN(input);
-        if (validationResult.isValid && validationResult.bankName) {
-          setAdditionalInfo(validationResult.bankName);
-        } else {
-          setAdditionalInfo('');
-        }
-        break;
-      case 'customerServiceNumber':
-        validationResult = validateServiceNumber(input);
-        break;
+    if (validationResult.isValid && validationResult.additionalInfo) {
+      setAdditionalInfo(validationResult.additionalInfo);
+    } else {
+      setAdditionalInfo('');
     }
     
     setIsValid(validationResult.isValid);
@@ -76,38 +94,48 @@ const DataCorrection: React.FC<DataCorrectionProps> = ({
     validateField(currentValue);
   };
   
+  // Record a reviewer's correction for learning and apply it with full confidence
+  const applyValue = async (newValue: string) => {
+    // Record the correction in the training system
+    if (newValue !== currentValue && documentId) {
+      try {
+        // Record the correction for learning
+        await trainingService.recordCorrection(
+          fieldType,
+          currentValue,
+          newValue,
+          documentId,
+          context
+        );
+        
+        // Also add as a training example
+        await trainingService.addTrainingExample({
+          fieldType,
+          pattern: fieldName.toLowerCase(),
+          value: newValue,
+          context,
+          confidence: 90
+        });
+      } catch (error) {
+        console.error('Error saving training example:', error);
+      }
+    }
+    
+    onValueCorrect(newValue, 100); // Set to 100% confidence when manually corrected
+  };
+  
   const handleSave = async () => {
     if (validateField(value)) {
-      // Record the correction in the training system
-      if (value !== currentValue && documentId) {
-        try {
-          // Record the correction for learning
-          await trainingService.recordCorrection(
-            fieldType,
-            currentValue,
-            value,
-            documentId,
-            context
-          );
-          
-          // Also add as a training example
-          await trainingService.addTrainingExample({
-            fieldType,
-            pattern: fieldName.toLowerCase(),
-            value,
-            context,
-            confidence: 90
-          });
-        } catch (error) {
-          console.error('Error saving training example:', error);
-        }
-      }
-      
-      onValueCorrect(value, 100); // Set to 100% confidence when manually corrected
+      await applyValue(value);
       setEditMode(false);
     }
   };
   
+  // Promote an alternative candidate to be the field value
+  const handleUseAlternative = async (alternative: FieldCandidate) => {
+    await applyValue(alternative.value);
+  };
+  
   return (
     <div className="border rounded-md p-3 bg-white">
       <div className="flex justify-between items-start mb-2">
@@ -165,13 +193,115 @@ const DataCorrection: React.FC<DataCorrectionProps> = ({
         </div>
       ) : (
         <div>
-          <span className="text-lg font-medium text-gray-800 block">{currentValue}</span>
+          <span className="text-lg font-medium text-gray-800 block">
+            {currentValue}
+            {currency && <span className="ml-1 text-sm text-gray-500">{currency}</span>}
+          </span>
           
           {additionalInfo && (
             <span className="text-xs text-gray-600 block mt-1">
               {additionalInfo}
             </span>
           )}
+          
+          {findings.map(finding => {
+            const { Icon, className } = findingStyles[finding.severity];
+            return (
+              <div key={finding.ruleId} className={`mt-1 flex items-start text-xs ${className}`} title={`Rule ${finding.ruleId}`}>
+                <Icon size={12} className="mr-1 mt-0.5" />
+                <span>{finding.message}</span>
+              </div>
+            );
+          })}
+          
+          {repairs.length > 0 && (
+            <div className="mt-1 flex items-start justify-between text-amber-700 text-xs">
+              <span className="flex items-start">
+                <AlertTriangle size={12} className="mr-1 mt-0.5" />
+                <span>OCR repairs to confirm: {describeRepairs(repairs)}</span>
+              </span>
+              <button
+                onClick={() => applyValue(currentValue)}
+                className="ml-2 text-blue-600 hover:text-blue-800 whitespace-nowrap"
+                title="Confirm the repaired value against the document"
+              >
+                Confirm
+              </button>
+            </div>
+          )}
+          
+          {reconciliation?.status === 'match' && (
+            <div className="mt-1 flex items-start text-green-700 text-xs">
+              <Database size={12} className="mr-1 mt-0.5" />
+              <span>Matches the customer master</span>
+            </div>
+          )}
+          
+          {(reconciliation?.status === 'mismatch' || reconciliation?.status === 'missing') && (
+            <div className={`mt-1 flex items-start justify-between text-xs ${reconciliation.status === 'mismatch' ? 'text-red-600' : 'text-amber-700'}`}>
+              <span className="flex items-start">
+                <Database size={12} className="mr-1 mt-0.5" />
+                <span>
+                  {reconciliation.status === 'mismatch' ? 'Differs from the customer master' : 'Not found on the document'}
+                  : registered {reconciliation.registered}
+                </span>
+              </span>
+              <button
+                onClick={() => applyValue(reconciliation.registered)}
+                className="ml-2 text-blue-600 hover:text-blue-800 whitespace-nowrap"
+                title="Use the value registered in the customer master"
+              >
+                Use registered
+              </button>
+            </div>
+          )}
+          
+          {reconciliation?.status === 'notOnRecord' && (
+            <div className="mt-1 flex items-start text-amber-700 text-xs">
+              <Database size={12} className="mr-1 mt-0.5" />
+              <span>Service number not found in the customer master</span>
+            </div>
+          )}
+          
+          {source && source.start >= 0 && (
+            <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+              <span title={`Matched by /${source.pattern}/`}>
+                Page {source.page}
+                {sourcePage && ` (${pageMethodLabels[sourcePage.method]})`}
+                {source.sectionIndex >= 0 && `, section ${source.sectionIndex + 1}`}
+                , chars {source.start}–{source.end}
+              </span>
+              {onShowSource && (
+                <button
+                  onClick={() => onShowSource(source)}
+                  className="flex items-center text-blue-600 hover:text-blue-800"
+                  title="Highlight the source text in the document"
+                >
+                  <Locate size={12} className="mr-1" />
+                  Show source
+                </button>
+              )}
+            </div>
+          )}
+          
+          {alternatives.length > 0 && (
+            <div className="mt-2 pt-2 border-t border-gray-100">
+              <span className="text-xs text-gray-500 block mb-1">Alternatives</span>
+              <div className="flex flex-wrap gap-1">
+                {alternatives.map((alternative, idx) => (
+                  <button
+                    key={idx}
+                    onClick={() => handleUseAlternative(alternative)}
+                    className="px-2 py-1 text-xs bg-gray-50 text-gray-700 rounded-md border border-gray-200 hover:bg-blue-50 hover:text-blue-700 hover:border-blue-200"
+                    title={alternative.sectionIndex >= 0 ? `Use this value (found in section ${alternative.sectionIndex + 1})` : 'Use this value'}
+                  >
+                    {alternative.value}
+                    <span className="ml-1 text-gray-400">{alternative.confidence.toFixed(0)}%</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import * as mammoth from 'mammoth';
-import { FileText, Eye, Edit2, Check, X, Highlighter } from 'lucide-react';
+import { FileText, Eye, Edit2, Check, X, Highlighter, Columns2 } from 'lucide-react';
 import SelectionPopup from './SelectionPopup';
+import PreprocessingPreview from './PreprocessingPreview';
+import { FieldSource, PreprocessingSettings } from '../types';
 
 interface DocumentViewerProps {
   file: File | null;
@@ -10,6 +12,9 @@ interface DocumentViewerProps {
   onValueSelect?: (text: string, fieldType: string) => void;
   readOnly?: boolean;
   highlightPattern?: RegExp | null;
+  documentText?: string; // Extracted text the source offsets refer to
+  highlightSource?: FieldSource | null; // Source of an extracted value to highlight and scroll to
+  preprocessing?: PreprocessingSettings; // Settings images were read with, for the before/after preview
 }
 
 interface DocumentSection {
@@ -17,13 +22,89 @@ interface DocumentSection {
   index: number;
 }
 
+const isWordDocument = (file: File): boolean => {
+  return file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
+    file.name.toLowerCase().endsWith('.docx');
+};
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+};
+
+// Render extracted text as paragraphs, one per line; blank lines and page breaks start new sections
+const textToHtml = (text: string): string => {
+  return text
+    .split('\n')
+    .map(line => `<p dir="auto">${escapeHtml(line.replace(/\f/g, ''))}</p>`)
+    .join('');
+};
+
+const clearSourceHighlight = (container: HTMLElement) => {
+  container.querySelectorAll('mark.source-highlight').forEach(mark => {
+    const parent = mark.parentNode;
+    if (!parent) return;
+    parent.replaceChild(document.createTextNode(mark.textContent || ''), mark);
+    parent.normalize();
+  });
+};
+
+// Wrap the rendered text of a source span in a <mark>. The rendered document doesn't share the
+// extracted text's offsets, so the span is matched by its text and which occurrence it is.
+const markSourceText = (
+  container: HTMLElement,
+  documentText: string,
+  source: FieldSource
+): HTMLElement | null => {
+  const sourceText = documentText.slice(source.start, source.end);
+  if (!sourceText.trim()) return null;
+  
+  let occurrence = 0;
+  for (let i = documentText.indexOf(sourceText); i >= 0 && i < source.start; i = documentText.indexOf(sourceText, i + 1)) {
+    occurrence++;
+  }
+  
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  let fallback: { node: Text; index: number } | null = null;
+  
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    const text = node.data;
+    for (let index = text.indexOf(sourceText); index >= 0; index = text.indexOf(sourceText, index + 1)) {
+      fallback = fallback ?? { node, index };
+      if (occurrence === 0) {
+        return wrapText(node, index, sourceText.length);
+      }
+      occurrence--;
+    }
+  }
+  
+  // Fewer occurrences were rendered than extracted; use the first one
+  return fallback ? wrapText(fallback.node, fallback.index, sourceText.length) : null;
+};
+
+const wrapText = (node: Text, index: number, length: number): HTMLElement => {
+  const target = node.splitText(index);
+  target.splitText(length);
+  
+  const mark = document.createElement('mark');
+  mark.className = 'source-highlight bg-orange-200 rounded px-0.5';
+  target.parentNode?.replaceChild(mark, target);
+  mark.appendChild(target);
+  return mark;
+};
+
 const DocumentViewer: React.FC<DocumentViewerProps> = ({
   file,
   onSectionSelect,
   onTextSelect,
   onValueSelect,
   readOnly = true,
-  highlightPattern = null
+  highlightPattern = null,
+  documentText = '',
+  highlightSource = null,
+  preprocessing
 }) => {
   const [documentHtml, setDocumentHtml] = useState<string>('');
   const [documentSections, setDocumentSections] = useState<DocumentSection[]>([]);
@@ -34,6 +115,7 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
   const [selectedText, setSelectedText] = useState<string>('');
   const [selectionPosition, setSelectionPosition] = useState<{ x: number; y: number } | null>(null);
   const [showSelectionPopup, setShowSelectionPopup] = useState<boolean>(false);
+  const [showPreview, setShowPreview] = useState<boolean>(false);
   const viewerRef = useRef<HTMLDivElement>(null);
 
   // Convert Word document to HTML
@@ -49,11 +131,17 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
       setError(null);
       
       try {
-        const arrayBuffer = await file.arrayBuffer();
-        const result = await mammoth.convertToHtml({ arrayBuffer });
+        // Word documents keep their formatting; other files are shown as their extracted text
+        let html: string;
+        if (isWordDocument(file) || !documentText) {
+          const arrayBuffer = await file.arrayBuffer();
+          const result = await mammoth.convertToHtml({ arrayBuffer });
+          html = result.value;
+        } else {
+          html = textToHtml(documentText);
+        }
         
         // Apply highlighting if pattern is provided
-        let html = result.value;
         if (highlightPattern) {
           html = html.replace(
             highlightPattern, 
@@ -129,7 +217,20 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
       setDocumentHtml('');
       setDocumentSections([]);
     };
-  }, [file, highlightPattern]);
+  }, [file, highlightPattern, documentText]);
+
+  // Highlight and scroll to the source of an extracted value
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer) return;
+    
+    clearSourceHighlight(viewer);
+    
+    if (!highlightSource || highlightSource.start < 0 || !documentText) return;
+    
+    const mark = markSourceText(viewer, documentText, highlightSource);
+    mark?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [documentSections, highlightSource, documentText]);
 
   // Handle text selection
   const handleTextSelection = () => {
@@ -260,19 +361,37 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
           </h3>
         </div>
         
-        {!readOnly && (
-          <button
-            onClick={toggleEditMode}
-            className={`p-1.5 rounded-full ${
-              editMode ? 'bg-blue-100 text-blue-600' : 'text-gray-500 hover:bg-gray-100'
-            }`}
-            title={editMode ? "View mode" : "Edit mode"}
-          >
-            {editMode ? <Eye size={16} /> : <Edit2 size={16} />}
-          </button>
-        )}
+        <div className="flex items-center space-x-1">
+          {preprocessing && file.type.startsWith('image/') && (
+            <button
+              onClick={() => setShowPreview(!showPreview)}
+              className={`p-1.5 rounded-full ${
+                showPreview ? 'bg-blue-100 text-blue-600' : 'text-gray-500 hover:bg-gray-100'
+              }`}
+              title={showPreview ? "Hide the preprocessed image" : "Compare with the image as preprocessed for OCR"}
+            >
+              <Columns2 size={16} />
+            </button>
+          )}
+          
+          {!readOnly && (
+            <button
+              onClick={toggleEditMode}
+              className={`p-1.5 rounded-full ${
+                editMode ? 'bg-blue-100 text-blue-600' : 'text-gray-500 hover:bg-gray-100'
+              }`}
+              title={editMode ? "View mode" : "Edit mode"}
+            >
+              {editMode ? <Eye size={16} /> : <Edit2 size={16} />}
+            </button>
+          )}
+        </div>
       </div>
       
+      {showPreview && preprocessing && file.type.startsWith('image/') && (
+        <PreprocessingPreview file={file} settings={preprocessing} />
+      )}
+      
       <div 
         ref={viewerRef}
         className="p-4 max-h-[500px] overflow-y-auto relative"
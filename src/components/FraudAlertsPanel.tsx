@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { ShieldAlert, CheckCircle } from 'lucide-react';
+import { FraudAlert, fraudAlertLabels } from '../utils/fraudSignals';
+
+interface FraudAlertsPanelProps {
+  alerts: FraudAlert[];
+  onAcknowledge: (alert: FraudAlert, note?: string) => void;
+}
+
+const FraudAlertsPanel: React.FC<FraudAlertsPanelProps> = ({ alerts, onAcknowledge }) => {
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [showAcknowledged, setShowAcknowledged] = useState(false);
+
+  if (alerts.length === 0) return null;
+
+  const openAlerts = alerts.filter(alert => !alert.acknowledgement);
+  const acknowledgedAlerts = alerts.filter(alert => alert.acknowledgement);
+  const visibleAlerts = showAcknowledged ? [...openAlerts, ...acknowledgedAlerts] : openAlerts;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold flex items-center">
+          <ShieldAlert className="mr-2 text-red-600" size={20} />
+          Fraud Alerts
+          {openAlerts.length > 0 && (
+            <span className="ml-2 px-2 py-0.5 text-xs font-medium bg-red-100 text-red-800 rounded-full">
+              {openAlerts.length} open
+            </span>
+          )}
+        </h2>
+        {acknowledgedAlerts.length > 0 && (
+          <button
+            onClick={() => setShowAcknowledged(!showAcknowledged)}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            {showAcknowledged ? 'Hide' : 'Show'} acknowledged ({acknowledgedAlerts.length})
+          </button>
+        )}
+      </div>
+
+      {openAlerts.length > 0 ? (
+        <p className="text-sm text-red-700 mb-4">
+          Export of the affected documents is blocked until these alerts are acknowledged.
+        </p>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">All fraud alerts have been acknowledged.</p>
+      )}
+
+      <div className="space-y-4">
+        {visibleAlerts.map(alert => (
+          <div
+            key={alert.alertId}
+            className={`border rounded-md p-4 ${alert.acknowledgement ? 'border-gray-200 bg-gray-50' : 'border-red-300 bg-red-50'}`}
+          >
+            <div className="flex justify-between items-start mb-2">
+              <div>
+                <span className={`text-xs font-medium uppercase tracking-wider ${alert.acknowledgement ? 'text-gray-500' : 'text-red-700'}`}>
+                  {fraudAlertLabels[alert.kind]}
+                </span>
+                <p className="text-sm text-gray-900 mt-1">{alert.message}</p>
+              </div>
+              {alert.acknowledgement && (
+                <span className="flex items-center text-xs text-green-700 whitespace-nowrap ml-4">
+                  <CheckCircle size={14} className="mr-1" />
+                  Acknowledged {new Date(alert.acknowledgement.acknowledgedAt).toLocaleString()}
+                  {alert.acknowledgement.acknowledgedBy && ` by ${alert.acknowledgement.acknowledgedBy.userName}`}
+                </span>
+              )}
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200 text-sm mb-3">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Service #</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">IBAN</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Processed</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {alert.documents.map(document => (
+                  <tr key={document.id}>
+                    <td className="px-3 py-2 text-gray-900">{document.fileName}</td>
+                    <td className="px-3 py-2 text-gray-900">{document.customerName}</td>
+                    <td className="px-3 py-2 text-gray-900">{document.serviceNumber}</td>
+                    <td className="px-3 py-2 font-mono text-xs text-gray-900">{document.iban}</td>
+                    <td className="px-3 py-2 text-gray-500">{new Date(document.timestamp).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {alert.acknowledgement ? (
+              alert.acknowledgement.note && (
+                <p className="text-xs text-gray-600">Note: {alert.acknowledgement.note}</p>
+              )
+            ) : (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={notes[alert.alertId] ?? ''}
+                  onChange={(e) => setNotes({ ...notes, [alert.alertId]: e.target.value })}
+                  placeholder="Note, e.g. family account confirmed by phone"
+                  className="flex-1 p-2 text-sm border border-gray-300 rounded-md"
+                />
+                <button
+                  onClick={() => onAcknowledge(alert, notes[alert.alertId]?.trim() || undefined)}
+                  className="px-3 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 whitespace-nowrap"
+                >
+                  Acknowledge
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FraudAlertsPanel;
@@ -1,11 +1,27 @@
 import React, { useState } from 'react';
-import { FileSearch, Settings, Database, BarChart, Brain } from 'lucide-react';
+import { FileSearch, Settings, Database, BarChart, Brain, ShieldCheck, Users, UserX, UserCircle } from 'lucide-react';
 import PatternRegistry from './PatternRegistry';
+import ServiceIdentifierRegistry from './ServiceIdentifierRegistry';
 import LearningInsights from './LearningInsights';
+import ValidationRulesEditor from './ValidationRulesEditor';
+import CustomerMasterImport from './CustomerMasterImport';
+import WatchlistManager from './WatchlistManager';
+import UserProfiles from './UserProfiles';
+import { UserProfile } from '../types';
 
-const Header: React.FC = () => {
+interface HeaderProps {
+  currentUser: UserProfile | null;
+  onUserChange: (user: UserProfile | null) => void;
+}
+
+const Header: React.FC<HeaderProps> = ({ currentUser, onUserChange }) => {
   const [showSettings, setShowSettings] = useState<boolean>(false);
-  const [activeTab, setActiveTab] = useState<'patterns' | 'insights'>('patterns');
+  const [activeTab, setActiveTab] = useState<'patterns' | 'rules' | 'master' | 'watchlist' | 'users' | 'insights'>('patterns');
+  
+  const openUserProfiles = () => {
+    setActiveTab('users');
+    setShowSettings(true);
+  };
   
   return (
     <header className="bg-white shadow-sm">
@@ -19,13 +35,24 @@ const Header: React.FC = () => {
             </div>
           </div>
           
-          <button
-            className="flex items-center text-gray-700 hover:text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-md"
-            onClick={() => setShowSettings(!showSettings)}
-          >
-            <Settings size={18} className="mr-2" />
-            <span>System Settings</span>
-          </button>
+          <div className="flex items-center space-x-2">
+            <button
+              className="flex items-center text-gray-700 hover:text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-md"
+              onClick={openUserProfiles}
+              title="Choose the profile your changes are recorded under"
+            >
+              <UserCircle size={18} className="mr-2" />
+              <span>{currentUser ? currentUser.name : 'No user selected'}</span>
+            </button>
+            
+            <button
+              className="flex items-center text-gray-700 hover:text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-md"
+              onClick={() => setShowSettings(!showSettings)}
+            >
+              <Settings size={18} className="mr-2" />
+              <span>System Settings</span>
+            </button>
+          </div>
         </div>
         
         {showSettings && (
@@ -40,6 +67,42 @@ const Header: React.FC = () => {
                   Pattern Registry
                 </div>
               </button>
+              <button
+                className={`px-4 py-2 text-sm font-medium ${activeTab === 'rules' ? 'border-b-2 border-blue-600 text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+                onClick={() => setActiveTab('rules')}
+              >
+                <div className="flex items-center">
+                  <ShieldCheck size={16} className="mr-2" />
+                  Validation Rules
+                </div>
+              </button>
+              <button
+                className={`px-4 py-2 text-sm font-medium ${activeTab === 'master' ? 'border-b-2 border-blue-600 text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+                onClick={() => setActiveTab('master')}
+              >
+                <div className="flex items-center">
+                  <Users size={16} className="mr-2" />
+                  Customer Master
+                </div>
+              </button>
+              <button
+                className={`px-4 py-2 text-sm font-medium ${activeTab === 'watchlist' ? 'border-b-2 border-blue-600 text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+                onClick={() => setActiveTab('watchlist')}
+              >
+                <div className="flex items-center">
+                  <UserX size={16} className="mr-2" />
+                  Watchlist
+                </div>
+              </button>
+              <button
+                className={`px-4 py-2 text-sm font-medium ${activeTab === 'users' ? 'border-b-2 border-blue-600 text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+                onClick={() => setActiveTab('users')}
+              >
+                <div className="flex items-center">
+                  <UserCircle size={16} className="mr-2" />
+                  Users
+                </div>
+              </button>
               <button
                 className={`px-4 py-2 text-sm font-medium ${activeTab === 'insights' ? 'border-b-2 border-blue-600 text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
                 onClick={() => setActiveTab('insights')}
@@ -52,7 +115,16 @@ const Header: React.FC = () => {
             </div>
             
             <div className="py-4">
-              {activeTab === 'patterns' && <PatternRegistry />}
+              {activeTab === 'patterns' && (
+                <div className="space-y-6">
+                  <PatternRegistry />
+                  <ServiceIdentifierRegistry />
+                </div>
+              )}
+              {activeTab === 'rules' && <ValidationRulesEditor />}
+              {activeTab === 'master' && <CustomerMasterImport />}
+              {activeTab === 'watchlist' && <WatchlistManager />}
+              {activeTab === 'users' && <UserProfiles currentUser={currentUser} onUserChange={onUserChange} />}
               {activeTab === 'insights' && <LearningInsights />}
             </div>
           </div>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { TrendingUp, Check, BarChart, AlertTriangle, BookOpen, Brain, RefreshCw } from 'lucide-react';
 import TrainingService from '../services/TrainingService';
+import { fieldDefinitions } from '../utils/fieldDefinitions';
 
 interface LearningInsightsProps {
   refreshInterval?: number; // In milliseconds
@@ -151,57 +152,20 @@ const LearningInsights: React.FC<LearningInsightsProps> = ({ refreshInterval = 0
             </h4>
             
             <div className="space-y-2">
-              <div>
-                <div className="flex justify-between text-xs text-gray-600 mb-1">
-                  <span>Customer Name</span>
-                  <span>{getFieldPercentage(insights.fieldCorrections.customerName)}%</span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-1.5">
-                  <div 
-                    className="bg-blue-600 h-1.5 rounded-full" 
-                    style={{ width: `${getFieldPercentage(insights.fieldCorrections.customerName)}%` }}
-                  ></div>
-                </div>
-              </div>
-              
-              <div>
-                <div className="flex justify-between text-xs text-gray-600 mb-1">
-                  <span>Refund Amount</span>
-                  <span>{getFieldPercentage(insights.fieldCorrections.refundAmount)}%</span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-1.5">
-                  <div 
-                    className="bg-green-600 h-1.5 rounded-full" 
-                    style={{ width: `${getFieldPercentage(insights.fieldCorrections.refundAmount)}%` }}
-                  ></div>
-                </div>
-              </div>
-              
-              <div>
-                <div className="flex justify-between text-xs text-gray-600 mb-1">
-                  <span>IBAN Number</span>
-                  <span>{getFieldPercentage(insights.fieldCorrections.ibanNumber)}%</span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-1.5">
-                  <div 
-                    className="bg-yellow-500 h-1.5 rounded-full" 
-                    style={{ width: `${getFieldPercentage(insights.fieldCorrections.ibanNumber)}%` }}
-                  ></div>
-                </div>
-              </div>
-              
-              <div>
-                <div className="flex justify-between text-xs text-gray-600 mb-1">
-                  <span>Service Number</span>
-                  <span>{getFieldPercentage(insights.fieldCorrections.customerServiceNumber)}%</span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-1.5">
-                  <div 
-                    className="bg-purple-500 h-1.5 rounded-full" 
-                    style={{ width: `${getFieldPercentage(insights.fieldCorrections.customerServiceNumber)}%` }}
-                  ></div>
+              {fieldDefinitions.map(definition => (
+                <div key={definition.key}>
+                  <div className="flex justify-between text-xs text-gray-600 mb-1">
+                    <span>{definition.label}</span>
+                    <span>{getFieldPercentage(insights.fieldCorrections[definition.key] || 0)}%</span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-1.5">
+                    <div 
+                      className={`${definition.color} h-1.5 rounded-full`} 
+                      style={{ width: `${getFieldPercentage(insights.fieldCorrections[definition.key] || 0)}%` }}
+                    ></div>
+                  </div>
                 </div>
-              </div>
+              ))}
             </div>
           </div>
           
@@ -0,0 +1,57 @@
+import React from 'react';
+import { LineItemTable } from '../types';
+import { AlertTriangle, Check, ListOrdered } from 'lucide-react';
+
+interface LineItemsTableProps {
+  table: LineItemTable;
+  currency?: string;
+}
+
+const LineItemsTable: React.FC<LineItemsTableProps> = ({ table, currency = '' }) => {
+  const formatAmount = (amount: number, sign: 1 | -1 = 1) =>
+    `${sign < 0 ? '-' : ''}${amount.toFixed(2)} ${currency}`.trim();
+
+  return (
+    <div className="border rounded-md p-3 bg-white mt-4">
+      <h4 className="text-sm font-medium text-gray-600 mb-2 flex items-center">
+        <ListOrdered size={16} className="mr-2 text-blue-600" />
+        Refund Line Items
+      </h4>
+      
+      <table className="min-w-full text-sm">
+        <tbody className="divide-y divide-gray-100">
+          {table.items.map(item => (
+            <tr key={item.start}>
+              <td className="py-1 pr-4 text-gray-700">{item.label}</td>
+              <td className={`py-1 text-right font-mono ${item.sign < 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                {formatAmount(item.amount, item.sign)}
+              </td>
+            </tr>
+          ))}
+          <tr className="font-medium">
+            <td className="py-1 pr-4 text-gray-800">Net refund (computed)</td>
+            <td className="py-1 text-right font-mono text-gray-900">{formatAmount(table.computedTotal)}</td>
+          </tr>
+          <tr>
+            <td className="py-1 pr-4 text-gray-500">Stated total</td>
+            <td className="py-1 text-right font-mono text-gray-500">{formatAmount(table.statedTotal)}</td>
+          </tr>
+        </tbody>
+      </table>
+      
+      {table.reconciled ? (
+        <div className="mt-2 flex items-center text-green-600 text-xs">
+          <Check size={12} className="mr-1" />
+          Line items add up to the stated total
+        </div>
+      ) : (
+        <div className="mt-2 flex items-center text-amber-700 text-xs">
+          <AlertTriangle size={12} className="mr-1" />
+          Line items don't add up to the stated total
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LineItemsTable;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Languages, RefreshCw } from 'lucide-react';
+import { OcrRegion, TextScript } from '../types';
+import { DEFAULT_OCR_LANGUAGE, ocrLanguageOptions, scriptLabels } from '../utils/ocrRegions';
+
+interface OcrRegionsPanelProps {
+  regions: OcrRegion[];
+  onReread: (index: number, language: string) => Promise<void>;
+  disabled?: boolean;
+}
+
+const scriptColors: Record<TextScript, string> = {
+  arabic: 'bg-emerald-100 text-emerald-700',
+  latin: 'bg-blue-100 text-blue-700',
+  mixed: 'bg-amber-100 text-amber-700',
+  none: 'bg-gray-100 text-gray-600'
+};
+
+// Suggest the language matching the block's script, so mixed-up blocks are one click away
+const suggestedLanguage = (region: OcrRegion): string =>
+  region.script === 'arabic' ? 'ara' : region.script === 'latin' ? 'eng' : DEFAULT_OCR_LANGUAGE;
+
+const OcrRegionsPanel: React.FC<OcrRegionsPanelProps> = ({ regions, onReread, disabled = false }) => {
+  const [languages, setLanguages] = useState<Record<number, string>>({});
+  const [rereading, setRereading] = useState<number | null>(null);
+
+  const handleReread = async (index: number) => {
+    setRereading(index);
+    try {
+      await onReread(index, languages[index] ?? suggestedLanguage(regions[index]));
+    } finally {
+      setRereading(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 border rounded-lg">
+      <div className="px-4 py-2 bg-gray-50 border-b">
+        <h4 className="text-sm font-medium text-gray-700 flex items-center">
+          <Languages size={16} className="mr-2 text-blue-600" />
+          Text Blocks Read by OCR
+        </h4>
+        <p className="text-xs text-gray-500">
+          If a block came out garbled, read it again with the language it is written in. The fields are then extracted again.
+        </p>
+      </div>
+
+      <ul className="divide-y divide-gray-100 max-h-72 overflow-y-auto">
+        {regions.map((region, index) => (
+          <li key={index} className="px-4 py-2 flex items-start justify-between text-sm">
+            <div className="min-w-0 mr-4">
+              <div className="flex items-center space-x-2 mb-1">
+                <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${scriptColors[region.script]}`}>
+                  {scriptLabels[region.script]}
+                </span>
+                <span className="text-xs text-gray-500">
+                  Read as {ocrLanguageOptions.find(option => option.value === region.language)?.label ?? region.language} · {Math.round(region.confidence)}% confidence
+                </span>
+              </div>
+              <p dir="auto" className="text-gray-800 whitespace-pre-line line-clamp-3">{region.text}</p>
+            </div>
+
+            <div className="flex items-center space-x-2 shrink-0">
+              <select
+                value={languages[index] ?? suggestedLanguage(region)}
+                onChange={(e) => setLanguages(prev => ({ ...prev, [index]: e.target.value }))}
+                className="bg-white border border-gray-300 text-gray-700 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-1"
+              >
+                {ocrLanguageOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => handleReread(index)}
+                disabled={disabled || rereading !== null}
+                className="px-2 py-1 bg-blue-600 text-white rounded-md text-xs hover:bg-blue-700 disabled:opacity-50 inline-flex items-center"
+                title="Read this block again"
+              >
+                <RefreshCw size={12} className={`mr-1 ${rereading === index ? 'animate-spin' : ''}`} />
+                Read again
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default OcrRegionsPanel;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Database, ScrollText, Edit, Trash2, Plus, Save, X, Info, RefreshCw } from 'lucide-react';
 import TrainingService from '../services/TrainingService';
+import { fieldDefinitions } from '../utils/fieldDefinitions';
 
 interface Pattern {
   id?: number;
@@ -24,10 +25,7 @@ const PatternRegistry: React.FC = () => {
   
   const fieldTypes = [
     { value: 'all', label: 'All Fields' },
-    { value: 'customerName', label: 'Customer Name' },
-    { value: 'refundAmount', label: 'Refund Amount' },
-    { value: 'ibanNumber', label: 'IBAN Number' },
-    { value: 'customerServiceNumber', label: 'Service Number' }
+    ...fieldDefinitions.map(definition => ({ value: definition.key, label: definition.label }))
   ];
   
   // Load patterns
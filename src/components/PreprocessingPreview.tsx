@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import ExtractionWorkerPool from '../services/ExtractionWorkerPool';
+import { PreprocessingReport, PreprocessingSettings } from '../types';
+import { describePreprocessing } from '../utils/imagePreprocessing';
+
+interface PreprocessingPreviewProps {
+  file: File;
+  settings: PreprocessingSettings;
+}
+
+// An image next to the cleaned-up copy OCR reads
+const PreprocessingPreview: React.FC<PreprocessingPreviewProps> = ({ file, settings }) => {
+  const [beforeUrl, setBeforeUrl] = useState<string | null>(null);
+  const [afterUrl, setAfterUrl] = useState<string | null>(null);
+  const [report, setReport] = useState<PreprocessingReport | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setBeforeUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // Preprocess in a worker; a newer file or settings change abandons the previous preview
+  useEffect(() => {
+    const controller = new AbortController();
+    let url: string | null = null;
+
+    const loadPreview = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const { preview, preprocessing } = await ExtractionWorkerPool.getInstance().extract(file, {
+          preview: true,
+          preprocessing: settings,
+          signal: controller.signal
+        });
+        if (controller.signal.aborted || !preview) return;
+        url = URL.createObjectURL(preview);
+        setAfterUrl(url);
+        setReport(preprocessing ?? null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Error preprocessing image:', err);
+        setError(`Could not preprocess the image: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    loadPreview();
+    return () => {
+      controller.abort();
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file, settings]);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 border-b">
+      <figure>
+        <figcaption className="text-xs font-medium text-gray-600 mb-1">Before</figcaption>
+        {beforeUrl && <img src={beforeUrl} alt={`${file.name} as uploaded`} className="w-full max-h-96 object-contain border rounded bg-gray-50" />}
+      </figure>
+
+      <figure>
+        <figcaption className="text-xs font-medium text-gray-600 mb-1">
+          After{report && <span className="font-normal text-gray-500"> · {describePreprocessing(report)}</span>}
+        </figcaption>
+        {isLoading ? (
+          <div className="flex justify-center items-center h-48 bg-gray-50 border rounded">
+            <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : afterUrl && (
+          <img src={afterUrl} alt={`${file.name} as read by OCR`} className="w-full max-h-96 object-contain border rounded bg-gray-50" />
+        )}
+      </figure>
+    </div>
+  );
+};
+
+export default PreprocessingPreview;
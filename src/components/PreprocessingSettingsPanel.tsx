@@ -0,0 +1,80 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { PreprocessingSettings } from '../types';
+
+interface PreprocessingSettingsPanelProps {
+  settings: PreprocessingSettings;
+  onChange: (settings: PreprocessingSettings) => void;
+  disabled?: boolean;
+}
+
+type PreprocessingStep = 'perspective' | 'orientation' | 'deskew' | 'binarize' | 'denoise';
+
+const steps: { key: PreprocessingStep; label: string; description: string }[] = [
+  { key: 'perspective', label: 'Flatten photographed pages', description: 'Cut the page out of the background and correct the camera angle' },
+  { key: 'orientation', label: 'Turn pages upright', description: 'Pages lying on their side or upside down' },
+  { key: 'deskew', label: 'Straighten tilted scans', description: 'Up to 15 degrees' },
+  { key: 'binarize', label: 'Black and white', description: 'Against the local background, so shadows and stamps do not swallow text' },
+  { key: 'denoise', label: 'Remove specks', description: 'Isolated dots left by fax and photocopies' }
+];
+
+// How images and scanned pages are cleaned up before OCR; applies to the next upload
+const PreprocessingSettingsPanel: React.FC<PreprocessingSettingsPanelProps> = ({ settings, onChange, disabled = false }) => {
+  const update = (changes: Partial<PreprocessingSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="mb-4 border rounded-lg p-3">
+      <label className="flex items-center text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          disabled={disabled}
+          className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <SlidersHorizontal size={16} className="mr-2 text-blue-600" />
+        Clean up images before OCR
+      </label>
+
+      {settings.enabled && (
+        <div className="mt-2 ml-6 grid grid-cols-1 md:grid-cols-2 gap-2">
+          {steps.map(step => (
+            <label key={step.key} className="flex items-start text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={settings[step.key]}
+                onChange={(e) => update({ [step.key]: e.target.checked })}
+                disabled={disabled}
+                className="mr-2 mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>
+                {step.label}
+                <span className="block text-xs text-gray-500">{step.description}</span>
+              </span>
+            </label>
+          ))}
+
+          {settings.binarize && (
+            <label className="flex items-center text-sm text-gray-700 md:col-span-2">
+              Black and white threshold
+              <input
+                type="range"
+                min={0}
+                max={30}
+                value={settings.binarizeOffset}
+                onChange={(e) => update({ binarizeOffset: parseInt(e.target.value, 10) })}
+                disabled={disabled}
+                className="mx-2 w-40"
+              />
+              <span className="text-xs text-gray-500">
+                {settings.binarizeOffset}% darker than the surroundings (lower keeps faint text, higher drops background noise)
+              </span>
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PreprocessingSettingsPanel;
@@ -1,19 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { X, FileText, Edit3, CheckCircle, ArrowRight } from 'lucide-react';
 import DocumentViewer from './DocumentViewer';
+import { ExtractedData } from '../types';
+import { fieldDefinitions, getField } from '../utils/fieldDefinitions';
 
 interface QuickFixModalProps {
   file: File;
   documentId: string;
   onClose: () => void;
   onValueSelect: (text: string, fieldType: string) => void;
+  data?: ExtractedData;
 }
 
 const QuickFixModal: React.FC<QuickFixModalProps> = ({
   file,
   documentId,
   onClose,
-  onValueSelect
+  onValueSelect,
+  data
 }) => {
   const [selectedField, setSelectedField] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -32,6 +36,13 @@ const QuickFixModal: React.FC<QuickFixModalProps> = ({
     }, 3000);
   };
   
+  // Fields that have lower-ranked candidates a reviewer can switch to with one click
+  const alternativeFields = data
+    ? fieldDefinitions
+        .map(definition => ({ fieldType: definition.key, label: definition.label, field: getField(data, definition.key) }))
+        .filter(item => item.field?.alternatives && item.field.alternatives.length > 0)
+    : [];
+  
   // Clean up on unmount
   useEffect(() => {
     // Log when modal is mounted to verify it's rendering
@@ -106,6 +117,29 @@ const QuickFixModal: React.FC<QuickFixModalProps> = ({
             </div>
           </div>
           
+          {alternativeFields.length > 0 && (
+            <div className="mb-3 bg-gray-50 p-3 rounded-md border border-gray-200">
+              <h3 className="font-medium text-gray-800 text-sm mb-2">Alternative Values</h3>
+              <div className="space-y-1.5">
+                {alternativeFields.map(item => (
+                  <div key={item.fieldType} className="flex flex-wrap items-center gap-1 text-xs">
+                    <span className="text-gray-600 w-32">{item.label}:</span>
+                    {item.field!.alternatives!.map((alternative, idx) => (
+                      <button
+                        key={idx}
+                        onClick={() => handleValueSelect(alternative.value, item.fieldType)}
+                        className="px-2 py-1 bg-white text-gray-700 rounded-md border border-gray-200 hover:bg-blue-50 hover:text-blue-700"
+                      >
+                        {alternative.value}
+                        <span className="ml-1 text-gray-400">{alternative.confidence.toFixed(0)}%</span>
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          
           {successMessage && (
             <div className="mb-3 bg-green-50 p-3 rounded-md border border-green-200 flex items-start shadow-sm">
               <CheckCircle className="text-green-600 mr-2 mt-0.5" size={18} />
@@ -1,15 +1,35 @@
-import React from 'react';
-import { ExtractedData } from '../types';
+import React, { useState } from 'react';
+import { ExtractedData, ReviewStatus } from '../types';
 import ConfidenceIndicator from './ConfidenceIndicator';
-import { FileCheck, AlertCircle, Copy, LayoutGrid, Edit2 } from 'lucide-react';
+import { FileCheck, AlertCircle, AlertTriangle, Copy, LayoutGrid, Edit2, ShieldAlert } from 'lucide-react';
+import { DEFAULT_CURRENCY } from '../utils/currencies';
+import { getServiceIdentifierType } from '../utils/serviceIdentifiers';
+import { describeDuplicateReasons, unresolvedDuplicates } from '../utils/duplicateDetection';
+import { canTransition, getReviewStatus, reviewStatusLabels, reviewStatuses } from '../utils/reviewWorkflow';
 
 interface ResultsTableProps {
   data: ExtractedData[];
   onCopyData: (data: ExtractedData) => void;
   onQuickFix?: (documentId: string) => void;
+  onAcknowledgeDuplicate?: (documentId: string, duplicateId: string) => void;
+  onReleaseHold?: (documentId: string) => void;
+  onChangeStatus?: (documentIds: string[], status: ReviewStatus) => void;
 }
 
-const ResultsTable: React.FC<ResultsTableProps> = ({ data, onCopyData, onQuickFix }) => {
+const statusColors: Record<ReviewStatus, string> = {
+  extracted: 'bg-gray-100 text-gray-700',
+  inReview: 'bg-blue-100 text-blue-700',
+  verified: 'bg-indigo-100 text-indigo-700',
+  approved: 'bg-green-100 text-green-700',
+  exported: 'bg-teal-100 text-teal-700',
+  paid: 'bg-emerald-100 text-emerald-800',
+  rejected: 'bg-red-100 text-red-700'
+};
+
+const ResultsTable: React.FC<ResultsTableProps> = ({ data, onCopyData, onQuickFix, onAcknowledgeDuplicate, onReleaseHold, onChangeStatus }) => {
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | 'all'>('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
   if (data.length === 0) {
     return (
       <div className="border rounded-lg p-8 text-center text-gray-500">
@@ -30,14 +50,146 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ data, onCopyData, onQuickFi
     );
   };
 
+  const suspectedDuplicates = data.filter(item => unresolvedDuplicates(item).length > 0);
+  const heldDocuments = data.filter(item => item.screening?.status === 'hold');
+
+  // Rows in the chosen status; the selection only covers rows that are shown
+  const visibleData = statusFilter === 'all' ? data : data.filter(item => getReviewStatus(item) === statusFilter);
+  const selectedData = visibleData.filter(item => selectedIds.has(item.id));
+  const allSelected = visibleData.length > 0 && selectedData.length === visibleData.length;
+
+  // Statuses at least one selected document can move to
+  const bulkTargets = reviewStatuses
+    .map(status => ({ status, ids: selectedData.filter(item => canTransition(getReviewStatus(item), status)).map(item => item.id) }))
+    .filter(target => target.ids.length > 0);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(visibleData.map(item => item.id)));
+  };
+
+  const handleBulkChange = (status: ReviewStatus, ids: string[]) => {
+    onChangeStatus?.(ids, status);
+    setSelectedIds(new Set());
+  };
+
   return (
     <div className="overflow-x-auto">
+      {suspectedDuplicates.length > 0 && (
+        <div className="mb-4 p-4 border border-red-300 bg-red-50 rounded-md">
+          <div className="flex items-center text-red-800 font-medium mb-2">
+            <AlertTriangle size={18} className="mr-2" />
+            Suspected duplicate refunds - export is blocked until each one is resolved
+          </div>
+          <ul className="space-y-2">
+            {suspectedDuplicates.flatMap(item => unresolvedDuplicates(item).map(link => (
+              <li key={`${item.id}-${link.id}`} className="flex items-center justify-between text-sm text-red-700">
+                <span>
+                  <span className="font-medium">{item.fileName}</span> matches{' '}
+                  <span className="font-medium">{link.fileName}</span>{' '}
+                  <span className="text-red-600">
+                    (processed {new Date(link.timestamp).toLocaleString()}: {describeDuplicateReasons(link.reasons)})
+                  </span>
+                </span>
+                {onAcknowledgeDuplicate && (
+                  <button
+                    onClick={() => onAcknowledgeDuplicate(item.id, link.id)}
+                    className="ml-4 px-2 py-1 text-xs bg-white border border-red-300 text-red-700 rounded hover:bg-red-100 whitespace-nowrap"
+                    title="Confirm this is a separate refund"
+                  >
+                    Not a duplicate
+                  </button>
+                )}
+              </li>
+            )))}
+          </ul>
+        </div>
+      )}
+      {heldDocuments.length > 0 && (
+        <div className="mb-4 p-4 border border-red-300 bg-red-50 rounded-md">
+          <div className="flex items-center text-red-800 font-medium mb-2">
+            <ShieldAlert size={18} className="mr-2" />
+            Held by watchlist screening - export is blocked until each hold is released
+          </div>
+          <ul className="space-y-2">
+            {heldDocuments.map(item => (
+              <li key={item.id} className="flex items-center justify-between text-sm text-red-700">
+                <span>
+                  <span className="font-medium">{item.fileName}</span>:{' '}
+                  {item.screening!.hits
+                    .filter(hit => hit.score >= item.screening!.threshold)
+                    .map(hit => `"${hit.screenedName}" matches "${hit.listedName}"${hit.reference ? ` (${hit.reference})` : ''} ${hit.score}%`)
+                    .join(', ')}
+                </span>
+                {onReleaseHold && (
+                  <button
+                    onClick={() => onReleaseHold(item.id)}
+                    className="ml-4 px-2 py-1 text-xs bg-white border border-red-300 text-red-700 rounded hover:bg-red-100 whitespace-nowrap"
+                    title="Release the hold after checking the customer is not the listed party"
+                  >
+                    Release hold
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        {(['all', ...reviewStatuses] as const).map(status => {
+          const count = status === 'all' ? data.length : data.filter(item => getReviewStatus(item) === status).length;
+          return (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-3 py-1 text-xs rounded-full border ${
+                statusFilter === status ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {status === 'all' ? 'All' : reviewStatusLabels[status]} ({count})
+            </button>
+          );
+        })}
+      </div>
+      {onChangeStatus && selectedData.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-3 p-3 bg-blue-50 border border-blue-200 rounded-md text-sm">
+          <span className="text-blue-800 font-medium mr-2">{selectedData.length} selected</span>
+          {bulkTargets.length === 0 ? (
+            <span className="text-blue-700">The selected documents can't move to another status</span>
+          ) : bulkTargets.map(({ status, ids }) => (
+            <button
+              key={status}
+              onClick={() => handleBulkChange(status, ids)}
+              className="px-2 py-1 text-xs bg-white border border-blue-300 text-blue-700 rounded hover:bg-blue-100"
+            >
+              {status === 'approved' ? 'Approve' : status === 'rejected' ? 'Reject' : `Move to ${reviewStatusLabels[status]}`}
+              {ids.length < selectedData.length ? ` (${ids.length})` : ''}
+            </button>
+          ))}
+        </div>
+      )}
       <table className="min-w-full divide-y divide-gray-200">
         <thead className="bg-gray-50">
           <tr>
+            {onChangeStatus && (
+              <th scope="col" className="px-3 py-3 text-left">
+                <input type="checkbox" checked={allSelected} onChange={toggleAll} title="Select all shown documents" />
+              </th>
+            )}
             <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
               File Name
             </th>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Status
+            </th>
             <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
               Customer Name
             </th>
@@ -59,33 +211,67 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ data, onCopyData, onQuickFi
           </tr>
         </thead>
         <tbody className="bg-white divide-y divide-gray-200">
-          {data.map((item) => (
-            <tr key={item.id} className="hover:bg-gray-50">
+          {visibleData.map((item) => (
+            <tr key={item.id} className={unresolvedDuplicates(item).length > 0 || item.screening?.status === 'hold' ? "bg-red-50 hover:bg-red-100" : "hover:bg-gray-50"}>
+              {onChangeStatus && (
+                <td className="px-3 py-4">
+                  <input type="checkbox" checked={selectedIds.has(item.id)} onChange={() => toggleSelected(item.id)} />
+                </td>
+              )}
               <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                 {item.fileName}
+                {unresolvedDuplicates(item).length > 0 && (
+                  <span className="flex items-center text-xs font-normal text-red-600 mt-1">
+                    <AlertTriangle size={12} className="mr-1" />
+                    Suspected duplicate
+                  </span>
+                )}
+                {item.screening?.status === 'hold' && (
+                  <span className="flex items-center text-xs font-normal text-red-600 mt-1">
+                    <ShieldAlert size={12} className="mr-1" />
+                    Held: watchlist match
+                  </span>
+                )}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap">
+                <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${statusColors[getReviewStatus(item)]}`}>
+                  {reviewStatusLabels[getReviewStatus(item)]}
+                </span>
+                {item.review && (
+                  <span className="block text-xs text-gray-500 mt-1" title={item.review.note}>
+                    {item.review.changedBy}, {new Date(item.review.changedAt).toLocaleString()}
+                  </span>
+                )}
               </td>
               <td className="px-6 py-4 whitespace-nowrap">
                 <div className="flex flex-col">
                   <span className="text-sm text-gray-900">{item.customerName.value}</span>
-                  <ConfidenceIndicator confidence={item.customerName.confidence} />
+                  <ConfidenceIndicator confidence={item.customerName.confidence} trace={item.customerName.trace} />
                 </div>
               </td>
               <td className="px-6 py-4 whitespace-nowrap">
                 <div className="flex flex-col">
-                  <span className="text-sm text-gray-900">{item.refundAmount.value}</span>
-                  <ConfidenceIndicator confidence={item.refundAmount.confidence} />
+                  <span className="text-sm text-gray-900">
+                    {item.refundAmount.value} {item.refundAmount.currency ?? DEFAULT_CURRENCY}
+                  </span>
+                  <ConfidenceIndicator confidence={item.refundAmount.confidence} trace={item.refundAmount.trace} />
                 </div>
               </td>
               <td className="px-6 py-4 whitespace-nowrap">
                 <div className="flex flex-col">
                   <span className="text-sm text-gray-900">{item.ibanNumber.value}</span>
-                  <ConfidenceIndicator confidence={item.ibanNumber.confidence} />
+                  <ConfidenceIndicator confidence={item.ibanNumber.confidence} trace={item.ibanNumber.trace} />
                 </div>
               </td>
               <td className="px-6 py-4 whitespace-nowrap">
                 <div className="flex flex-col">
                   <span className="text-sm text-gray-900">{item.customerServiceNumber.value}</span>
-                  <ConfidenceIndicator confidence={item.customerServiceNumber.confidence} />
+                  {item.customerServiceNumber.identifierType && (
+                    <span className="text-xs text-gray-500">
+                      {getServiceIdentifierType(item.customerServiceNumber.identifierType)?.label ?? item.customerServiceNumber.identifierType}
+                    </span>
+                  )}
+                  <ConfidenceIndicator confidence={item.customerServiceNumber.confidence} trace={item.customerServiceNumber.trace} />
                 </div>
               </td>
               <td className="px-6 py-4 whitespace-nowrap">
@@ -126,6 +312,13 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ data, onCopyData, onQuickFi
               </td>
             </tr>
           ))}
+          {visibleData.length === 0 && (
+            <tr>
+              <td colSpan={onChangeStatus ? 9 : 8} className="px-6 py-8 text-center text-sm text-gray-500">
+                No documents with this status
+              </td>
+            </tr>
+          )}
         </tbody>
       </table>
     </div>
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Check, X, Edit3 } from 'lucide-react';
+import { fieldDefinitions } from '../utils/fieldDefinitions';
 
 interface SelectionPopupProps {
   position: { x: number; y: number };
@@ -162,10 +163,9 @@ const SelectionPopup: React.FC<SelectionPopupProps> = ({
           className="w-full p-3 border border-gray-300 rounded-md text-sm bg-white shadow-sm focus:border-blue-500 focus:ring focus:ring-blue-500 focus:ring-opacity-50"
         >
           <option value="" disabled>Select field type...</option>
-          <option value="customerName">Customer Name</option>
-          <option value="refundAmount">Refund Amount</option>
-          <option value="ibanNumber">IBAN Number</option>
-          <option value="customerServiceNumber">Customer Service #</option>
+          {fieldDefinitions.map(definition => (
+            <option key={definition.key} value={definition.key}>{definition.label}</option>
+          ))}
         </select>
       </div>
       
@@ -0,0 +1,375 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Hash, Edit, Trash2, Plus, Save, X, Info, RefreshCw } from 'lucide-react';
+import TrainingService from '../services/TrainingService';
+import { ServiceIdentifierType } from '../utils/serviceIdentifiers';
+
+// Form state: keywords are edited as one comma-separated string
+type IdentifierTypeForm = Omit<ServiceIdentifierType, 'keywords'> & { keywords: string };
+
+const emptyForm: IdentifierTypeForm = {
+  key: '',
+  label: '',
+  pattern: '',
+  validation: '',
+  validationMessage: '',
+  keywords: '',
+  standalone: false,
+  priority: 10,
+  enabled: true
+};
+
+const toForm = (type: ServiceIdentifierType): IdentifierTypeForm => ({
+  ...type,
+  keywords: type.keywords.join(', ')
+});
+
+// Check a form before saving; returns an error message or null
+const validateForm = (form: IdentifierTypeForm, types: ServiceIdentifierType[]): string | null => {
+  if (!/^[a-z][a-z0-9-]*$/.test(form.key)) return 'Key must be lower-case letters, digits or dashes';
+  if (types.some(type => type.key === form.key && type.id !== form.id)) return `Key "${form.key}" is already used`;
+  if (!form.label.trim()) return 'Label cannot be empty';
+  if (!form.pattern.trim() || !form.validation.trim()) return 'Pattern and validation cannot be empty';
+
+  try {
+    // The pattern is wrapped in a capturing group by the extractor, so it must not add its own
+    const groups = new RegExp(`${form.pattern}|`).exec('')!.length - 1;
+    if (groups > 0) return 'Pattern must not contain capturing groups; use (?:...) instead';
+    new RegExp(form.validation);
+  } catch {
+    return 'Invalid regular expression';
+  }
+
+  return null;
+};
+
+const ServiceIdentifierRegistry: React.FC = () => {
+  const [types, setTypes] = useState<ServiceIdentifierType[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<IdentifierTypeForm | null>(null);
+
+  const trainingService = TrainingService.getInstance();
+
+  // Load identifier types
+  const loadTypes = useCallback(async () => {
+    try {
+      setLoading(true);
+      setTypes(await trainingService.getServiceIdentifierTypes());
+      setError(null);
+    } catch (err) {
+      console.error("Error loading service identifier types:", err);
+      setError("Failed to load service identifier types");
+    } finally {
+      setLoading(false);
+    }
+  }, [trainingService]);
+
+  useEffect(() => {
+    loadTypes();
+  }, [loadTypes]);
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const formError = validateForm(form, types);
+    if (formError) {
+      alert(formError);
+      return;
+    }
+
+    try {
+      await trainingService.saveServiceIdentifierType({
+        ...form,
+        label: form.label.trim(),
+        keywords: form.keywords.split(',').map(keyword => keyword.trim().toLowerCase()).filter(Boolean)
+      });
+      await loadTypes();
+      setForm(null);
+    } catch (error) {
+      console.error('Error saving service identifier type:', error);
+      alert('Failed to save service identifier type');
+    }
+  };
+
+  const handleToggle = async (type: ServiceIdentifierType) => {
+    try {
+      await trainingService.saveServiceIdentifierType({ ...type, enabled: !type.enabled });
+      await loadTypes();
+    } catch (error) {
+      console.error('Error updating service identifier type:', error);
+      alert('Failed to update service identifier type');
+    }
+  };
+
+  const handleDelete = async (type: ServiceIdentifierType) => {
+    if (!window.confirm(`Are you sure you want to delete "${type.label}"?`)) return;
+
+    try {
+      await trainingService.deleteServiceIdentifierType(type.id!);
+      await loadTypes();
+    } catch (error) {
+      console.error('Error deleting service identifier type:', error);
+      alert('Failed to delete service identifier type');
+    }
+  };
+
+  const inputClass = "bg-white border border-gray-300 text-gray-700 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2.5 w-full";
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium flex items-center">
+          <Hash className="mr-2 text-purple-600" size={20} />
+          Service Identifier Types
+        </h3>
+
+        <div className="flex space-x-2">
+          <button
+            onClick={loadTypes}
+            className="p-2 text-gray-500 hover:text-gray-700"
+            title="Refresh identifier types"
+          >
+            <RefreshCw size={18} />
+          </button>
+
+          <button
+            onClick={() => setForm({ ...emptyForm })}
+            className="bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-md px-3 py-2 flex items-center"
+            disabled={!!form}
+          >
+            <Plus size={16} className="mr-1" />
+            New Type
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-600 p-4 rounded-md mb-4">
+          <p className="flex items-center">
+            <Info size={16} className="mr-2" />
+            {error}
+          </p>
+        </div>
+      )}
+
+      {form && (
+        <div className="mb-6 border-b pb-6">
+          <h4 className="text-md font-medium mb-3">{form.id ? `Edit ${form.label}` : 'Create New Identifier Type'}</h4>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="identifier-key" className="block text-sm font-medium text-gray-700 mb-1">Key</label>
+              <input
+                type="text"
+                id="identifier-key"
+                value={form.key}
+                onChange={(e) => setForm({...form, key: e.target.value})}
+                className={inputClass}
+                placeholder="e.g., fiber-order"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="identifier-label" className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+              <input
+                type="text"
+                id="identifier-label"
+                value={form.label}
+                onChange={(e) => setForm({...form, label: e.target.value})}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="identifier-pattern" className="block text-sm font-medium text-gray-700 mb-1">Pattern Regex</label>
+              <input
+                type="text"
+                id="identifier-pattern"
+                value={form.pattern}
+                onChange={(e) => setForm({...form, pattern: e.target.value})}
+                className={`${inputClass} font-mono`}
+                placeholder="e.g., FO\d{8}"
+              />
+              <p className="text-xs text-gray-500 mt-1">Matches the identifier in document text, without capturing groups.</p>
+            </div>
+
+            <div>
+              <label htmlFor="identifier-validation" className="block text-sm font-medium text-gray-700 mb-1">Validation Regex</label>
+              <input
+                type="text"
+                id="identifier-validation"
+                value={form.validation}
+                onChange={(e) => setForm({...form, validation: e.target.value})}
+                className={`${inputClass} font-mono`}
+                placeholder="e.g., ^FO\d{8}$"
+              />
+              <p className="text-xs text-gray-500 mt-1">The whole identifier, upper-cased with spaces removed, must match.</p>
+            </div>
+
+            <div className="md:col-span-2">
+              <label htmlFor="identifier-message" className="block text-sm font-medium text-gray-700 mb-1">Validation Message</label>
+              <input
+                type="text"
+                id="identifier-message"
+                value={form.validationMessage}
+                onChange={(e) => setForm({...form, validationMessage: e.target.value})}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="md:col-span-2">
+              <label htmlFor="identifier-keywords" className="block text-sm font-medium text-gray-700 mb-1">Label Keywords</label>
+              <input
+                type="text"
+                id="identifier-keywords"
+                value={form.keywords}
+                onChange={(e) => setForm({...form, keywords: e.target.value})}
+                className={inputClass}
+                placeholder="e.g., fiber order, order reference"
+              />
+              <p className="text-xs text-gray-500 mt-1">Comma-separated labels printed before the identifier on forms.</p>
+            </div>
+
+            <div>
+              <label htmlFor="identifier-priority" className="block text-sm font-medium text-gray-700 mb-1">
+                Priority (lower is higher priority)
+              </label>
+              <input
+                type="number"
+                id="identifier-priority"
+                min="1"
+                value={form.priority}
+                onChange={(e) => setForm({...form, priority: parseInt(e.target.value)})}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="flex flex-col justify-center space-y-2">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.standalone}
+                  onChange={(e) => setForm({...form, standalone: e.target.checked})}
+                  className="mr-2"
+                />
+                Find without a label keyword
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.enabled}
+                  onChange={(e) => setForm({...form, enabled: e.target.checked})}
+                  className="mr-2"
+                />
+                Enabled
+              </label>
+            </div>
+
+            <div className="md:col-span-2 flex justify-end space-x-2 mt-2">
+              <button
+                onClick={() => setForm(null)}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md text-sm hover:bg-gray-50"
+              >
+                <X size={14} className="inline mr-1" />
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+              >
+                <Save size={14} className="inline mr-1" />
+                Save Type
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mb-2"></div>
+          <p className="text-gray-600">Loading identifier types...</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Type
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Pattern
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Keywords
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Priority
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Enabled
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {types.map(type => (
+                <tr key={type.id} className={`hover:bg-gray-50 ${type.enabled ? '' : 'opacity-60'}`}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{type.label}</div>
+                    <div className="text-xs text-gray-500">
+                      {type.key}{type.standalone ? ' · standalone' : ''}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="text-sm text-gray-900 font-mono overflow-hidden text-ellipsis" style={{ maxWidth: '200px' }}>
+                      {type.pattern}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {type.keywords.join(', ') || '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {type.priority}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      checked={type.enabled}
+                      onChange={() => handleToggle(type)}
+                      title={type.enabled ? 'Disable this type' : 'Enable this type'}
+                    />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <div className="flex justify-end space-x-3">
+                      <button
+                        onClick={() => setForm(toForm(type))}
+                        className="text-blue-600 hover:text-blue-900"
+                        title="Edit identifier type"
+                        disabled={!!form}
+                      >
+                        <Edit size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(type)}
+                        className="text-red-600 hover:text-red-900"
+                        title="Delete identifier type"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ServiceIdentifierRegistry;
@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { UserCircle, Plus, Trash2, Check, Info } from 'lucide-react';
+import UserProfileService from '../services/UserProfileService';
+import { UserProfile } from '../types';
+
+interface UserProfilesProps {
+  currentUser: UserProfile | null;
+  onUserChange: (user: UserProfile | null) => void;
+}
+
+const UserProfiles: React.FC<UserProfilesProps> = ({ currentUser, onUserChange }) => {
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [newName, setNewName] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const userProfiles = UserProfileService.getInstance();
+
+  const loadProfiles = useCallback(async () => {
+    setProfiles(await userProfiles.getProfiles());
+  }, [userProfiles]);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const handleAdd = async () => {
+    try {
+      setError(null);
+      await userProfiles.addProfile(newName);
+      setNewName('');
+      await loadProfiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add the profile');
+    }
+  };
+
+  const handleSelect = async (profile: UserProfile | null) => {
+    try {
+      await userProfiles.setCurrentUser(profile?.id ?? null);
+      onUserChange(profile);
+    } catch (err) {
+      console.error('Error switching user profile:', err);
+      alert('Failed to switch the user profile');
+    }
+  };
+
+  const handleDelete = async (profile: UserProfile) => {
+    if (!window.confirm(`Remove the profile of ${profile.name}?`)) return;
+
+    try {
+      await userProfiles.deleteProfile(profile.id!);
+      if (currentUser?.id === profile.id) onUserChange(null);
+      await loadProfiles();
+    } catch (err) {
+      console.error('Error deleting user profile:', err);
+      alert('Failed to remove the profile');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-medium flex items-center mb-4">
+        <UserCircle className="mr-2 text-blue-600" size={20} />
+        User Profiles
+      </h3>
+
+      <p className="text-xs text-gray-500 mb-3">
+        Status changes, corrections and approvals are recorded under the profile you work as.
+        A refund has to be approved by someone other than the person who verified or corrected it.
+      </p>
+
+      <div className="flex space-x-2 mb-4">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && newName.trim() && handleAdd()}
+          placeholder="Reviewer name"
+          className="flex-1 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!newName.trim()}
+          className="px-3 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Plus size={14} className="inline mr-1" />
+          Add
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-600 p-4 rounded-md mb-4">
+          <p className="flex items-center">
+            <Info size={16} className="mr-2" />
+            {error}
+          </p>
+        </div>
+      )}
+
+      {profiles.length === 0 ? (
+        <p className="text-sm text-gray-500">No profiles yet. Add one for every reviewer.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border rounded-md">
+          {profiles.map(profile => (
+            <li key={profile.id} className="flex items-center justify-between px-4 py-2 text-sm">
+              <span className="text-gray-900">
+                {profile.name}
+                {currentUser?.id === profile.id && (
+                  <span className="ml-2 px-2 py-0.5 text-xs bg-green-100 text-green-700 rounded-full">Current</span>
+                )}
+              </span>
+              <div className="flex space-x-3">
+                {currentUser?.id === profile.id ? (
+                  <button onClick={() => handleSelect(null)} className="text-gray-600 hover:text-gray-800">
+                    Sign out
+                  </button>
+                ) : (
+                  <button onClick={() => handleSelect(profile)} className="text-blue-600 hover:text-blue-800 inline-flex items-center">
+                    <Check size={14} className="mr-1" />
+                    Work as
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(profile)}
+                  className="text-red-600 hover:text-red-900"
+                  title="Remove the profile"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UserProfiles;
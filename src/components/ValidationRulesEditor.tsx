@@ -0,0 +1,439 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ShieldCheck, Edit, Trash2, Plus, Save, X, Info, RefreshCw, RotateCcw } from 'lucide-react';
+import TrainingService from '../services/TrainingService';
+import { fieldDefinitions } from '../utils/fieldDefinitions';
+import { formLayouts } from '../utils/layoutDetection';
+import { RuleSeverity, ValidationRule, ruleAttributes, ruleConditions } from '../utils/validationRules';
+
+const emptyRule: ValidationRule = {
+  ruleId: '',
+  description: '',
+  subject: 'refundAmount',
+  condition: 'greaterThan',
+  value: '',
+  severity: 'warning',
+  message: '',
+  layouts: [],
+  enabled: true
+};
+
+const severityBadges: Record<RuleSeverity, string> = {
+  error: 'bg-red-100 text-red-800',
+  warning: 'bg-amber-100 text-amber-800',
+  info: 'bg-blue-100 text-blue-800'
+};
+
+// Fields and derived attributes a rule can check
+const subjectOptions = [
+  ...fieldDefinitions.map(definition => ({ value: definition.key, label: definition.label })),
+  ...ruleAttributes.map(attribute => ({ value: attribute.subject, label: attribute.label }))
+];
+
+const conditionNeedsValue = (rule: ValidationRule): boolean => {
+  return ruleConditions.find(condition => condition.value === rule.condition)?.needsValue ?? false;
+};
+
+// Check a rule before saving; returns an error message or null
+const validateRule = (rule: ValidationRule, rules: ValidationRule[]): string | null => {
+  if (!/^[A-Za-z][\w.-]*$/.test(rule.ruleId)) return 'Rule ID must start with a letter and contain only letters, digits, dots, dashes or underscores';
+  if (rules.some(other => other.ruleId === rule.ruleId && other.id !== rule.id)) return `Rule ID "${rule.ruleId}" is already used`;
+  if (!rule.message.trim()) return 'Message cannot be empty';
+  if (conditionNeedsValue(rule) && !rule.value?.trim()) return 'This condition needs a value';
+
+  if (rule.condition === 'matches' || rule.condition === 'notMatches') {
+    try {
+      new RegExp(rule.value ?? '');
+    } catch {
+      return 'Invalid regular expression';
+    }
+  }
+  if ((rule.condition === 'greaterThan' || rule.condition === 'lessThan') && isNaN(parseFloat((rule.value ?? '').replace(/,/g, '')))) {
+    return 'Value must be a number';
+  }
+
+  return null;
+};
+
+const ValidationRulesEditor: React.FC = () => {
+  const [rules, setRules] = useState<ValidationRule[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingRule, setEditingRule] = useState<ValidationRule | null>(null);
+  const [selectedLayout, setSelectedLayout] = useState<string>('all');
+
+  const trainingService = TrainingService.getInstance();
+
+  // Load rules
+  const loadRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRules(await trainingService.getValidationRules());
+      setError(null);
+    } catch (err) {
+      console.error("Error loading validation rules:", err);
+      setError("Failed to load validation rules");
+    } finally {
+      setLoading(false);
+    }
+  }, [trainingService]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const handleSave = async () => {
+    if (!editingRule) return;
+
+    const ruleError = validateRule(editingRule, rules);
+    if (ruleError) {
+      alert(ruleError);
+      return;
+    }
+
+    try {
+      await trainingService.saveValidationRule({
+        ...editingRule,
+        value: conditionNeedsValue(editingRule) ? editingRule.value?.trim() : undefined
+      });
+      await loadRules();
+      setEditingRule(null);
+    } catch (error) {
+      console.error('Error saving validation rule:', error);
+      alert('Failed to save validation rule');
+    }
+  };
+
+  const handleToggle = async (rule: ValidationRule) => {
+    try {
+      await trainingService.saveValidationRule({ ...rule, enabled: !rule.enabled });
+      await loadRules();
+    } catch (error) {
+      console.error('Error updating validation rule:', error);
+      alert('Failed to update validation rule');
+    }
+  };
+
+  const handleDelete = async (rule: ValidationRule) => {
+    if (!window.confirm(`Are you sure you want to delete rule "${rule.ruleId}"?`)) return;
+
+    try {
+      await trainingService.deleteValidationRule(rule.id!);
+      await loadRules();
+    } catch (error) {
+      console.error('Error deleting validation rule:', error);
+      alert('Failed to delete validation rule');
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Replace all validation rules with the default rules?')) return;
+
+    try {
+      await trainingService.resetValidationRules();
+      await loadRules();
+    } catch (error) {
+      console.error('Error resetting validation rules:', error);
+      alert('Failed to reset validation rules');
+    }
+  };
+
+  const toggleLayout = (layout: string) => {
+    if (!editingRule) return;
+    const layouts = editingRule.layouts.includes(layout)
+      ? editingRule.layouts.filter(name => name !== layout)
+      : [...editingRule.layouts, layout];
+    setEditingRule({ ...editingRule, layouts });
+  };
+
+  const subjectLabel = (subject: string) => subjectOptions.find(option => option.value === subject)?.label ?? subject;
+  const conditionLabel = (rule: ValidationRule) => {
+    const label = ruleConditions.find(condition => condition.value === rule.condition)?.label ?? rule.condition;
+    return conditionNeedsValue(rule) ? `${label} ${rule.value}` : label;
+  };
+
+  // Rules that apply to the selected layout
+  const visibleRules = rules.filter(rule =>
+    selectedLayout === 'all' || rule.layouts.length === 0 || rule.layouts.includes(selectedLayout)
+  );
+
+  const inputClass = "bg-white border border-gray-300 text-gray-700 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2.5 w-full";
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium flex items-center">
+          <ShieldCheck className="mr-2 text-blue-600" size={20} />
+          Validation Rules
+        </h3>
+
+        <div className="flex space-x-2">
+          <select
+            value={selectedLayout}
+            onChange={(e) => setSelectedLayout(e.target.value)}
+            className="bg-white border border-gray-300 text-gray-700 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2"
+          >
+            <option value="all">All Layouts</option>
+            {formLayouts.map(layout => (
+              <option key={layout.name} value={layout.name}>{layout.name}</option>
+            ))}
+          </select>
+
+          <button
+            onClick={loadRules}
+            className="p-2 text-gray-500 hover:text-gray-700"
+            title="Refresh rules"
+          >
+            <RefreshCw size={18} />
+          </button>
+
+          <button
+            onClick={handleReset}
+            className="p-2 text-gray-500 hover:text-gray-700"
+            title="Reset to the default rules"
+          >
+            <RotateCcw size={18} />
+          </button>
+
+          <button
+            onClick={() => setEditingRule({ ...emptyRule })}
+            className="bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-md px-3 py-2 flex items-center"
+            disabled={!!editingRule}
+          >
+            <Plus size={16} className="mr-1" />
+            New Rule
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-600 p-4 rounded-md mb-4">
+          <p className="flex items-center">
+            <Info size={16} className="mr-2" />
+            {error}
+          </p>
+        </div>
+      )}
+
+      {editingRule && (
+        <div className="mb-6 border-b pb-6">
+          <h4 className="text-md font-medium mb-3">{editingRule.id ? `Edit ${editingRule.ruleId}` : 'Create New Rule'}</h4>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="rule-id" className="block text-sm font-medium text-gray-700 mb-1">Rule ID</label>
+              <input
+                type="text"
+                id="rule-id"
+                value={editingRule.ruleId}
+                onChange={(e) => setEditingRule({...editingRule, ruleId: e.target.value})}
+                className={inputClass}
+                placeholder="e.g., amount.secondReview"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="rule-severity" className="block text-sm font-medium text-gray-700 mb-1">Severity</label>
+              <select
+                id="rule-severity"
+                value={editingRule.severity}
+                onChange={(e) => setEditingRule({...editingRule, severity: e.target.value as RuleSeverity})}
+                className={inputClass}
+              >
+                <option value="error">Error - blocks the extraction</option>
+                <option value="warning">Warning - reviewer should check</option>
+                <option value="info">Info</option>
+              </select>
+            </div>
+
+            <div className="md:col-span-2">
+              <label htmlFor="rule-description" className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                id="rule-description"
+                value={editingRule.description}
+                onChange={(e) => setEditingRule({...editingRule, description: e.target.value})}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="rule-subject" className="block text-sm font-medium text-gray-700 mb-1">When</label>
+              <select
+                id="rule-subject"
+                value={editingRule.subject}
+                onChange={(e) => setEditingRule({...editingRule, subject: e.target.value})}
+                className={inputClass}
+              >
+                {subjectOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex space-x-2">
+              <div className="flex-1">
+                <label htmlFor="rule-condition" className="block text-sm font-medium text-gray-700 mb-1">Condition</label>
+                <select
+                  id="rule-condition"
+                  value={editingRule.condition}
+                  onChange={(e) => setEditingRule({...editingRule, condition: e.target.value as ValidationRule['condition']})}
+                  className={inputClass}
+                >
+                  {ruleConditions.map(condition => (
+                    <option key={condition.value} value={condition.value}>{condition.label}</option>
+                  ))}
+                </select>
+              </div>
+              {conditionNeedsValue(editingRule) && (
+                <div className="flex-1">
+                  <label htmlFor="rule-value" className="block text-sm font-medium text-gray-700 mb-1">Value</label>
+                  <input
+                    type="text"
+                    id="rule-value"
+                    value={editingRule.value ?? ''}
+                    onChange={(e) => setEditingRule({...editingRule, value: e.target.value})}
+                    className={inputClass}
+                    placeholder={editingRule.condition.endsWith('InList') ? 'Comma-separated values' : ''}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="md:col-span-2">
+              <label htmlFor="rule-message" className="block text-sm font-medium text-gray-700 mb-1">Message</label>
+              <input
+                type="text"
+                id="rule-message"
+                value={editingRule.message}
+                onChange={(e) => setEditingRule({...editingRule, message: e.target.value})}
+                className={inputClass}
+                placeholder="e.g., Amount {value} requires a second review"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {'{value}'} is the checked value, {'{label}'} the field name and {'{message}'} the field's validation message.
+              </p>
+            </div>
+
+            <div className="md:col-span-2">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Layouts (none selected applies to every layout)</span>
+              <div className="flex flex-wrap gap-2">
+                {formLayouts.map(layout => (
+                  <label key={layout.name} className="flex items-center text-sm text-gray-700 mr-3">
+                    <input
+                      type="checkbox"
+                      checked={editingRule.layouts.includes(layout.name)}
+                      onChange={() => toggleLayout(layout.name)}
+                      className="mr-1"
+                    />
+                    {layout.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="md:col-span-2 flex justify-end space-x-2 mt-2">
+              <button
+                onClick={() => setEditingRule(null)}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md text-sm hover:bg-gray-50"
+              >
+                <X size={14} className="inline mr-1" />
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+              >
+                <Save size={14} className="inline mr-1" />
+                Save Rule
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mb-2"></div>
+          <p className="text-gray-600">Loading validation rules...</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rule
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Condition
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Severity
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Layouts
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Enabled
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleRules.map(rule => (
+                <tr key={rule.id} className={`hover:bg-gray-50 ${rule.enabled ? '' : 'opacity-60'}`}>
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-mono text-gray-900">{rule.ruleId}</div>
+                    <div className="text-xs text-gray-500">{rule.description}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    {subjectLabel(rule.subject)} {conditionLabel(rule)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${severityBadges[rule.severity]}`}>
+                      {rule.severity}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {rule.layouts.length > 0 ? rule.layouts.join(', ') : 'All'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={() => handleToggle(rule)}
+                      title={rule.enabled ? 'Disable this rule' : 'Enable this rule'}
+                    />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <div className="flex justify-end space-x-3">
+                      <button
+                        onClick={() => setEditingRule({ ...rule })}
+                        className="text-blue-600 hover:text-blue-900"
+                        title="Edit rule"
+                        disabled={!!editingRule}
+                      >
+                        <Edit size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule)}
+                        className="text-red-600 hover:text-red-900"
+                        title="Delete rule"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValidationRulesEditor;
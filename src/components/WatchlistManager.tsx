@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { UserX, Upload, Trash2, Info, RefreshCw, Save } from 'lucide-react';
+import WatchlistService from '../services/WatchlistService';
+import { WatchlistEntry } from '../utils/watchlist';
+
+const WatchlistManager: React.FC = () => {
+  const [entries, setEntries] = useState<WatchlistEntry[]>([]);
+  const [threshold, setThreshold] = useState<string>('');
+  const [replace, setReplace] = useState<boolean>(true);
+  const [importing, setImporting] = useState<boolean>(false);
+  const [result, setResult] = useState<{ imported: number; errors: string[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const watchlist = WatchlistService.getInstance();
+
+  // Load the list and the hold threshold
+  const loadWatchlist = useCallback(async () => {
+    setEntries(await watchlist.getEntries());
+    setThreshold(String(await watchlist.getHoldThreshold()));
+  }, [watchlist]);
+
+  useEffect(() => {
+    loadWatchlist();
+  }, [loadWatchlist]);
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    try {
+      setImporting(true);
+      setError(null);
+      setResult(await watchlist.importFile(await file.text(), file.name, replace));
+      await loadWatchlist();
+    } catch (err) {
+      console.error('Error importing watchlist:', err);
+      setError('Failed to import the watchlist file');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleSaveThreshold = async () => {
+    const value = parseInt(threshold, 10);
+    if (isNaN(value) || value < 1 || value > 100) {
+      alert('The threshold must be a score from 1 to 100');
+      return;
+    }
+
+    try {
+      await watchlist.setHoldThreshold(value);
+      await loadWatchlist();
+    } catch (err) {
+      console.error('Error saving hold threshold:', err);
+      alert('Failed to save the hold threshold');
+    }
+  };
+
+  const handleDelete = async (entry: WatchlistEntry) => {
+    if (!window.confirm(`Remove "${entry.name}" from the watchlist?`)) return;
+
+    try {
+      await watchlist.deleteEntry(entry.id!);
+      await loadWatchlist();
+    } catch (err) {
+      console.error('Error deleting watchlist entry:', err);
+      alert('Failed to remove the watchlist entry');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Remove all watchlist entries?')) return;
+
+    try {
+      await watchlist.clear();
+      setResult(null);
+      await loadWatchlist();
+    } catch (err) {
+      console.error('Error clearing watchlist:', err);
+      alert('Failed to clear the watchlist');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium flex items-center">
+          <UserX className="mr-2 text-blue-600" size={20} />
+          Watchlist
+        </h3>
+
+        <div className="flex space-x-2">
+          <button
+            onClick={loadWatchlist}
+            className="p-2 text-gray-500 hover:text-gray-700"
+            title="Refresh"
+          >
+            <RefreshCw size={18} />
+          </button>
+
+          <button
+            onClick={handleClear}
+            className="p-2 text-gray-500 hover:text-red-600"
+            title="Remove all entries"
+            disabled={entries.length === 0}
+          >
+            <Trash2 size={18} />
+          </button>
+
+          <label className={`bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-md px-3 py-2 flex items-center cursor-pointer ${importing ? 'opacity-50 pointer-events-none' : ''}`}>
+            <Upload size={16} className="mr-1" />
+            {importing ? 'Importing...' : 'Import CSV/JSON'}
+            <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileSelected} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 mb-3">
+        CSV files need a name column and may have aliases (separated by ;), reference and reason columns.
+        JSON files hold an array of names or of objects with the same fields.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        <div>
+          <label htmlFor="hold-threshold" className="block text-sm font-medium text-gray-700 mb-1">Hold documents scoring at least</label>
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              id="hold-threshold"
+              min={1}
+              max={100}
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              className="bg-white border border-gray-300 text-gray-700 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2 w-24"
+            />
+            <button
+              onClick={handleSaveThreshold}
+              className="px-3 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+            >
+              <Save size={14} className="inline mr-1" />
+              Save
+            </button>
+          </div>
+        </div>
+
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={replace}
+            onChange={(e) => setReplace(e.target.checked)}
+            className="mr-2"
+          />
+          Replace the current list on import
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-600 p-4 rounded-md mb-4">
+          <p className="flex items-center">
+            <Info size={16} className="mr-2" />
+            {error}
+          </p>
+        </div>
+      )}
+
+      {result && (
+        <div className={`p-4 rounded-md border mb-4 ${result.errors.length > 0 ? 'bg-amber-50 border-amber-200' : 'bg-green-50 border-green-200'}`}>
+          <p className="text-sm font-medium text-gray-800">Imported {result.imported} entries</p>
+          {result.errors.length > 0 && (
+            <ul className="mt-2 text-xs text-amber-800 list-disc list-inside max-h-40 overflow-y-auto">
+              {result.errors.map((message, index) => (
+                <li key={index}>{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">The watchlist is empty; every document screens clear.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Name
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Aliases
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Reference
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Reason
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.map(entry => (
+                <tr key={entry.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm text-gray-900">{entry.name}</td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{entry.aliases.join(', ')}</td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{entry.reference}</td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{entry.reason}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button
+                      onClick={() => handleDelete(entry)}
+                      className="text-red-600 hover:text-red-900"
+                      title="Remove from the watchlist"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WatchlistManager;
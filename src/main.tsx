@@ -7,4 +7,13 @@ createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
   </StrictMode>
-);
\ No newline at end of file
+);
+
+// Cache the app for offline use; the service worker only exists in production builds
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(error => {
+      console.error('Failed to register the service worker:', error);
+    });
+  });
+}
@@ -0,0 +1,43 @@
+/* global PRECACHE */
+// Service worker of the production build. offlineAssetsPlugin.ts prepends
+// PRECACHE: the build's version and the files to cache, relative to this worker.
+
+const CACHE_PREFIX = 'treasury-extractor-';
+const CACHE_NAME = `${CACHE_PREFIX}${PRECACHE.version}`;
+const APP_SHELL = new URL('./', self.location.href).href;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(['./', ...PRECACHE.files]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Drop the caches of earlier builds
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names
+        .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+        .map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const request = event.request;
+  // HEAD requests come from the app's check for its extraction assets
+  if (!['GET', 'HEAD'].includes(request.method) || new URL(request.url).origin !== self.location.origin) return;
+
+  // Pages come from the network when it is reachable so a new build is picked up, and from
+  // the cached app shell otherwise
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => caches.match(APP_SHELL)));
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request, { ignoreMethod: true }).then(cached => cached || fetch(request))
+  );
+});
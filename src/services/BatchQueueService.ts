@@ -0,0 +1,404 @@
+import Dexie from 'dexie';
+import { BatchJob, PreprocessingSettings, ProcessingBatch } from '../types';
+import { DEFAULT_CONCURRENCY, failJob, interruptedJob, isJobFinished, nextRunnableJob } from '../utils/batchQueue';
+
+interface QueueSetting {
+  key: string;
+  value: number;
+}
+
+// Batch queue database
+class BatchQueueDatabase extends Dexie {
+  batches: Dexie.Table<ProcessingBatch, string>;
+  jobs: Dexie.Table<BatchJob, string>;
+  settings: Dexie.Table<QueueSetting, string>;
+
+  constructor() {
+    super('TreasuryExtractorBatches');
+
+    this.version(1).stores({
+      batches: 'id, name, status, createdAt',
+      jobs: 'id, batchId, status, documentId'
+    });
+
+    this.version(2).stores({
+      settings: 'key'
+    });
+
+    this.batches = this.table('batches');
+    this.jobs = this.table('jobs');
+    this.settings = this.table('settings');
+  }
+}
+
+// Create database instance
+const db = new BatchQueueDatabase();
+
+// Processes one document; aborting the signal cancels it
+type BatchJobProcessor = (job: BatchJob, signal: AbortSignal, onProgress: (progress: number) => void) => Promise<void>;
+type BatchListener = (batch: ProcessingBatch, jobs: BatchJob[]) => void;
+// Progress of the documents a batch is processing, as a number of documents (0.5 is half a document)
+type BatchProgressListener = (batchId: string, inProgress: number) => void;
+
+// Persistent queue that processes uploaded documents in the background, several at a time. The
+// queue state lives in IndexedDB, so a batch interrupted by a reload carries on when the app
+// starts again.
+class BatchQueueService {
+  private static instance: BatchQueueService;
+  private processor: BatchJobProcessor | null = null;
+  private listeners: Set<BatchListener> = new Set();
+  private progressListeners: Set<BatchProgressListener> = new Set();
+  private inFlight: Map<string, { job: BatchJob; controller: AbortController; progress: number }> = new Map();
+  private concurrency = DEFAULT_CONCURRENCY;
+  private dispatching = false;
+  private dispatchAgain = false;
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): BatchQueueService {
+    if (!BatchQueueService.instance) {
+      BatchQueueService.instance = new BatchQueueService();
+    }
+    return BatchQueueService.instance;
+  }
+
+  // Set what processing a document means; the queue starts working once it is set
+  setProcessor(processor: BatchJobProcessor): void {
+    this.processor = processor;
+  }
+
+  // Be told about every change to a batch or its jobs. Returns the unsubscribe function.
+  subscribe(listener: BatchListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  subscribeProgress(listener: BatchProgressListener): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  private notifyProgress(batchId: string): void {
+    const inProgress = [...this.inFlight.values()]
+      .filter(entry => entry.job.batchId === batchId)
+      .reduce((sum, entry) => sum + entry.progress, 0);
+    this.progressListeners.forEach(listener => listener(batchId, inProgress));
+  }
+
+  // Number of documents processed at the same time
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  async setConcurrency(value: number): Promise<void> {
+    try {
+      this.concurrency = Math.max(1, Math.round(value));
+      await db.settings.put({ key: 'concurrency', value: this.concurrency });
+      this.run();
+    } catch (error) {
+      console.error('Error saving batch concurrency:', error);
+      throw error;
+    }
+  }
+
+  private async notify(batchId: string): Promise<void> {
+    const batch = await db.batches.get(batchId);
+    if (!batch) return;
+    const jobs = await this.getJobs(batchId);
+    this.listeners.forEach(listener => listener(batch, jobs));
+  }
+
+  // Queue already stored documents as a new batch and start processing it, with the image
+  // preprocessing settings its documents are read with
+  async createBatch(
+    name: string,
+    documents: { id: string; fileName: string }[],
+    preprocessing?: PreprocessingSettings
+  ): Promise<ProcessingBatch> {
+    try {
+      const createdAt = new Date().toISOString();
+      const batch: ProcessingBatch = {
+        id: `batch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        name: name.trim() || `Batch of ${new Date(createdAt).toLocaleString()}`,
+        status: 'running',
+        documentCount: documents.length,
+        createdAt,
+        preprocessing
+      };
+      const jobs: BatchJob[] = documents.map((document, position) => ({
+        id: `${batch.id}_${position}`,
+        batchId: batch.id,
+        position,
+        documentId: document.id,
+        fileName: document.fileName,
+        status: 'queued',
+        attempts: 0
+      }));
+
+      await db.transaction('rw', db.batches, db.jobs, async () => {
+        await db.batches.add(batch);
+        await db.jobs.bulkAdd(jobs);
+      });
+
+      await this.notify(batch.id);
+      this.run();
+      return batch;
+    } catch (error) {
+      console.error('Error creating batch:', error);
+      throw error;
+    }
+  }
+
+  // Batches, newest first
+  async getBatches(): Promise<ProcessingBatch[]> {
+    try {
+      return await db.batches.orderBy('createdAt').reverse().toArray();
+    } catch (error) {
+      console.error('Error retrieving batches:', error);
+      return [];
+    }
+  }
+
+  async getBatch(id: string): Promise<ProcessingBatch | null> {
+    try {
+      return (await db.batches.get(id)) ?? null;
+    } catch (error) {
+      console.error('Error retrieving batch:', error);
+      return null;
+    }
+  }
+
+  // A batch's jobs in upload order
+  async getJobs(batchId: string): Promise<BatchJob[]> {
+    try {
+      return await db.jobs.where('batchId').equals(batchId).sortBy('position');
+    } catch (error) {
+      console.error('Error retrieving batch jobs:', error);
+      return [];
+    }
+  }
+
+  // The documents being processed are finished first
+  async pauseBatch(id: string): Promise<void> {
+    await this.updateBatch(id, batch => batch.status === 'running' ? { status: 'paused' } : null);
+  }
+
+  async resumeBatch(id: string): Promise<void> {
+    await this.updateBatch(id, batch => batch.status === 'paused' ? { status: 'running' } : null);
+    this.run();
+  }
+
+  // Cancel the documents of a batch that are not processed yet, stopping the ones in progress
+  async cancelBatch(id: string): Promise<void> {
+    try {
+      await db.transaction('rw', db.batches, db.jobs, async () => {
+        const batch = await db.batches.get(id);
+        if (!batch || batch.status === 'completed' || batch.status === 'cancelled') return;
+
+        await db.jobs.where('batchId').equals(id)
+          .filter(job => job.status === 'queued')
+          .modify({ status: 'cancelled', nextAttemptAt: undefined });
+        await db.batches.update(id, { status: 'cancelled', finishedAt: new Date().toISOString() });
+      });
+      this.inFlight.forEach(({ job, controller }) => {
+        if (job.batchId === id) controller.abort();
+      });
+      await this.notify(id);
+    } catch (error) {
+      console.error('Error cancelling batch:', error);
+      throw error;
+    }
+  }
+
+  // Cancel one document of a batch, stopping it if it is being processed
+  async cancelJob(jobId: string): Promise<void> {
+    try {
+      const inFlight = this.inFlight.get(jobId);
+      if (inFlight) {
+        inFlight.controller.abort();
+        return;
+      }
+
+      const job = await db.jobs.get(jobId);
+      if (job?.status !== 'queued') return;
+      await db.jobs.update(jobId, { status: 'cancelled', nextAttemptAt: undefined, finishedAt: new Date().toISOString() });
+      await this.completeIfFinished(job.batchId);
+      await this.notify(job.batchId);
+    } catch (error) {
+      console.error('Error cancelling document:', error);
+      throw error;
+    }
+  }
+
+  // Queue the failed and cancelled documents of a batch again with fresh attempts
+  async retryBatch(id: string): Promise<void> {
+    try {
+      await db.transaction('rw', db.batches, db.jobs, async () => {
+        const count = await db.jobs.where('batchId').equals(id)
+          .filter(job => job.status === 'failed' || job.status === 'cancelled')
+          .modify({ status: 'queued', attempts: 0, nextAttemptAt: undefined, lastError: undefined, finishedAt: undefined });
+        if (count > 0) {
+          await db.batches.update(id, { status: 'running', finishedAt: undefined });
+        }
+      });
+      await this.notify(id);
+      this.run();
+    } catch (error) {
+      console.error('Error retrying batch:', error);
+      throw error;
+    }
+  }
+
+  // Remove a batch from the list; its documents and extraction results are kept
+  async deleteBatch(id: string): Promise<void> {
+    try {
+      await db.transaction('rw', db.batches, db.jobs, async () => {
+        await db.jobs.where('batchId').equals(id).delete();
+        await db.batches.delete(id);
+      });
+    } catch (error) {
+      console.error('Error deleting batch:', error);
+      throw error;
+    }
+  }
+
+  // Documents that were being processed when the page closed are queued again, and running
+  // batches carry on
+  async resumeInterrupted(): Promise<ProcessingBatch[]> {
+    try {
+      this.concurrency = (await db.settings.get('concurrency'))?.value ?? DEFAULT_CONCURRENCY;
+      // Documents cut off by the reload are queued again, unless their batch has already ended
+      await db.transaction('rw', db.batches, db.jobs, async () => {
+        const batches = await db.batches.toArray();
+        const interrupted = await db.jobs.where('status').equals('processing').toArray();
+        await db.jobs.bulkPut(interrupted.map(job => interruptedJob(job, batches.find(batch => batch.id === job.batchId))));
+      });
+      const running = await db.batches.where('status').equals('running').toArray();
+      if (running.length > 0) {
+        console.log(`Resuming ${running.length} interrupted batch(es)`);
+        this.run();
+      }
+      return running;
+    } catch (error) {
+      console.error('Error resuming interrupted batches:', error);
+      return [];
+    }
+  }
+
+  private async updateBatch(id: string, change: (batch: ProcessingBatch) => Partial<ProcessingBatch> | null): Promise<void> {
+    try {
+      const batch = await db.batches.get(id);
+      const update = batch && change(batch);
+      if (!update) return;
+
+      await db.batches.update(id, update);
+      await this.notify(id);
+    } catch (error) {
+      console.error('Error updating batch:', error);
+      throw error;
+    }
+  }
+
+  // A batch is completed once none of its documents is waiting or being processed
+  private async completeIfFinished(batchId: string): Promise<void> {
+    const jobs = await this.getJobs(batchId);
+    if (!jobs.every(isJobFinished)) return;
+
+    await db.batches.where('id').equals(batchId)
+      .filter(batch => batch.status === 'running' || batch.status === 'paused')
+      .modify({ status: 'completed', finishedAt: new Date().toISOString() });
+  }
+
+  // Start queued documents until the concurrency is reached or none is due; waits for the next
+  // retry if needed
+  private async run(): Promise<void> {
+    if (!this.processor) return;
+    if (this.dispatching) {
+      this.dispatchAgain = true;
+      return;
+    }
+    this.dispatching = true;
+
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+
+    try {
+      while (this.inFlight.size < this.concurrency) {
+        const queued = (await db.jobs.where('status').equals('queued').toArray()).filter(job => !this.inFlight.has(job.id));
+        const { job, wakeAt } = nextRunnableJob(await db.batches.toArray(), queued);
+
+        if (!job) {
+          if (wakeAt !== undefined) {
+            this.wakeTimer = setTimeout(() => this.run(), Math.max(0, wakeAt - Date.now()));
+          }
+          break;
+        }
+
+        await db.jobs.update(job.id, { status: 'processing' });
+        this.inFlight.set(job.id, { job, controller: new AbortController(), progress: 0 });
+        await this.notify(job.batchId);
+        this.processJob(job);
+      }
+    } catch (error) {
+      console.error('Error running batch queue:', error);
+    } finally {
+      this.dispatching = false;
+      if (this.dispatchAgain) {
+        this.dispatchAgain = false;
+        this.run();
+      }
+    }
+  }
+
+  private async processJob(job: BatchJob): Promise<void> {
+    const entry = this.inFlight.get(job.id)!;
+
+    try {
+      await this.processor!(job, entry.controller.signal, progress => {
+        entry.progress = progress;
+        this.notifyProgress(job.batchId);
+      });
+      await db.jobs.update(job.id, {
+        status: 'done',
+        attempts: job.attempts + 1,
+        nextAttemptAt: undefined,
+        finishedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      if (!entry.controller.signal.aborted) {
+        console.error(`Error processing ${job.fileName} (attempt ${job.attempts + 1}):`, error);
+      }
+      try {
+        if (entry.controller.signal.aborted) {
+          await db.jobs.update(job.id, { status: 'cancelled', nextAttemptAt: undefined, finishedAt: new Date().toISOString() });
+        } else {
+          await db.jobs.put(failJob(job, error instanceof Error ? error.message : String(error)));
+        }
+      } catch (updateError) {
+        console.error(`Error recording the outcome of ${job.fileName}:`, updateError);
+      }
+    } finally {
+      this.inFlight.delete(job.id);
+    }
+
+    try {
+      await this.completeIfFinished(job.batchId);
+      await this.notify(job.batchId);
+      this.notifyProgress(job.batchId);
+    } catch (error) {
+      console.error('Error updating batch:', error);
+    }
+    this.run();
+  }
+}
+
+export default BatchQueueService;
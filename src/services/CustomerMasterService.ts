@@ -0,0 +1,115 @@
+import Dexie from 'dexie';
+import { ExtractedData } from '../types';
+import {
+  CustomerMasterRecord,
+  applyMasterReconciliation,
+  parseCustomerMasterCsv,
+  reconcileWithMaster
+} from '../utils/customerMaster';
+import { isFound } from '../utils/duplicateDetection';
+import { cleanServiceIdentifier } from '../utils/serviceIdentifiers';
+
+// Customer master database, kept beside the document database
+class CustomerMasterDatabase extends Dexie {
+  customers: Dexie.Table<CustomerMasterRecord, string>;
+
+  constructor() {
+    super('TreasuryExtractorCustomerMaster');
+
+    this.version(1).stores({
+      customers: 'serviceNumber, registeredIban, importedAt'
+    });
+
+    this.customers = this.table('customers');
+  }
+}
+
+// Create database instance
+const db = new CustomerMasterDatabase();
+
+// Customer master service
+class CustomerMasterService {
+  private static instance: CustomerMasterService;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): CustomerMasterService {
+    if (!CustomerMasterService.instance) {
+      CustomerMasterService.instance = new CustomerMasterService();
+    }
+    return CustomerMasterService.instance;
+  }
+
+  // Import the customer master CSV export. Records are added or replaced by service number;
+  // with replace, records missing from the file are removed.
+  async importCsv(text: string, replace: boolean = false): Promise<{ imported: number; errors: string[] }> {
+    try {
+      const { records, errors } = parseCustomerMasterCsv(text);
+      if (records.length === 0) return { imported: 0, errors };
+
+      await db.transaction('rw', db.customers, async () => {
+        if (replace) await db.customers.clear();
+        await db.customers.bulkPut(records);
+      });
+
+      console.log(`Imported ${records.length} customer master records`);
+      return { imported: records.length, errors };
+    } catch (error) {
+      console.error('Error importing customer master:', error);
+      throw error;
+    }
+  }
+
+  async getRecord(serviceNumber: string): Promise<CustomerMasterRecord | undefined> {
+    try {
+      return await db.customers.get(cleanServiceIdentifier(serviceNumber));
+    } catch (error) {
+      console.error('Error retrieving customer master record:', error);
+      return undefined;
+    }
+  }
+
+  async getRecordCount(): Promise<number> {
+    try {
+      return await db.customers.count();
+    } catch (error) {
+      console.error('Error counting customer master records:', error);
+      return 0;
+    }
+  }
+
+  // The most recent import time, or null when no master has been imported
+  async getLastImport(): Promise<string | null> {
+    try {
+      const latest = await db.customers.orderBy('importedAt').last();
+      return latest?.importedAt ?? null;
+    } catch (error) {
+      console.error('Error reading customer master import time:', error);
+      return null;
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await db.customers.clear();
+    } catch (error) {
+      console.error('Error clearing customer master:', error);
+      throw error;
+    }
+  }
+
+  // Reconcile a result with the master record of its service number. Nothing is reconciled
+  // while no master has been imported, nor are results without a service number.
+  async reconcile(data: ExtractedData): Promise<ExtractedData> {
+    if (!isFound(data.customerServiceNumber.value) || (await this.getRecordCount()) === 0) {
+      return { ...data, masterData: undefined };
+    }
+
+    const record = await this.getRecord(data.customerServiceNumber.value);
+    return applyMasterReconciliation(data, reconcileWithMaster(data, record));
+  }
+}
+
+export default CustomerMasterService;
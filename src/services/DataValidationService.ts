@@ -1,74 +1,84 @@
 // Data validation service for Treasury Document Extractor
+import { FieldValidationResult, fieldDefinitions, getFieldDefinition } from '../utils/fieldDefinitions';
+import { normalizeValue } from '../utils/textNormalization';
+import { isArabicScript, transliterateArabic } from '../utils/transliteration';
+import { parseAmountInWords, AmountWordsLanguage } from '../utils/amountInWords';
+import { DEFAULT_CURRENCY, detectCurrency, getCurrency } from '../utils/currencies';
+import {
+  cleanServiceIdentifier,
+  getServiceIdentifierTypes,
+  identifyServiceIdentifier,
+  resembleServiceIdentifier
+} from '../utils/serviceIdentifiers';
+import { getIbanCountryFormat, isIbanChecksumValid } from '../utils/iban';
+import { getSaudiBank, saudiBankDisplayName } from '../utils/saudiBanks';
+import {
+  RuleFinding,
+  ValidationRule,
+  conditionHolds,
+  formatRuleMessage,
+  getValidationRules
+} from '../utils/validationRules';
+import { FieldQualifiers, LineItemTable } from '../types';
 
 /**
- * Validates and formats an IBAN number according to Saudi standards
+ * Validates and formats an IBAN: Saudi IBANs against the Saudi bank registry, foreign IBANs by
+ * their country's length and format, and every IBAN against its mod-97 check digits
  * @param iban The IBAN string to validate
- * @returns An object with validation result
+ * @returns An object with validation result, and the bank for Saudi IBANs
  */
 export const validateIBAN = (iban: string): {
   isValid: boolean;
   formattedValue: string;
   bankName?: string;
+  countryName?: string;
   errorMessage?: string;
 } => {
-  // Remove spaces and convert to uppercase
-  const cleanIban = iban.replace(/\s/g, '').toUpperCase();
+  // Convert Arabic-Indic digits, remove spaces and convert to uppercase
+  const cleanIban = normalizeValue(iban).replace(/[\s-]/g, '').toUpperCase();
+  const invalid = (errorMessage: string) => ({ isValid: false, formattedValue: cleanIban, errorMessage });
   
-  // Check if it's a Saudi IBAN (SA followed by 22 digits)
-  if (!cleanIban.startsWith('SA')) {
-    return {
-      isValid: false,
-      formattedValue: cleanIban,
-      errorMessage: 'IBAN must start with SA (Saudi Arabia)'
-    };
+  if (!cleanIban) {
+    return invalid('IBAN is empty');
+  }
+  
+  if (!/^[A-Z0-9]+$/.test(cleanIban)) {
+    return invalid('IBAN can only contain letters and digits');
+  }
+  
+  const countryCode = cleanIban.substring(0, 2);
+  const country = getIbanCountryFormat(countryCode);
+  if (!country) {
+    return invalid(`Unknown IBAN country code "${countryCode}"`);
   }
   
   // Check length
-  if (cleanIban.length !== 24) {
-    return {
-      isValid: false,
-      formattedValue: cleanIban,
-      errorMessage: 'Saudi IBAN must be 24 characters (SA + 22 digits)'
-    };
+  if (cleanIban.length !== country.length) {
+    return invalid(`${country.name} IBAN must be ${country.length} characters, not ${cleanIban.length}`);
   }
   
-  // Check if all characters after SA are digits
-  if (!/^SA\d{22}$/.test(cleanIban)) {
-    return {
-      isValid: false,
-      formattedValue: cleanIban,
-      errorMessage: 'IBAN format invalid - must be SA followed by 22 digits'
-    };
+  if (!/^\d{2}$/.test(cleanIban.substring(2, 4))) {
+    return invalid('IBAN check digits (characters 3-4) must be digits');
   }
   
-  // For demonstration, determine bank from IBAN
-  // In a real system, this would use a proper API or database
-  const bankCode = cleanIban.substring(4, 6);
-  let bankName = 'Unknown Bank';
-  
-  switch (bankCode) {
-    case '10':
-      bankName = 'The Saudi National Bank (SNB)';
-      break;
-    case '15':
-      bankName = 'Al Rajhi Bank';
-      break;
-    case '20':
-      bankName = 'Riyad Bank';
-      break;
-    case '30':
-      bankName = 'Saudi British Bank (SABB)';
-      break;
-    case '40':
-      bankName = 'Banque Saudi Fransi';
-      break;
-    case '50':
-      bankName = 'Arab National Bank';
-      break;
-    case '60':
-      bankName = 'Bank AlJazira';
-      break;
-    // More banks could be added here
+  // Check the account part where we know the country's format
+  if (country.bban && !new RegExp(`^${country.bban}$`).test(cleanIban.substring(4))) {
+    return invalid(`${country.name} IBAN format invalid - after ${countryCode} and the check digits it must be ${country.bbanDescription}`);
+  }
+  
+  if (!isIbanChecksumValid(cleanIban)) {
+    return invalid('IBAN check digits do not match (mod-97 check failed) - a character is probably misread');
+  }
+  
+  // Saudi IBANs must belong to a known bank
+  let bankName: string | undefined;
+  if (countryCode === 'SA') {
+    const bankCode = cleanIban.substring(4, 6);
+    const bank = getSaudiBank(bankCode);
+    if (!bank) {
+      return invalid(`Unknown Saudi bank code "${bankCode}" (characters 5-6)`);
+    }
+    bankName = saudiBankDisplayName(bank);
   }
   
   // Format IBAN with spaces for readability
@@ -78,70 +88,75 @@ export const validateIBAN = (iban: string): {
   return {
     isValid: true,
     formattedValue: formattedIban,
-    bankName
+    bankName,
+    countryName: country.name
   };
 };
 
 /**
- * Validates and formats a customer service number
+ * Validates and formats a customer service number against the service identifier registry
  * @param serviceNumber The service number to validate
- * @returns An object with validation result
+ * @param identifierType Key of the identifier type the number was extracted as, tried first
+ * @returns An object with validation result and the identifier type the number matched
  */
-export const validateServiceNumber = (serviceNumber: string): {
+export const validateServiceNumber = (serviceNumber: string, identifierType?: string): {
   isValid: boolean;
   formattedValue: string;
+  identifierType?: string;
   errorMessage?: string;
 } => {
-  // Remove spaces and convert to uppercase
-  const cleanNumber = serviceNumber.replace(/\s/g, '').toUpperCase();
-  
-  // Check if it starts with FTTH
-  if (!cleanNumber.startsWith('FTTH')) {
-    return {
-      isValid: false,
-      formattedValue: cleanNumber,
-      errorMessage: 'Service number must start with FTTH'
-    };
-  }
+  // Convert Arabic-Indic digits, remove spaces and convert to uppercase
+  const cleanNumber = cleanServiceIdentifier(normalizeValue(serviceNumber));
   
-  // Check if it has digits after FTTH
-  if (!/^FTTH\d+$/.test(cleanNumber)) {
+  const type = identifyServiceIdentifier(cleanNumber, identifierType);
+  if (type) {
     return {
-      isValid: false,
+      isValid: true,
       formattedValue: cleanNumber,
-      errorMessage: 'Service number must be FTTH followed by digits'
+      identifierType: type.key
     };
   }
   
-  // Check if it has between 3 and 9 digits
-  const digits = cleanNumber.substring(4);
-  if (digits.length < 3 || digits.length > 9) {
+  // Explain the rule of the type the number looks like, if any
+  const resembled = resembleServiceIdentifier(cleanNumber);
+  if (resembled) {
     return {
       isValid: false,
       formattedValue: cleanNumber,
-      errorMessage: 'Service number must have between 3 and 9 digits after FTTH'
+      identifierType: resembled.key,
+      errorMessage: resembled.validationMessage
     };
   }
   
+  const labels = getServiceIdentifierTypes().map(type => type.label).join(', ');
   return {
-    isValid: true,
-    formattedValue: cleanNumber
+    isValid: false,
+    formattedValue: cleanNumber,
+    errorMessage: `Not a recognised service identifier (expected one of: ${labels})`
   };
 };
 
 /**
  * Validates and formats a refund amount
- * @param amount The amount string to validate
- * @returns An object with validation result
+ * @param amount The amount string to validate, optionally with a currency code or symbol
+ * @param currency ISO code of the amount's currency, used when none is written in the amount
+ * @returns An object with validation result and the currency the amount is in
  */
-export const validateAmount = (amount: string): {
+export const validateAmount = (amount: string, currency?: string): {
   isValid: boolean;
   formattedValue: string;
   numericValue: number;
+  currency: string;
   errorMessage?: string;
 } => {
+  const normalizedAmount = normalizeValue(amount);
+  
+  // A currency written in the amount wins over the one passed in
+  const currencyCode = detectCurrency(normalizedAmount) ?? currency ?? DEFAULT_CURRENCY;
+  const minorUnits = getCurrency(currencyCode)?.minorUnits ?? 2;
+  
   // Remove currency symbols and spaces
-  let cleanAmount = amount.replace(/[^\d.,]/g, '');
+  let cleanAmount = normalizedAmount.replace(/[^\d.,]/g, '');
   
   // Handle different numeric formats
   if (cleanAmount.includes(',') && cleanAmount.includes('.')) {
@@ -172,6 +187,7 @@ export const validateAmount = (amount: string): {
       isValid: false,
       formattedValue: amount,
       numericValue: 0,
+      currency: currencyCode,
       errorMessage: 'Invalid numeric format'
     };
   }
@@ -181,32 +197,47 @@ export const validateAmount = (amount: string): {
       isValid: false,
       formattedValue: amount,
       numericValue,
+      currency: currencyCode,
       errorMessage: 'Amount must be greater than zero'
     };
   }
   
+  // No more decimal places than the currency's minor unit, e.g. 2 for halalas
+  const decimals = cleanAmount.includes('.') ? cleanAmount.length - cleanAmount.indexOf('.') - 1 : 0;
+  if (decimals > minorUnits) {
+    return {
+      isValid: false,
+      formattedValue: amount,
+      numericValue,
+      currency: currencyCode,
+      errorMessage: `${currencyCode} amounts have at most ${minorUnits} decimal places`
+    };
+  }
+  
   // Format as currency
-  const formattedValue = numericValue.toFixed(2);
+  const formattedValue = numericValue.toFixed(minorUnits);
   
   return {
     isValid: true,
     formattedValue,
-    numericValue
+    numericValue,
+    currency: currencyCode
   };
 };
 
 /**
- * Validates a customer name
+ * Validates a customer name in Latin or Arabic script
  * @param name The customer name to validate
- * @returns An object with validation result
+ * @returns An object with validation result; Arabic names also get their Latin transliteration
  */
 export const validateCustomerName = (name: string): {
   isValid: boolean;
   formattedValue: string;
+  latinValue?: string;
   errorMessage?: string;
 } => {
-  // Trim and remove multiple spaces
-  const cleanName = name.trim().replace(/\s+/g, ' ');
+  // Normalize Arabic presentation forms and tatweel, trim and remove multiple spaces
+  const cleanName = normalizeValue(name).trim().replace(/\s+/g, ' ');
   
   if (cleanName.length < 2) {
     return {
@@ -225,12 +256,28 @@ export const validateCustomerName = (name: string): {
     };
   }
   
-  // Check for proper name format (simple check for first and last name)
-  if (!cleanName.includes(' ')) {
+  // Arabic names are kept as written, with a Latin transliteration for export and matching
+  if (isArabicScript(cleanName)) {
+    if (/[A-Za-z]/.test(cleanName)) {
+      return {
+        isValid: false,
+        formattedValue: cleanName,
+        errorMessage: 'Name mixes Arabic and Latin script'
+      };
+    }
+    
     return {
-      isValid: true, // Still valid, but potentially incomplete
+      isValid: true,
       formattedValue: cleanName,
-      errorMessage: 'Name may be incomplete - no surname detected'
+      latinValue: transliterateArabic(cleanName)
+    };
+  }
+  
+  // Single-word names are valid; the customerName.singleWord rule warns that they may be incomplete
+  if (!cleanName.includes(' ')) {
+    return {
+      isValid: true,
+      formattedValue: cleanName
     };
   }
   
@@ -246,57 +293,363 @@ export const validateCustomerName = (name: string): {
   };
 };
 
-// Add validation for the full extraction result
-export const validateExtractionData = (data: {
-  customerName: string;
-  refundAmount: string;
-  ibanNumber: string;
-  customerServiceNumber: string;
-}): {
+/**
+ * Validates and formats a mobile number, accepting local (05x) and international (+966) forms
+ * @param mobile The mobile number to validate
+ * @returns An object with validation result
+ */
+export const validateMobileNumber = (mobile: string): {
   isValid: boolean;
-  validatedData: {
-    customerName: { value: string; isValid: boolean; message?: string };
-    refundAmount: { value: string; numericValue: number; isValid: boolean; message?: string };
-    ibanNumber: { value: string; bankName?: string; isValid: boolean; message?: string };
-    customerServiceNumber: { value: string; isValid: boolean; message?: string };
+  formattedValue: string;
+  errorMessage?: string;
+} => {
+  // Keep digits only (drops spaces, dashes and the leading +)
+  const digits = normalizeValue(mobile).replace(/\D/g, '');
+  
+  if (digits.length === 0) {
+    return {
+      isValid: false,
+      formattedValue: mobile.trim(),
+      errorMessage: 'Mobile number contains no digits'
+    };
+  }
+  
+  // Normalize Saudi mobile numbers to the local 05XXXXXXXX format
+  let localNumber = digits;
+  if (localNumber.startsWith('966')) {
+    localNumber = localNumber.substring(3);
+  }
+  if (localNumber.length === 9 && localNumber.startsWith('5')) {
+    localNumber = '0' + localNumber;
+  }
+  
+  if (/^05\d{8}$/.test(localNumber)) {
+    return {
+      isValid: true,
+      formattedValue: localNumber
+    };
+  }
+  
+  // Accept other international numbers by length only
+  if (digits.length >= 8 && digits.length <= 15) {
+    return {
+      isValid: true,
+      formattedValue: digits,
+      errorMessage: 'Not a Saudi mobile number - please verify'
+    };
+  }
+  
+  return {
+    isValid: false,
+    formattedValue: digits,
+    errorMessage: 'Mobile number must have between 8 and 15 digits'
   };
+};
+
+/**
+ * Validates an e-mail address
+ * @param email The e-mail address to validate
+ * @returns An object with validation result
+ */
+export const validateEmail = (email: string): {
+  isValid: boolean;
+  formattedValue: string;
+  errorMessage?: string;
 } => {
-  const nameValidation = validateCustomerName(data.customerName);
-  const amountValidation = validateAmount(data.refundAmount);
-  const ibanValidation = validateIBAN(data.ibanNumber);
-  const serviceValidation = validateServiceNumber(data.customerServiceNumber);
+  const cleanEmail = email.trim().toLowerCase();
   
-  const isValid = 
-    nameValidation.isValid && 
-    amountValidation.isValid && 
-    ibanValidation.isValid && 
-    serviceValidation.isValid;
+  if (!/^[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}$/.test(cleanEmail)) {
+    return {
+      isValid: false,
+      formattedValue: cleanEmail,
+      errorMessage: 'E-mail address format invalid'
+    };
+  }
   
   return {
-    isValid,
-    validatedData: {
-      customerName: {
-        value: nameValidation.formattedValue,
-        isValid: nameValidation.isValid,
-        message: nameValidation.errorMessage
-      },
-      refundAmount: {
-        value: amountValidation.formattedValue,
-        numericValue: amountValidation.numericValue,
-        isValid: amountValidation.isValid,
-        message: amountValidation.errorMessage
-      },
-      ibanNumber: {
-        value: ibanValidation.formattedValue,
-        bankName: ibanValidation.bankName,
-        isValid: ibanValidation.isValid,
-        message: ibanValidation.errorMessage
-      },
-      customerServiceNumber: {
-        value: serviceValidation.formattedValue,
-        isValid: serviceValidation.isValid,
-        message: serviceValidation.errorMessage
+    isValid: true,
+    formattedValue: cleanEmail
+  };
+};
+
+/**
+ * Validates a form date written as DD/MM/YYYY (or with - / . separators) or YYYY-MM-DD
+ * @param date The date string to validate
+ * @returns An object with validation result, formatted as YYYY-MM-DD
+ */
+export const validateDate = (date: string): {
+  isValid: boolean;
+  formattedValue: string;
+  errorMessage?: string;
+} => {
+  const cleanDate = normalizeValue(date).trim();
+  let day: number, month: number, year: number;
+  
+  const isoMatch = cleanDate.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const dayFirstMatch = cleanDate.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  
+  if (isoMatch) {
+    year = parseInt(isoMatch[1]);
+    month = parseInt(isoMatch[2]);
+    day = parseInt(isoMatch[3]);
+  } else if (dayFirstMatch) {
+    day = parseInt(dayFirstMatch[1]);
+    month = parseInt(dayFirstMatch[2]);
+    year = parseInt(dayFirstMatch[3]);
+    // Two-digit years are assumed to be in this century
+    if (year < 100) year += 2000;
+  } else {
+    return {
+      isValid: false,
+      formattedValue: cleanDate,
+      errorMessage: 'Date must be in DD/MM/YYYY or YYYY-MM-DD format'
+    };
+  }
+  
+  // Reject impossible dates such as 31/02
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  if (parsed.getUTCFullYear() !== year || parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) {
+    return {
+      isValid: false,
+      formattedValue: cleanDate,
+      errorMessage: 'Date is not a valid calendar date'
+    };
+  }
+  
+  return {
+    isValid: true,
+    formattedValue: parsed.toISOString().slice(0, 10)
+  };
+};
+
+/**
+ * Validates a free-text value such as a cancellation reason or bank name
+ * @param text The text to validate
+ * @param minLength Minimum number of characters required
+ * @returns An object with validation result
+ */
+export const validateText = (text: string, minLength: number = 3): {
+  isValid: boolean;
+  formattedValue: string;
+  errorMessage?: string;
+} => {
+  // Trim and remove multiple spaces
+  const cleanText = text.trim().replace(/\s+/g, ' ');
+  
+  if (cleanText.length < minLength) {
+    return {
+      isValid: false,
+      formattedValue: cleanText,
+      errorMessage: `Value must be at least ${minLength} characters`
+    };
+  }
+  
+  return {
+    isValid: true,
+    formattedValue: cleanText
+  };
+};
+
+/**
+ * Validates an amount written in words, in English or Arabic
+ * @param words The amount in words, e.g. "three hundred riyals and fifty halalas"
+ * @returns An object with validation result and the amount as a number
+ */
+export const validateAmountInWords = (words: string): {
+  isValid: boolean;
+  formattedValue: string;
+  numericValue: number;
+  language?: AmountWordsLanguage;
+  errorMessage?: string;
+} => {
+  const cleanWords = normalizeValue(words).trim().replace(/\s+/g, ' ');
+  const parsed = parseAmountInWords(cleanWords);
+  
+  if (!parsed) {
+    return {
+      isValid: false,
+      formattedValue: cleanWords,
+      numericValue: 0,
+      errorMessage: 'Not a riyal amount written in words'
+    };
+  }
+  
+  return {
+    isValid: true,
+    formattedValue: cleanWords,
+    numericValue: parsed.value,
+    language: parsed.language
+  };
+};
+
+/**
+ * Cross-checks the numeric refund amount against the amount written in words
+ * @param amount The amount in digits
+ * @param words The same amount written in words
+ * @returns Whether they agree, or null if either one can't be read
+ */
+export const crossCheckAmountInWords = (amount: string, words: string): {
+  matches: boolean;
+  amount: number;
+  wordsAmount: number;
+} | null => {
+  const numeric = validateAmount(amount);
+  const written = validateAmountInWords(words);
+  if (!numeric.isValid || !written.isValid) return null;
+  
+  return {
+    // Compare in halalas to avoid floating point noise
+    matches: Math.round(numeric.numericValue * 100) === Math.round(written.numericValue * 100),
+    amount: numeric.numericValue,
+    wordsAmount: written.numericValue
+  };
+};
+
+// Add validation for the full extraction result, keyed by field registry key.
+// Every field is validated, then the validation rules for the document's layout are checked;
+// the extraction is valid when no rule raised an error.
+export const validateExtractionData = (
+  data: Record<string, string>,
+  options: {
+    qualifiers?: Record<string, FieldQualifiers>; // Currency or identifier type of each field, keyed by field key
+    lineItems?: LineItemTable; // Refund table the refund amount should be the net of
+    layout?: string; // Detected layout name, selecting the layout's rule set
+    rules?: ValidationRule[]; // Rules to check instead of the active rule set
+  } = {}
+): {
+  isValid: boolean;
+  validatedData: Record<string, {
+    value: string;
+    isValid: boolean;
+    message?: string;
+    additionalInfo?: string;
+  }>;
+  findings: RuleFinding[];
+  // Warning findings keyed by the field the reviewer should check
+  warnings: Record<string, string[]>;
+} => {
+  const { qualifiers = {}, lineItems, layout } = options;
+  const rules = options.rules ?? getValidationRules(layout);
+  const validatedData: Record<string, {
+    value: string;
+    isValid: boolean;
+    message?: string;
+    additionalInfo?: string;
+  }> = {};
+  const validations: Record<string, FieldValidationResult> = {};
+  
+  for (const definition of fieldDefinitions) {
+    const value = data[definition.key];
+    if (value === undefined) continue;
+    
+    const validation = definition.validate(value, qualifiers[definition.key]);
+    validations[definition.key] = validation;
+    validatedData[definition.key] = {
+      value: validation.formattedValue,
+      isValid: validation.isValid,
+      message: validation.errorMessage,
+      additionalInfo: validation.additionalInfo
+    };
+  }
+  
+  const isMissing = (key: string) => {
+    const value = data[key]?.trim() ?? '';
+    return value === '' || value === getFieldDefinition(key)?.emptyValue;
+  };
+  const yesNo = (condition: boolean) => (condition ? 'yes' : 'no');
+  
+  // Value of a rule subject and the details its messages can use; undefined when it doesn't apply
+  const resolveSubject = (subject: string): { value: string; details?: Record<string, string> } | undefined => {
+    const [key, attribute] = subject.split('.');
+    if (data[key] === undefined || isMissing(key)) return undefined;
+    
+    const validation = validations[key];
+    if (!attribute) {
+      return { value: validation?.isValid ? validation.formattedValue : data[key] };
+    }
+    
+    // Amounts in words are always in riyals
+    const refundCurrency = qualifiers.refundAmount?.currency ?? DEFAULT_CURRENCY;
+    const amount = key === 'refundAmount' ? validateAmount(data.refundAmount, refundCurrency) : undefined;
+    const cleanIban = validation?.formattedValue.replace(/\s/g, '') ?? '';
+    
+    switch (subject) {
+      case 'refundAmount.matchesAmountInWords': {
+        if (data.amountInWords === undefined || refundCurrency !== 'SAR') return undefined;
+        const check = crossCheckAmountInWords(data.refundAmount, data.amountInWords);
+        return check ? {
+          value: yesNo(check.matches),
+          details: { amount: check.amount.toFixed(2), wordsAmount: check.wordsAmount.toFixed(2) }
+        } : undefined;
+      }
+      case 'refundAmount.lineItemsReconciled':
+        return lineItems ? {
+          value: yesNo(lineItems.reconciled),
+          details: { computedTotal: lineItems.computedTotal.toFixed(2), statedTotal: lineItems.statedTotal.toFixed(2) }
+        } : undefined;
+      case 'refundAmount.matchesLineItems':
+        return lineItems && amount?.isValid ? {
+          value: yesNo(Math.round(amount.numericValue * 100) === Math.round(lineItems.computedTotal * 100)),
+          details: { amount: amount.numericValue.toFixed(2), computedTotal: lineItems.computedTotal.toFixed(2) }
+        } : undefined;
+      case 'ibanNumber.bankCode':
+        return validation?.isValid && cleanIban.startsWith('SA') ? { value: cleanIban.substring(4, 6) } : undefined;
+      case 'ibanNumber.bankName': {
+        const bankName = validation?.isValid ? validateIBAN(data.ibanNumber).bankName : undefined;
+        return bankName ? { value: bankName } : undefined;
       }
+      case 'ibanNumber.country':
+        return validation?.isValid ? { value: cleanIban.substring(0, 2) } : undefined;
     }
+    
+    switch (attribute) {
+      case 'currency':
+        return { value: validation?.currency ?? qualifiers[key]?.currency ?? '' };
+      case 'identifierType':
+        return validation?.identifierType ? { value: validation.identifierType } : undefined;
+      case 'wordCount':
+        return { value: String(normalizeValue(data[key]).trim().split(/\s+/).length) };
+      default:
+        return undefined;
+    }
+  };
+  
+  const findings: RuleFinding[] = [];
+  for (const rule of rules) {
+    const key = rule.subject.split('.')[0];
+    if (data[key] === undefined) continue;
+    
+    const subject = resolveSubject(rule.subject);
+    const holds =
+      rule.condition === 'missing' ? isMissing(key) :
+      rule.condition === 'invalid' ? !isMissing(key) && validatedData[key]?.isValid === false :
+      subject !== undefined && conditionHolds(rule.condition, subject.value, rule.value);
+    if (!holds) continue;
+    
+    findings.push({
+      ruleId: rule.ruleId,
+      severity: rule.severity,
+      field: key,
+      message: formatRuleMessage(rule.message, {
+        label: getFieldDefinition(key)?.label ?? key,
+        value: subject?.value ?? data[key],
+        message: validatedData[key]?.message ?? '',
+        ...subject?.details
+      })
+    });
+  }
+  
+  const warnings: Record<string, string[]> = {};
+  for (const finding of findings) {
+    if (finding.severity === 'warning') {
+      warnings[finding.field] = [...(warnings[finding.field] ?? []), finding.message];
+    }
+  }
+  
+  return {
+    isValid: !findings.some(finding => finding.severity === 'error'),
+    validatedData,
+    findings,
+    warnings
   };
-};
\ No newline at end of file
+};
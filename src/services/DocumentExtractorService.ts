@@ -2,16 +2,65 @@ import * as mammoth from 'mammoth';
 import * as pdfjsLib from 'pdfjs-dist';
 import Tesseract from 'tesseract.js';
 import { processDocumentText } from '../utils/extractors';
-import { ExtractedData } from '../types';
+import { ExtractedData, OcrRegion, PageText, PreprocessingReport, PreprocessingSettings } from '../types';
+import { offlineAssetPaths, offlineAssetUrl } from '../utils/offlineAssets';
+import { DEFAULT_OCR_LANGUAGE, createOcrRegion, joinOcrRegions } from '../utils/ocrRegions';
+import { countTextCharacters, needsOcr } from '../utils/pageText';
+import { GrayImage, downscale, preprocessImage, rotateQuarterTurns, toGrayscale, toRgba } from '../utils/imagePreprocessing';
 
-// Initialize PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
+// Initialize PDF.js worker from the app's own build
+pdfjsLib.GlobalWorkerOptions.workerSrc = offlineAssetUrl(offlineAssetPaths.pdfWorker);
+
+// Scanned pages are rendered at 300 dpi for OCR (PDF units are 1/72 inch)
+const OCR_RENDER_SCALE = 300 / 72;
+
+// Longest side images are preprocessed at; larger photos are scaled down first
+const MAX_PREPROCESS_SIZE = 3500;
+
+// Size of the copies OCR compares to tell an upright page from an upside-down one, and the
+// confidence points the turned copy must win by
+const ORIENTATION_CHECK_SIZE = 1000;
+const ORIENTATION_MARGIN = 5;
+
+type CanvasAndContext = { canvas: OffscreenCanvas | null; context: OffscreenCanvasRenderingContext2D | null };
+
+// Canvases for PDF.js when rendering inside a worker, where there is no DOM
+class OffscreenCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number): void {
+    if (!canvasAndContext.canvas) return;
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: CanvasAndContext): void {
+    if (canvasAndContext.canvas) {
+      // Zero-sized canvases release their memory right away
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+const toCanvas = (image: GrayImage): OffscreenCanvas => {
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  canvas.getContext('2d')!.putImageData(new ImageData(toRgba(image), image.width, image.height), 0, 0);
+  return canvas;
+};
 
 /**
  * Service for extracting text from different document formats
  */
 class DocumentExtractorService {
   private static instance: DocumentExtractorService;
+  private ocrWorkers = new Map<string, Promise<Tesseract.Worker>>(); // By language
+  private ocrProgress: ((progress: number) => void) | null = null;
 
   private constructor() {
     // Private constructor for singleton
@@ -25,18 +74,34 @@ class DocumentExtractorService {
   }
 
   /**
-   * Extract text from a file based on its type
+   * Extract text from a file based on its type, reporting progress from 0 to 1
    */
-  async extractText(file: File): Promise<string> {
+  async extractText(
+    file: File,
+    onProgress?: (progress: number) => void,
+    preprocessing?: PreprocessingSettings
+  ): Promise<string> {
+    return (await this.extractDocument(file, onProgress, preprocessing)).text;
+  }
+
+  /**
+   * Extract text from a file, along with the text blocks OCR found for images. Images and
+   * scanned pages are cleaned up with the given preprocessing settings before OCR.
+   */
+  async extractDocument(
+    file: File,
+    onProgress?: (progress: number) => void,
+    preprocessing?: PreprocessingSettings
+  ): Promise<{ text: string; regions?: OcrRegion[]; pages?: PageText[]; preprocessing?: PreprocessingReport }> {
     const fileType = file.type;
     
     // Process based on file type
     if (fileType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-      return this.extractFromWord(file);
+      return { text: await this.extractFromWord(file) };
     } else if (fileType === 'application/pdf') {
-      return this.extractFromPDF(file);
+      return this.extractFromPDF(file, onProgress, preprocessing);
     } else if (fileType.startsWith('image/')) {
-      return this.extractFromImage(file);
+      return this.extractFromImage(file, onProgress, preprocessing);
     } else {
       throw new Error(`Unsupported file type: ${fileType}`);
     }
@@ -57,46 +122,240 @@ class DocumentExtractorService {
   }
 
   /**
-   * Extract text from PDF document
+   * Extract text from PDF document, page by page: from the text layer, or by OCR for scanned
+   * pages that have no text layer to speak of
    */
-  private async extractFromPDF(file: File): Promise<string> {
+  private async extractFromPDF(
+    file: File,
+    onProgress?: (progress: number) => void,
+    preprocessing?: PreprocessingSettings
+  ): Promise<{ text: string; pages: PageText[] }> {
     try {
       const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+      const inWorker = typeof document === 'undefined';
+      const pdf = await pdfjsLib.getDocument({
+        data: arrayBuffer,
+        // Without a DOM, pages are rendered to offscreen canvases and fonts drawn as paths
+        ...(inWorker ? { CanvasFactory: OffscreenCanvasFactory, disableFontFace: true } : {})
+      }).promise;
       
       let fullText = '';
+      const pages: PageText[] = [];
       
       // Extract text from each page
       for (let i = 1; i <= pdf.numPages; i++) {
         const page = await pdf.getPage(i);
         const textContent = await page.getTextContent();
-        const pageText = textContent.items
+        let pageText = textContent.items
           .map((item: any) => item.str)
           .join(' ');
+        let pageInfo: PageText = { page: i, method: 'textLayer', characters: countTextCharacters(pageText) };
+        
+        if (needsOcr(pageText)) {
+          const ocr = await this.ocrPdfPage(page, progress => onProgress?.((i - 1 + progress) / pdf.numPages), preprocessing);
+          const characters = countTextCharacters(ocr.text);
+          if (characters > pageInfo.characters) {
+            pageText = ocr.text;
+            pageInfo = { page: i, method: 'ocr', characters, ocrConfidence: ocr.confidence };
+          }
+        }
           
-        fullText += pageText + '\n\n';
+        // Form feed marks the page break so extracted values can be traced back to their page
+        fullText += pageText + '\n\f\n';
+        pages.push(pageInfo);
+        onProgress?.(i / pdf.numPages);
       }
       
-      return fullText;
+      await pdf.destroy();
+      return { text: fullText, pages };
     } catch (error) {
       console.error('Error extracting text from PDF:', error);
-      throw new Error('Failed to extract text from PDF');
+      throw new Error(`Failed to extract text from PDF: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
-   * Extract text from image using OCR
+   * Render a PDF page and read it with OCR
    */
-  private async extractFromImage(file: File): Promise<string> {
+  private async ocrPdfPage(
+    page: pdfjsLib.PDFPageProxy,
+    onProgress?: (progress: number) => void,
+    preprocessing?: PreprocessingSettings
+  ): Promise<{ text: string; confidence: number }> {
+    const worker = await this.getOcrWorker(DEFAULT_OCR_LANGUAGE);
+    const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+    const canvasFactory = new OffscreenCanvasFactory();
+    const canvasAndContext = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
     try {
-      const result = await Tesseract.recognize(file, 'eng');
-      return result.data.text;
+      await page.render({
+        canvasContext: canvasAndContext.context as unknown as CanvasRenderingContext2D,
+        viewport
+      }).promise;
+
+      const image = preprocessing?.enabled
+        ? (await this.preprocess(canvasAndContext.canvas!, preprocessing)).canvas
+        : canvasAndContext.canvas!;
+
+      this.ocrProgress = onProgress ?? null;
+      const result = await worker.recognize(image);
+      return { text: result.data.text, confidence: result.data.confidence };
+    } finally {
+      this.ocrProgress = null;
+      canvasFactory.destroy(canvasAndContext);
+      page.cleanup();
+    }
+  }
+
+  /**
+   * Tesseract worker for a language combination, created on first use and reused for every
+   * later image. Its script, engine and language data are served with the app rather than
+   * from a CDN.
+   */
+  private async getOcrWorker(language: string): Promise<Tesseract.Worker> {
+    let worker = this.ocrWorkers.get(language);
+    if (!worker) {
+      worker = Tesseract.createWorker(language.split('+'), undefined, {
+        workerPath: offlineAssetUrl(offlineAssetPaths.ocrWorker),
+        corePath: offlineAssetUrl(offlineAssetPaths.ocrCore),
+        langPath: offlineAssetUrl(offlineAssetPaths.ocrLanguages),
+        workerBlobURL: false,
+        logger: message => {
+          if (message.status === 'recognizing text') this.ocrProgress?.(message.progress);
+        }
+      });
+      this.ocrWorkers.set(language, worker);
+    }
+
+    try {
+      return await worker;
+    } catch (error) {
+      this.ocrWorkers.delete(language);
+      console.error('Error loading the OCR engine:', error);
+      throw new Error(`Failed to load the OCR engine or its language data from ${offlineAssetUrl(offlineAssetPaths.ocrCore)} and ${offlineAssetUrl(offlineAssetPaths.ocrLanguages)}`);
+    }
+  }
+
+  /**
+   * Extract text from image using Arabic and English OCR, block by block
+   */
+  private async extractFromImage(
+    file: File,
+    onProgress?: (progress: number) => void,
+    preprocessing?: PreprocessingSettings
+  ): Promise<{ text: string; regions?: OcrRegion[]; preprocessing?: PreprocessingReport }> {
+    const worker = await this.getOcrWorker(DEFAULT_OCR_LANGUAGE);
+
+    try {
+      const { image, report } = await this.prepareImage(file, preprocessing);
+      this.ocrProgress = onProgress ?? null;
+      const result = await worker.recognize(image);
+      const regions = (result.data.blocks ?? [])
+        .map(block => createOcrRegion(block.text, DEFAULT_OCR_LANGUAGE, block.confidence, block.bbox))
+        .filter(region => region.text);
+
+      return regions.length > 0
+        ? { text: joinOcrRegions(regions), regions, preprocessing: report }
+        : { text: result.data.text, preprocessing: report };
     } catch (error) {
       console.error('Error extracting text from image:', error);
       throw new Error('Failed to extract text from image');
+    } finally {
+      this.ocrProgress = null;
+    }
+  }
+
+  /**
+   * Read one region of an image again, with the given Tesseract languages. The region is
+   * located in the image as preprocessed with the same settings as the first time.
+   */
+  async readImageRegion(
+    file: File,
+    bbox: OcrRegion['bbox'],
+    language: string,
+    preprocessing?: PreprocessingSettings
+  ): Promise<{ text: string; confidence: number }> {
+    const worker = await this.getOcrWorker(language);
+
+    try {
+      const { image } = await this.prepareImage(file, preprocessing);
+      const result = await worker.recognize(image, {
+        rectangle: { left: bbox.x0, top: bbox.y0, width: bbox.x1 - bbox.x0, height: bbox.y1 - bbox.y0 }
+      });
+      return { text: result.data.text.trim(), confidence: result.data.confidence };
+    } catch (error) {
+      console.error('Error reading image region:', error);
+      throw new Error('Failed to read the region of the image');
+    }
+  }
+
+  /**
+   * The image OCR reads: the file itself, or a cleaned-up copy when preprocessing is enabled
+   */
+  private async prepareImage(
+    file: File,
+    settings?: PreprocessingSettings
+  ): Promise<{ image: File | OffscreenCanvas; report?: PreprocessingReport }> {
+    if (!settings?.enabled) return { image: file };
+
+    const bitmap = await createImageBitmap(file);
+    try {
+      const { canvas, report } = await this.preprocess(bitmap, settings);
+      return { image: canvas, report };
+    } finally {
+      bitmap.close();
     }
   }
 
+  /**
+   * Image preview of what preprocessing does to an image file
+   */
+  async previewPreprocessing(
+    file: File,
+    settings: PreprocessingSettings
+  ): Promise<{ image: Blob; report?: PreprocessingReport }> {
+    const { image, report } = await this.prepareImage(file, settings);
+    return { image: image instanceof File ? image : await image.convertToBlob({ type: 'image/png' }), report };
+  }
+
+  /**
+   * Run the preprocessing pipeline on a bitmap or rendered page
+   */
+  private async preprocess(
+    source: ImageBitmap | OffscreenCanvas,
+    settings: PreprocessingSettings
+  ): Promise<{ canvas: OffscreenCanvas; report: PreprocessingReport }> {
+    const scale = Math.min(1, MAX_PREPROCESS_SIZE / Math.max(source.width, source.height));
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d')!;
+    context.drawImage(source, 0, 0, width, height);
+
+    const gray = toGrayscale(context.getImageData(0, 0, width, height).data, width, height);
+    let { image, report } = preprocessImage(gray, settings);
+
+    // Whether the page is upside down only shows in how well OCR reads it
+    if (settings.enabled && settings.orientation && await this.isUpsideDown(image)) {
+      image = rotateQuarterTurns(image, 2);
+      report = { ...report, rotation: (report.rotation + 180) % 360 };
+    }
+
+    return { canvas: toCanvas(image), report };
+  }
+
+  /**
+   * True when OCR reads a small copy of the image clearly better turned around
+   */
+  private async isUpsideDown(image: GrayImage): Promise<boolean> {
+    const worker = await this.getOcrWorker(DEFAULT_OCR_LANGUAGE);
+    const { image: small } = downscale(image, ORIENTATION_CHECK_SIZE);
+
+    const upright = await worker.recognize(toCanvas(small));
+    const turned = await worker.recognize(toCanvas(rotateQuarterTurns(small, 2)));
+    return turned.data.confidence > upright.data.confidence + ORIENTATION_MARGIN;
+  }
+
   /**
    * Process document to extract structured data
    */
@@ -1,10 +1,16 @@
 import Dexie from 'dexie';
-import { ExtractedData } from '../types';
+import { AuditEntry, DuplicateLink, ExtractedData, ReviewStatus, UserProfile } from '../types';
+import { findDuplicates } from '../utils/duplicateDetection';
+import { FraudAlert, FraudAlertAcknowledgement, findFraudAlerts, isAcknowledgedBy } from '../utils/fraudSignals';
+import { describeScreening } from '../utils/watchlist';
+import { applyReviewStatus, getReviewStatus, initialReviewState, reviewStatusLabels, transitionBlocker } from '../utils/reviewWorkflow';
 
 // Define the document storage database
 class DocumentDatabase extends Dexie {
   documents: Dexie.Table<StoredDocument, string>;
   extractionResults: Dexie.Table<ExtractedData, string>;
+  fraudAlertAcknowledgements: Dexie.Table<FraudAlertAcknowledgement, string>;
+  auditTrail: Dexie.Table<AuditEntry, number>;
 
   constructor() {
     super('TreasuryExtractorDocuments');
@@ -14,8 +20,24 @@ class DocumentDatabase extends Dexie {
       extractionResults: 'id, fileName, timestamp'
     });
     
+    // Content hashes to recognise a file that was uploaded before; documents stored
+    // earlier have no hash and are only compared on their extracted fields
+    this.version(2).stores({
+      documents: 'id, fileName, mimeType, size, timestamp, contentHash'
+    });
+    
+    this.version(3).stores({
+      fraudAlertAcknowledgements: 'alertId, acknowledgedAt'
+    });
+    
+    this.version(4).stores({
+      auditTrail: '++id, documentId, action, timestamp'
+    });
+    
     this.documents = this.table('documents');
     this.extractionResults = this.table('extractionResults');
+    this.fraudAlertAcknowledgements = this.table('fraudAlertAcknowledgements');
+    this.auditTrail = this.table('auditTrail');
   }
 }
 
@@ -26,6 +48,7 @@ interface StoredDocument {
   mimeType: string;
   size: number;
   data: ArrayBuffer;
+  contentHash?: string; // SHA-256 of the file content
   objectUrl?: string;
   timestamp: string;
 }
@@ -87,6 +110,14 @@ class DocumentManager {
     return id;
   }
   
+  // SHA-256 of a file's content as a hex string
+  private async hashContent(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+  
   // Store a document in the database
   async storeDocument(file: File): Promise<string> {
     try {
@@ -95,6 +126,7 @@ class DocumentManager {
       
       // Read the file as ArrayBuffer
       const data = await file.arrayBuffer();
+      const contentHash = await this.hashContent(data);
       
       // Create object URL for preview
       const objectUrl = URL.createObjectURL(file);
@@ -106,6 +138,7 @@ class DocumentManager {
         mimeType: file.type,
         size: file.size,
         data,
+        contentHash,
         objectUrl,
         timestamp: new Date().toISOString()
       });
@@ -233,23 +266,252 @@ class DocumentManager {
     }
   }
   
-  // Store extraction results
-  async storeExtractionResults(results: ExtractedData): Promise<void> {
+  // Store extraction results, linking them with stored results that look like the same refund.
+  // Returns the results with their suspected duplicates.
+  async storeExtractionResults(results: ExtractedData): Promise<ExtractedData> {
     try {
       // Make sure document exists in database before storing results
-      const docExists = await db.documents.get(results.id);
-      if (!docExists) {
+      const doc = await db.documents.get(results.id);
+      if (!doc) {
         console.warn(`Storing extraction results for document ${results.id} which isn't in the database.`);
       }
       
-      await db.extractionResults.put(results);
+      // Read the stored results in the same transaction that writes the links, so results stored
+      // at the same time by the batch queue see each other
+      const { previous, duplicates, review, resultsWithDuplicates } = await db.transaction('rw', db.extractionResults, db.documents, async () => {
+        // Documents with the same content as this one
+        const sameFileIds = doc?.contentHash
+          ? (await db.documents.where('contentHash').equals(doc.contentHash).primaryKeys()).filter(id => id !== results.id)
+          : [];
+        
+        // Earlier links of reprocessed results carry the reviewer's acknowledgements over
+        const storedResults = await db.extractionResults.toArray();
+        const previous = storedResults.find(stored => stored.id === results.id);
+        const duplicates = findDuplicates(
+          { ...results, duplicates: results.duplicates ?? previous?.duplicates },
+          storedResults,
+          sameFileIds
+        );
+        // Reprocessing or correcting a result keeps its place in the review workflow, and with it
+        // the decisions that got it there
+        const review = results.review ?? previous?.review ?? initialReviewState(results.timestamp);
+        const approval = results.approval ?? previous?.approval;
+        const resultsWithDuplicates: ExtractedData = { ...results, duplicates, review, ...(approval ? { approval } : {}) };
+        
+        await db.extractionResults.put(resultsWithDuplicates);
+        
+        // Keep the link on the other side in step: add it to new duplicates, update its reasons,
+        // and remove it from results that no longer match after a correction
+        for (const stored of storedResults) {
+          if (stored.id === results.id) continue;
+          
+          const link = duplicates.find(duplicate => duplicate.id === stored.id);
+          const existing = stored.duplicates?.find(duplicate => duplicate.id === results.id);
+          if (!link && !existing) continue;
+          
+          const otherLinks = (stored.duplicates ?? []).filter(duplicate => duplicate.id !== results.id);
+          const backLink: DuplicateLink | null = link ? {
+            id: results.id,
+            fileName: results.fileName,
+            timestamp: results.timestamp,
+            reasons: link.reasons,
+            ...(link.acknowledged ? { acknowledged: true } : {})
+          } : null;
+          
+          await db.extractionResults.update(stored.id, {
+            duplicates: backLink ? [...otherLinks, backLink] : otherLinks
+          });
+        }
+        
+        return { previous, duplicates, review, resultsWithDuplicates };
+      });
+      
+      // A correction can send a verified or approved result back to review
+      if (previous && getReviewStatus(previous) !== review.status) {
+        await this.recordAudit(
+          results.id,
+          'statusChange',
+          `${reviewStatusLabels[getReviewStatus(previous)]} → ${reviewStatusLabels[review.status]}${review.note ? `: ${review.note}` : ''}`,
+          review.changedBy
+        );
+      }
+      
+      // Every screening is recorded, including the ones that came back clear
+      if (results.screening && results.screening.screenedAt !== previous?.screening?.screenedAt) {
+        await this.recordAudit(results.id, 'screening', describeScreening(results.screening));
+      }
+      
+      if (duplicates.length > 0) {
+        console.warn(`Document ${results.id} looks like a duplicate of:`, duplicates.map(duplicate => duplicate.fileName));
+      }
       console.log("Stored extraction results for document:", results.id);
+      return resultsWithDuplicates;
     } catch (error) {
       console.error('Error storing extraction results:', error);
       throw error;
     }
   }
   
+  // Record that a reviewer confirmed two suspected duplicates are separate refunds, on both results.
+  // Returns the updated results of the first document.
+  async acknowledgeDuplicate(id: string, duplicateId: string): Promise<ExtractedData | null> {
+    try {
+      const acknowledge = (links: DuplicateLink[] | undefined, otherId: string) =>
+        (links ?? []).map(link => link.id === otherId ? { ...link, acknowledged: true } : link);
+      
+      return await db.transaction('rw', db.extractionResults, async () => {
+        const results = await db.extractionResults.get(id);
+        if (!results) return null;
+        
+        const updated = { ...results, duplicates: acknowledge(results.duplicates, duplicateId) };
+        await db.extractionResults.put(updated);
+        
+        const other = await db.extractionResults.get(duplicateId);
+        if (other) {
+          await db.extractionResults.update(duplicateId, { duplicates: acknowledge(other.duplicates, id) });
+        }
+        return updated;
+      });
+    } catch (error) {
+      console.error('Error acknowledging duplicate:', error);
+      throw error;
+    }
+  }
+  
+  // Release a watchlist hold after a reviewer has checked the hits, recording who released it.
+  // Returns the updated results.
+  async releaseScreeningHold(id: string, reason: string, user: UserProfile): Promise<ExtractedData | null> {
+    try {
+      const results = await db.extractionResults.get(id);
+      if (!results?.screening || results.screening.status !== 'hold') return results ?? null;
+      
+      const updated: ExtractedData = {
+        ...results,
+        screening: {
+          ...results.screening,
+          status: 'released',
+          releasedAt: new Date().toISOString(),
+          releaseReason: reason,
+          releasedBy: { userId: user.id!, userName: user.name }
+        }
+      };
+      await db.extractionResults.put(updated);
+      await this.recordAudit(id, 'screeningRelease', `Watchlist hold released: ${reason}`, user.name);
+      return updated;
+    } catch (error) {
+      console.error('Error releasing screening hold:', error);
+      throw error;
+    }
+  }
+  
+  // Move documents to a review status as a user. Documents the workflow or the maker-checker rule
+  // doesn't let the user move are left as they are and returned with the reason.
+  async setReviewStatus(
+    ids: string[],
+    status: ReviewStatus,
+    user: UserProfile,
+    note?: string
+  ): Promise<{ updated: ExtractedData[]; refused: { id: string; reason: string }[] }> {
+    try {
+      const updated: ExtractedData[] = [];
+      const refused: { id: string; reason: string }[] = [];
+      
+      await db.transaction('rw', db.extractionResults, db.auditTrail, async () => {
+        for (const id of ids) {
+          const results = await db.extractionResults.get(id);
+          if (!results) continue;
+          
+          const blocker = transitionBlocker(results, status, user, note);
+          const moved = blocker ? null : applyReviewStatus(results, status, user, note);
+          if (!moved) {
+            refused.push({ id, reason: blocker ?? `${results.fileName} can't be moved` });
+            continue;
+          }
+          
+          await db.extractionResults.put(moved);
+          await this.recordAudit(
+            id,
+            'statusChange',
+            `${reviewStatusLabels[getReviewStatus(results)]} → ${reviewStatusLabels[status]}${note ? `: ${note}` : ''}`,
+            user.name
+          );
+          updated.push(moved);
+        }
+      });
+      
+      return { updated, refused };
+    } catch (error) {
+      console.error('Error changing review status:', error);
+      throw error;
+    }
+  }
+  
+  // Add an entry to a document's audit trail
+  async recordAudit(documentId: string, action: AuditEntry['action'], details: string, actor?: string): Promise<void> {
+    try {
+      await db.auditTrail.add({
+        documentId,
+        action,
+        details,
+        timestamp: new Date().toISOString(),
+        ...(actor ? { actor } : {})
+      });
+    } catch (error) {
+      console.error('Error recording audit entry:', error);
+      throw error;
+    }
+  }
+  
+  // A document's audit trail, oldest first
+  async getAuditTrail(documentId: string): Promise<AuditEntry[]> {
+    try {
+      return await db.auditTrail.where('documentId').equals(documentId).sortBy('timestamp');
+    } catch (error) {
+      console.error('Error retrieving audit trail:', error);
+      return [];
+    }
+  }
+  
+  // Fraud alerts over all stored results, with the acknowledgement that still covers each
+  async getFraudAlerts(): Promise<FraudAlert[]> {
+    try {
+      const storedResults = await db.extractionResults.toArray();
+      const acknowledgements = await db.fraudAlertAcknowledgements.toArray();
+      
+      return findFraudAlerts(storedResults).map(alert => {
+        const acknowledgement = acknowledgements.find(candidate => isAcknowledgedBy(alert, candidate));
+        return acknowledgement ? { ...alert, acknowledgement } : alert;
+      });
+    } catch (error) {
+      console.error('Error finding fraud alerts:', error);
+      return [];
+    }
+  }
+  
+  // Record that a reviewer looked into an alert, in the audit trail of each of its documents; it is
+  // raised again if more documents join it
+  async acknowledgeFraudAlert(alert: FraudAlert, user: UserProfile, note?: string): Promise<FraudAlertAcknowledgement> {
+    try {
+      const acknowledgement: FraudAlertAcknowledgement = {
+        alertId: alert.alertId,
+        documentIds: alert.documents.map(document => document.id),
+        acknowledgedAt: new Date().toISOString(),
+        acknowledgedBy: { userId: user.id!, userName: user.name },
+        ...(note ? { note } : {})
+      };
+      await db.transaction('rw', db.fraudAlertAcknowledgements, db.auditTrail, async () => {
+        await db.fraudAlertAcknowledgements.put(acknowledgement);
+        for (const document of alert.documents) {
+          await this.recordAudit(document.id, 'fraudAcknowledgement', `${alert.message}${note ? `: ${note}` : ''}`, user.name);
+        }
+      });
+      return acknowledgement;
+    } catch (error) {
+      console.error('Error acknowledging fraud alert:', error);
+      throw error;
+    }
+  }
+  
   // Get all documents
   async getAllDocuments(): Promise<{ id: string; fileName: string; timestamp: string }[]> {
     try {
@@ -309,8 +571,16 @@ class DocumentManager {
         this.documentCache.delete(id);
       }
       
+      // The audit trail is kept
       await db.documents.delete(id);
       await db.extractionResults.delete(id);
+      
+      // Drop links to the deleted document from its suspected duplicates
+      await db.extractionResults.toCollection().modify(results => {
+        if (results.duplicates?.some(link => link.id === id)) {
+          results.duplicates = results.duplicates.filter(link => link.id !== id);
+        }
+      });
     } catch (error) {
       console.error('Error deleting document:', error);
       throw error;
@@ -339,6 +609,8 @@ class DocumentManager {
       this.documentCache.clear();
       await db.documents.clear();
       await db.extractionResults.clear();
+      await db.fraudAlertAcknowledgements.clear();
+      await db.auditTrail.clear();
     } catch (error) {
       console.error('Error clearing all data:', error);
       throw error;
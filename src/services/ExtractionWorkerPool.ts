@@ -0,0 +1,177 @@
+import TrainingService from './TrainingService';
+import { ExtractedData, OcrRegion, PreprocessingReport, PreprocessingSettings } from '../types';
+import { ExtractionRequest, ExtractionResponse } from '../workers/extractionMessages';
+
+interface ExtractionOptions {
+  signal?: AbortSignal; // Aborting cancels the extraction, stopping its worker if it has started
+  onProgress?: (progress: number) => void; // 0-1
+  textOnly?: boolean;
+  region?: ExtractionRequest['region']; // Read only this region of an image, with its languages
+  documentText?: ExtractionRequest['documentText']; // Extract the fields from this text, e.g. after a region was read again
+  preprocessing?: PreprocessingSettings; // How images and scanned pages are cleaned up before OCR
+  preview?: boolean; // Only preprocess the image and return it
+}
+
+interface ExtractionResult {
+  text: string;
+  data?: ExtractedData;
+  regions?: OcrRegion[]; // Text blocks of images
+  confidence?: number; // OCR confidence of a region read again
+  preprocessing?: PreprocessingReport; // What preprocessing did to an image
+  preview?: Blob; // The preprocessed image
+}
+
+interface ExtractionTask {
+  id: string;
+  file: File;
+  options: ExtractionOptions;
+  resolve: (result: ExtractionResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: ExtractionTask | null;
+}
+
+// Workers kept at most; the batch queue decides how many documents are extracted at once
+const MAX_WORKERS = Math.max(1, Math.min(8, navigator.hardwareConcurrency || 2));
+
+// Runs text extraction, OCR and field extraction in Web Workers so the page stays responsive.
+// Idle workers are reused, and with them their OCR engine.
+class ExtractionWorkerPool {
+  private static instance: ExtractionWorkerPool;
+  private workers: PoolWorker[] = [];
+  private waiting: ExtractionTask[] = [];
+  private nextTaskId = 0;
+  private trainingReady: Promise<void> | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): ExtractionWorkerPool {
+    if (!ExtractionWorkerPool.instance) {
+      ExtractionWorkerPool.instance = new ExtractionWorkerPool();
+    }
+    return ExtractionWorkerPool.instance;
+  }
+
+  // Extract a document's text and fields; with textOnly, only the text
+  extract(file: File, options: ExtractionOptions = {}): Promise<ExtractionResult> {
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new Error(`Extraction of ${file.name} was cancelled`));
+        return;
+      }
+
+      const task: ExtractionTask = { id: `task_${++this.nextTaskId}`, file, options, resolve, reject };
+      options.signal?.addEventListener('abort', () => this.cancel(task), { once: true });
+      this.waiting.push(task);
+      this.prepareTraining().then(() => this.dispatch());
+    });
+  }
+
+  // Seed the training data here on the main thread before any worker reads it; workers running
+  // side by side would otherwise race to seed an empty database
+  private prepareTraining(): Promise<void> {
+    if (!this.trainingReady) {
+      this.trainingReady = TrainingService.getInstance().initialize().catch(error => {
+        console.error('Failed to prepare the training data for extraction:', error);
+        this.trainingReady = null;
+      });
+    }
+    return this.trainingReady;
+  }
+
+  // Hand waiting tasks to idle workers, starting workers up to the limit
+  private dispatch(): void {
+    while (this.waiting.length > 0) {
+      let poolWorker = this.workers.find(candidate => !candidate.task);
+      if (!poolWorker) {
+        if (this.workers.length >= MAX_WORKERS) return;
+        poolWorker = this.startWorker();
+      }
+
+      const task = this.waiting.shift()!;
+      poolWorker.task = task;
+      const request: ExtractionRequest = {
+        taskId: task.id,
+        file: task.file,
+        textOnly: task.options.textOnly,
+        region: task.options.region,
+        documentText: task.options.documentText,
+        preprocessing: task.options.preprocessing,
+        preview: task.options.preview,
+        trainingVersion: TrainingService.getInstance().getDataVersion()
+      };
+      poolWorker.worker.postMessage(request);
+    }
+  }
+
+  private startWorker(): PoolWorker {
+    const worker = new Worker(new URL('../workers/extractionWorker.ts', import.meta.url), { type: 'module' });
+    const poolWorker: PoolWorker = { worker, task: null };
+
+    worker.onmessage = (event: MessageEvent<ExtractionResponse>) => {
+      const message = event.data;
+      const task = poolWorker.task;
+      if (!task || task.id !== message.taskId) return;
+
+      if (message.type === 'progress') {
+        task.options.onProgress?.(message.progress);
+        return;
+      }
+
+      poolWorker.task = null;
+      if (message.type === 'result') {
+        task.options.onProgress?.(1);
+        task.resolve({
+          text: message.text,
+          data: message.data,
+          regions: message.regions,
+          confidence: message.confidence,
+          preprocessing: message.preprocessing,
+          preview: message.preview
+        });
+      } else {
+        task.reject(new Error(message.message));
+      }
+      this.dispatch();
+    };
+
+    // A worker that crashed is replaced
+    worker.onerror = (event: ErrorEvent) => {
+      console.error('Extraction worker failed:', event.message);
+      const task = poolWorker.task;
+      this.stopWorker(poolWorker);
+      task?.reject(new Error(event.message || `Extraction of ${task.file.name} failed`));
+      this.dispatch();
+    };
+
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  private stopWorker(poolWorker: PoolWorker): void {
+    poolWorker.worker.terminate();
+    this.workers = this.workers.filter(candidate => candidate !== poolWorker);
+  }
+
+  // A waiting task is dropped; a running one stops its worker, which is replaced when needed
+  private cancel(task: ExtractionTask): void {
+    const running = this.workers.find(candidate => candidate.task === task);
+    if (running) {
+      this.stopWorker(running);
+    } else if (this.waiting.includes(task)) {
+      this.waiting = this.waiting.filter(candidate => candidate !== task);
+    } else {
+      return;
+    }
+
+    task.reject(new Error(`Extraction of ${task.file.name} was cancelled`));
+    this.dispatch();
+  }
+}
+
+export default ExtractionWorkerPool;
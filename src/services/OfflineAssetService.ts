@@ -0,0 +1,21 @@
+// Checks that the files PDF and image extraction depend on are served with the app
+import { OfflineAsset, offlineAssetUrl, requiredOfflineAssets } from '../utils/offlineAssets';
+
+/**
+ * Requests every required asset, from the service worker's cache when the app is installed
+ * @returns The assets that could not be loaded, with the URL they were expected at
+ */
+export const findMissingOfflineAssets = async (): Promise<(OfflineAsset & { url: string })[]> => {
+  const results = await Promise.all(requiredOfflineAssets.map(async asset => {
+    const url = offlineAssetUrl(asset.path);
+    try {
+      const response = await fetch(url, { method: 'HEAD' });
+      return response.ok ? null : { ...asset, url };
+    } catch (error) {
+      console.error(`Error checking ${asset.label} at ${url}:`, error);
+      return { ...asset, url };
+    }
+  }));
+
+  return results.filter((result): result is OfflineAsset & { url: string } => result !== null);
+};
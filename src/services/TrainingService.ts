@@ -1,12 +1,21 @@
-import Dexie from 'dexie';
+import Dexie, { Transaction } from 'dexie';
 import Fuse from 'fuse.js';
-import { ExtractedData } from '../types';
+import { fieldDefinitions, getFieldDefinition } from '../utils/fieldDefinitions';
+import { currencyPatternSource } from '../utils/currencies';
+import {
+  ServiceIdentifierType,
+  defaultServiceIdentifierTypes,
+  setServiceIdentifierTypes
+} from '../utils/serviceIdentifiers';
+import { ValidationRule, defaultValidationRules, setValidationRules } from '../utils/validationRules';
 
 // Define the database schema using Dexie
 class TrainingDatabase extends Dexie {
   trainingExamples: Dexie.Table<TrainingExample, number>;
   extractionPatterns: Dexie.Table<ExtractionPattern, number>;
   correctionHistory: Dexie.Table<CorrectionRecord, number>;
+  serviceIdentifierTypes: Dexie.Table<ServiceIdentifierType, number>;
+  validationRules: Dexie.Table<ValidationRule, number>;
 
   constructor() {
     super('TreasuryExtractorTraining');
@@ -18,16 +27,28 @@ class TrainingDatabase extends Dexie {
       correctionHistory: '++id, fieldType, originalValue, correctedValue, documentId, confidence, timestamp'
     });
     
+    // Registry of service identifier types (FTTH, DSL, landline, ...)
+    this.version(3).stores({
+      serviceIdentifierTypes: '++id, &key, priority'
+    });
+    
+    // Validation rules checked against every extraction result
+    this.version(4).stores({
+      validationRules: '++id, &ruleId, subject, severity'
+    });
+    
     this.trainingExamples = this.table('trainingExamples');
     this.extractionPatterns = this.table('extractionPatterns');
     this.correctionHistory = this.table('correctionHistory');
+    this.serviceIdentifierTypes = this.table('serviceIdentifierTypes');
+    this.validationRules = this.table('validationRules');
   }
 }
 
 // Training example interface
 interface TrainingExample {
   id?: number;
-  fieldType: 'customerName' | 'refundAmount' | 'ibanNumber' | 'customerServiceNumber';
+  fieldType: string;
   pattern: string;
   value: string;
   context?: string;
@@ -38,7 +59,7 @@ interface TrainingExample {
 // Extraction pattern interface
 interface ExtractionPattern {
   id?: number;
-  fieldType: 'customerName' | 'refundAmount' | 'ibanNumber' | 'customerServiceNumber';
+  fieldType: string;
   patternRegex: string;
   priority: number;
   successRate: number;
@@ -49,7 +70,7 @@ interface ExtractionPattern {
 // Correction record interface
 interface CorrectionRecord {
   id?: number;
-  fieldType: 'customerName' | 'refundAmount' | 'ibanNumber' | 'customerServiceNumber';
+  fieldType: string;
   originalValue: string;
   correctedValue: string;
   documentId: string;
@@ -109,7 +130,7 @@ const initialExtractionPatterns: ExtractionPattern[] = [
   },
   {
     fieldType: 'refundAmount',
-    patternRegex: 'refund\\s*amount\\s*:\\s*(?:SAR|SR|ر.س.|﷼)?\\s*([0-9,.]+)',
+    patternRegex: `refund\\s*amount\\s*:\\s*${currencyPatternSource}?\\s*([0-9,.]+)`,
     priority: 1,
     successRate: 92,
     usageCount: 12,
@@ -133,6 +154,44 @@ const initialExtractionPatterns: ExtractionPattern[] = [
   }
 ];
 
+// Patterns for the treasury refund forms, added to existing databases too
+const treasuryExtractionPatterns: ExtractionPattern[] = [
+  {
+    fieldType: 'customerName',
+    patternRegex: 'MR\\s*\\.\\s*([A-Za-z\\s.\'-]+)',
+    priority: 1, // Highest priority
+    successRate: 95,
+    usageCount: 5,
+    timestamp: new Date().toISOString()
+  },
+  {
+    fieldType: 'customerName',
+    patternRegex: 'customer\\s*information[\\s\\S]{0,50}name\\s*[:\\.\\s]*([A-Za-z\\s.\'-]+)',
+    priority: 2,
+    successRate: 90,
+    usageCount: 5,
+    timestamp: new Date().toISOString()
+  },
+  {
+    // Middle Eastern names
+    fieldType: 'customerName',
+    patternRegex: '([A-Za-z\\s.\'-]+)\\s+(?:Al|El)\\s+([A-Za-z\\s.\'-]+)',
+    priority: 3,
+    successRate: 85,
+    usageCount: 5,
+    timestamp: new Date().toISOString()
+  },
+  {
+    // Treasury form customer name with an Arabic label
+    fieldType: 'customerName',
+    patternRegex: 'name[\\s\\u0600-\\u06FF]*(?:\\s*[:\\.\\s]\\s*)((?:[A-Za-z\\s.\'-]+\\s*)+)',
+    priority: 1,
+    successRate: 95,
+    usageCount: 5,
+    timestamp: new Date().toISOString()
+  }
+];
+
 // Create an instance of the database
 const db = new TrainingDatabase();
 
@@ -140,14 +199,30 @@ const db = new TrainingDatabase();
 class TrainingService {
   private static instance: TrainingService;
   private initialized: boolean = false;
+  private initializing: Promise<void> | null = null;
   private fuseSearch: Fuse<TrainingExample> | null = null;
   private patternRegistry: Map<string, RegExp[]> = new Map();
   private learningRate: number = 0.1; // How quickly the system adapts to corrections
   private db: TrainingDatabase;
+  private readOnly: boolean = false;
+  private dataVersion: number = 0;
 
   private constructor() {
     // Private constructor for singleton
     this.db = db;
+    
+    // Every committed write to the data extraction reads bumps the version
+    const bumpOnCommit = (transaction: Transaction) => {
+      transaction.on('complete', () => {
+        this.dataVersion++;
+      });
+    };
+    const tables: Dexie.Table<unknown, number>[] = [db.trainingExamples, db.extractionPatterns, db.serviceIdentifierTypes, db.validationRules];
+    for (const table of tables) {
+      table.hook('creating', (_key, _item, transaction) => { bumpOnCommit(transaction); });
+      table.hook('updating', (_changes, _key, _item, transaction) => { bumpOnCommit(transaction); });
+      table.hook('deleting', (_key, _item, transaction) => { bumpOnCommit(transaction); });
+    }
   }
 
   static getInstance(): TrainingService {
@@ -159,35 +234,25 @@ class TrainingService {
 
   async initialize(): Promise<void> {
     if (this.initialized) return;
+    
+    // Callers arriving while the data is loaded wait for the same load
+    if (!this.initializing) {
+      this.initializing = this.load().finally(() => {
+        this.initializing = null;
+      });
+    }
+    return this.initializing;
+  }
 
+  private async load(): Promise<void> {
     try {
-      // Check if we need to seed the database
-      // The tables might not exist yet, so we need to handle possible errors
-      let exampleCount = 0;
-      let patternCount = 0;
-      
-      try {
-        exampleCount = await this.db.trainingExamples.count();
-      } catch (error) {
-        console.warn('Error counting training examples:', error);
-        // Table might not exist yet, so count is 0
-      }
-      
-      try {
-        patternCount = await this.db.extractionPatterns.count();
-      } catch (error) {
-        console.warn('Error counting extraction patterns:', error);
-        // Table might not exist yet, so count is 0
-      }
-      
-      if (exampleCount === 0) {
-        console.log('Seeding training database with initial examples...');
-        await this.db.trainingExamples.bulkAdd(initialTrainingData);
-      }
-      
-      if (patternCount === 0) {
-        console.log('Seeding pattern registry with initial patterns...');
-        await this.db.extractionPatterns.bulkAdd(initialExtractionPatterns);
+      // Extraction workers only read what the app has seeded
+      if (!this.readOnly) {
+        await this.db.transaction(
+          'rw',
+          [this.db.trainingExamples, this.db.extractionPatterns, this.db.serviceIdentifierTypes, this.db.validationRules],
+          () => this.seed()
+        );
       }
       
       // Initialize the fuzzy search
@@ -195,6 +260,8 @@ class TrainingService {
       
       // Load patterns into the pattern registry
       await this.loadPatternRegistry();
+      await this.loadServiceIdentifierTypes();
+      await this.loadValidationRules();
       
       this.initialized = true;
       console.log('Training service initialized successfully');
@@ -204,6 +271,72 @@ class TrainingService {
     }
   }
 
+  // Seed empty tables with the defaults, and add the treasury patterns if they're missing. Runs
+  // in one transaction, so two tabs starting at once can't both seed.
+  private async seed(): Promise<void> {
+    // Check if we need to seed the database
+    // The tables might not exist yet, so we need to handle possible errors
+    let exampleCount = 0;
+    let patternCount = 0;
+    
+    try {
+      exampleCount = await this.db.trainingExamples.count();
+    } catch (error) {
+      console.warn('Error counting training examples:', error);
+      // Table might not exist yet, so count is 0
+    }
+    
+    try {
+      patternCount = await this.db.extractionPatterns.count();
+    } catch (error) {
+      console.warn('Error counting extraction patterns:', error);
+      // Table might not exist yet, so count is 0
+    }
+    
+    if (exampleCount === 0) {
+      console.log('Seeding training database with initial examples...');
+      await this.db.trainingExamples.bulkAdd(initialTrainingData);
+    }
+    
+    if (patternCount === 0) {
+      console.log('Seeding pattern registry with initial patterns...');
+      await this.db.extractionPatterns.bulkAdd(initialExtractionPatterns);
+    }
+    
+    if (await this.db.serviceIdentifierTypes.count() === 0) {
+      console.log('Seeding service identifier registry with default types...');
+      await this.db.serviceIdentifierTypes.bulkAdd(defaultServiceIdentifierTypes.map(type => ({ ...type })));
+    }
+    
+    if (await this.db.validationRules.count() === 0) {
+      console.log('Seeding validation rules with default rules...');
+      await this.db.validationRules.bulkAdd(defaultValidationRules.map(rule => ({ ...rule })));
+    }
+    
+    const existingPatterns = new Set((await this.db.extractionPatterns.toArray()).map(pattern => pattern.patternRegex));
+    const missingTreasuryPatterns = treasuryExtractionPatterns.filter(pattern => !existingPatterns.has(pattern.patternRegex));
+    if (missingTreasuryPatterns.length > 0) {
+      await this.db.extractionPatterns.bulkAdd(missingTreasuryPatterns);
+    }
+  }
+
+  // Only read the training data, never seed it; used by extraction workers, which may run
+  // several at once against a database the app has already seeded
+  setReadOnly(): void {
+    this.readOnly = true;
+  }
+
+  // Counts changes to the training data, so extraction workers know when to load it again
+  getDataVersion(): number {
+    return this.dataVersion;
+  }
+
+  // Read the examples, patterns and rules again, e.g. in an extraction worker after they were edited in the app
+  async reload(): Promise<void> {
+    this.initialized = false;
+    await this.initialize();
+  }
+
   private async initializeFuseSearch(): Promise<void> {
     try {
       const allExamples = await this.db.trainingExamples.toArray();
@@ -235,7 +368,7 @@ class TrainingService {
         .toArray();
       
       // Group patterns by field type
-      for (const fieldType of ['customerName', 'refundAmount', 'ibanNumber', 'customerServiceNumber']) {
+      for (const { key: fieldType } of fieldDefinitions) {
         const fieldPatterns = patterns
           .filter(p => p.fieldType === fieldType)
           .sort((a, b) => a.priority - b.priority);
@@ -258,12 +391,30 @@ class TrainingService {
     } catch (error) {
       console.error('Error loading pattern registry:', error);
       // Initialize with empty patterns as fallback
-      for (const fieldType of ['customerName', 'refundAmount', 'ibanNumber', 'customerServiceNumber']) {
+      for (const { key: fieldType } of fieldDefinitions) {
         this.patternRegistry.set(fieldType, []);
       }
     }
   }
 
+  private async loadServiceIdentifierTypes(): Promise<void> {
+    try {
+      setServiceIdentifierTypes(await this.db.serviceIdentifierTypes.toArray());
+    } catch (error) {
+      console.error('Error loading service identifier types:', error);
+      setServiceIdentifierTypes(defaultServiceIdentifierTypes);
+    }
+  }
+
+  private async loadValidationRules(): Promise<void> {
+    try {
+      setValidationRules(await this.db.validationRules.toArray());
+    } catch (error) {
+      console.error('Error loading validation rules:', error);
+      setValidationRules(defaultValidationRules);
+    }
+  }
+
   // Get patterns for a specific field type
   getPatterns(fieldType: string): RegExp[] {
     if (!this.initialized) {
@@ -276,7 +427,7 @@ class TrainingService {
 
   // Create a new extraction pattern from a correction
   async learnNewPattern(
-    fieldType: 'customerName' | 'refundAmount' | 'ibanNumber' | 'customerServiceNumber',
+    fieldType: string,
     context: string,
     correctValue: string
   ): Promise<void> {
@@ -293,22 +444,9 @@ class TrainingService {
         if (beforeValue.trim()) {
           // Create a basic pattern - this is simplified and would be more advanced in a real system
           const patternWord = beforeValue.trim().replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&');
-          let patternRegex = '';
-          
-          switch (fieldType) {
-            case 'customerName':
-              patternRegex = `${patternWord}\\s*([A-Za-z\\s.'-]+)`;
-              break;
-            case 'refundAmount':
-              patternRegex = `${patternWord}\\s*(?:SAR|SR|ر.س.|﷼)?\\s*([0-9,.]+)`;
-              break;
-            case 'ibanNumber':
-              patternRegex = `${patternWord}\\s*(SA\\d{22})`;
-              break;
-            case 'customerServiceNumber':
-              patternRegex = `${patternWord}\\s*(FTTH\\d+)`;
-              break;
-          }
+          // Follow the label with the field's value pattern from the registry
+          const definition = getFieldDefinition(fieldType);
+          const patternRegex = definition ? `${patternWord}\\s*${definition.valuePattern}` : '';
           
           if (patternRegex) {
             // Check if pattern already exists
@@ -360,7 +498,7 @@ class TrainingService {
 
   // Record a user correction
   async recordCorrection(
-    fieldType: 'customerName' | 'refundAmount' | 'ibanNumber' | 'customerServiceNumber',
+    fieldType: string,
     originalValue: string,
     correctedValue: string,
     documentId: string,
@@ -398,7 +536,7 @@ class TrainingService {
 
   // Update pattern success rates based on corrections
   private async updatePatternSuccessRates(
-    fieldType: 'customerName' | 'refundAmount' | 'ibanNumber' | 'customerServiceNumber',
+    fieldType: string,
     originalValue: string,
     correctedValue: string
   ): Promise<void> {
@@ -472,6 +610,61 @@ class TrainingService {
     return this.db.extractionPatterns.toArray();
   }
 
+  // Get all service identifier types, enabled or not, highest priority first
+  async getServiceIdentifierTypes(): Promise<ServiceIdentifierType[]> {
+    await this.initialize();
+    
+    return this.db.serviceIdentifierTypes.orderBy('priority').toArray();
+  }
+
+  // Add or update a service identifier type; extraction uses it immediately
+  async saveServiceIdentifierType(type: ServiceIdentifierType): Promise<number> {
+    await this.initialize();
+    
+    const id = await this.db.serviceIdentifierTypes.put(type);
+    await this.loadServiceIdentifierTypes();
+    return id;
+  }
+
+  async deleteServiceIdentifierType(id: number): Promise<void> {
+    await this.initialize();
+    
+    await this.db.serviceIdentifierTypes.delete(id);
+    await this.loadServiceIdentifierTypes();
+  }
+
+  // Get all validation rules, enabled or not
+  async getValidationRules(): Promise<ValidationRule[]> {
+    await this.initialize();
+    
+    return this.db.validationRules.toArray();
+  }
+
+  // Add or update a validation rule; validation uses it immediately
+  async saveValidationRule(rule: ValidationRule): Promise<number> {
+    await this.initialize();
+    
+    const id = await this.db.validationRules.put(rule);
+    await this.loadValidationRules();
+    return id;
+  }
+
+  async deleteValidationRule(id: number): Promise<void> {
+    await this.initialize();
+    
+    await this.db.validationRules.delete(id);
+    await this.loadValidationRules();
+  }
+
+  // Replace all validation rules with the defaults
+  async resetValidationRules(): Promise<void> {
+    await this.initialize();
+    
+    await this.db.validationRules.clear();
+    await this.db.validationRules.bulkAdd(defaultValidationRules.map(rule => ({ ...rule })));
+    await this.loadValidationRules();
+  }
+
   // Get correction history
   async getCorrectionHistory(limit: number = 50): Promise<CorrectionRecord[]> {
     await this.initialize();
@@ -497,12 +690,10 @@ class TrainingService {
     const patterns = await this.getExtractionPatterns();
     
     // Count corrections by field type
-    const fieldCorrections: Record<string, number> = {
-      customerName: 0,
-      refundAmount: 0,
-      ibanNumber: 0,
-      customerServiceNumber: 0
-    };
+    const fieldCorrections: Record<string, number> = {};
+    for (const definition of fieldDefinitions) {
+      fieldCorrections[definition.key] = 0;
+    }
     
     corrections.forEach(c => {
       if (fieldCorrections[c.fieldType] !== undefined) {
@@ -565,12 +756,15 @@ class TrainingService {
     await this.db.trainingExamples.clear();
     await this.db.extractionPatterns.clear();
     await this.db.correctionHistory.clear();
+    await this.db.serviceIdentifierTypes.clear();
     
     await this.db.trainingExamples.bulkAdd(initialTrainingData);
     await this.db.extractionPatterns.bulkAdd(initialExtractionPatterns);
+    await this.db.serviceIdentifierTypes.bulkAdd(defaultServiceIdentifierTypes.map(type => ({ ...type })));
     
     await this.initializeFuseSearch();
     await this.loadPatternRegistry();
+    await this.loadServiceIdentifierTypes();
   }
   
   // Method to access database for PatternRegistry component
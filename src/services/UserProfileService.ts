@@ -0,0 +1,105 @@
+import Dexie from 'dexie';
+import { UserProfile } from '../types';
+
+interface UserSetting {
+  key: string;
+  value: number | null;
+}
+
+// User profile database
+class UserProfileDatabase extends Dexie {
+  profiles: Dexie.Table<UserProfile, number>;
+  settings: Dexie.Table<UserSetting, string>;
+
+  constructor() {
+    super('TreasuryExtractorUsers');
+
+    this.version(1).stores({
+      profiles: '++id, name',
+      settings: 'key'
+    });
+
+    this.profiles = this.table('profiles');
+    this.settings = this.table('settings');
+  }
+}
+
+// Create database instance
+const db = new UserProfileDatabase();
+
+// Local user profiles and the profile the reviewer is working as
+class UserProfileService {
+  private static instance: UserProfileService;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): UserProfileService {
+    if (!UserProfileService.instance) {
+      UserProfileService.instance = new UserProfileService();
+    }
+    return UserProfileService.instance;
+  }
+
+  async getProfiles(): Promise<UserProfile[]> {
+    try {
+      return await db.profiles.orderBy('name').toArray();
+    } catch (error) {
+      console.error('Error retrieving user profiles:', error);
+      return [];
+    }
+  }
+
+  async addProfile(name: string): Promise<UserProfile> {
+    try {
+      const trimmed = name.trim();
+      if (!trimmed) throw new Error('A profile needs a name');
+      if (await db.profiles.where('name').equalsIgnoreCase(trimmed).count() > 0) {
+        throw new Error(`A profile named "${trimmed}" already exists`);
+      }
+
+      const profile: UserProfile = { name: trimmed, createdAt: new Date().toISOString() };
+      const id = await db.profiles.add(profile);
+      return { ...profile, id };
+    } catch (error) {
+      console.error('Error adding user profile:', error);
+      throw error;
+    }
+  }
+
+  // Approvals already recorded keep the name of a deleted profile
+  async deleteProfile(id: number): Promise<void> {
+    try {
+      await db.profiles.delete(id);
+      if ((await db.settings.get('currentUser'))?.value === id) {
+        await db.settings.put({ key: 'currentUser', value: null });
+      }
+    } catch (error) {
+      console.error('Error deleting user profile:', error);
+      throw error;
+    }
+  }
+
+  // The profile status changes and corrections are recorded under
+  async getCurrentUser(): Promise<UserProfile | null> {
+    try {
+      const id = (await db.settings.get('currentUser'))?.value;
+      return id != null ? (await db.profiles.get(id)) ?? null : null;
+    } catch (error) {
+      console.error('Error reading current user:', error);
+      return null;
+    }
+  }
+
+  async setCurrentUser(id: number | null): Promise<void> {
+    try {
+      await db.settings.put({ key: 'currentUser', value: id });
+    } catch (error) {
+      console.error('Error saving current user:', error);
+      throw error;
+    }
+  }
+}
+
+export default UserProfileService;
@@ -0,0 +1,139 @@
+import Dexie from 'dexie';
+import { ExtractedData } from '../types';
+import { DEFAULT_HOLD_THRESHOLD, WatchlistEntry, parseWatchlistFile, screenNames } from '../utils/watchlist';
+import { getField } from '../utils/fieldDefinitions';
+import { isFound } from '../utils/duplicateDetection';
+
+interface WatchlistSetting {
+  key: string;
+  value: number;
+}
+
+// Watchlist database
+class WatchlistDatabase extends Dexie {
+  entries: Dexie.Table<WatchlistEntry, number>;
+  settings: Dexie.Table<WatchlistSetting, string>;
+
+  constructor() {
+    super('TreasuryExtractorWatchlist');
+
+    this.version(1).stores({
+      entries: '++id, name, reference',
+      settings: 'key'
+    });
+
+    this.entries = this.table('entries');
+    this.settings = this.table('settings');
+  }
+}
+
+// Create database instance
+const db = new WatchlistDatabase();
+
+// Watchlist screening service
+class WatchlistService {
+  private static instance: WatchlistService;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): WatchlistService {
+    if (!WatchlistService.instance) {
+      WatchlistService.instance = new WatchlistService();
+    }
+    return WatchlistService.instance;
+  }
+
+  // Import a CSV or JSON watchlist; with replace, the current list is removed first
+  async importFile(text: string, fileName: string, replace: boolean = false): Promise<{ imported: number; errors: string[] }> {
+    try {
+      const { entries, errors } = parseWatchlistFile(text, fileName);
+      if (entries.length === 0) return { imported: 0, errors };
+
+      await db.transaction('rw', db.entries, async () => {
+        if (replace) await db.entries.clear();
+        await db.entries.bulkAdd(entries);
+      });
+
+      console.log(`Imported ${entries.length} watchlist entries`);
+      return { imported: entries.length, errors };
+    } catch (error) {
+      console.error('Error importing watchlist:', error);
+      throw error;
+    }
+  }
+
+  async getEntries(): Promise<WatchlistEntry[]> {
+    try {
+      return await db.entries.orderBy('name').toArray();
+    } catch (error) {
+      console.error('Error retrieving watchlist:', error);
+      return [];
+    }
+  }
+
+  async deleteEntry(id: number): Promise<void> {
+    try {
+      await db.entries.delete(id);
+    } catch (error) {
+      console.error('Error deleting watchlist entry:', error);
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await db.entries.clear();
+    } catch (error) {
+      console.error('Error clearing watchlist:', error);
+      throw error;
+    }
+  }
+
+  // Score (0-100) from which documents are held
+  async getHoldThreshold(): Promise<number> {
+    try {
+      return (await db.settings.get('holdThreshold'))?.value ?? DEFAULT_HOLD_THRESHOLD;
+    } catch (error) {
+      console.error('Error reading hold threshold:', error);
+      return DEFAULT_HOLD_THRESHOLD;
+    }
+  }
+
+  async setHoldThreshold(value: number): Promise<void> {
+    try {
+      await db.settings.put({ key: 'holdThreshold', value });
+    } catch (error) {
+      console.error('Error saving hold threshold:', error);
+      throw error;
+    }
+  }
+
+  // Screen a result's customer names. A released hold stays released while the hits are
+  // the ones the reviewer released.
+  async screen(data: ExtractedData): Promise<ExtractedData> {
+    const names = [getField(data, 'customerName'), getField(data, 'customerNameArabic')]
+      .map(field => field?.value ?? '')
+      .filter(isFound);
+    const screening = screenNames(names, await this.getEntries(), await this.getHoldThreshold());
+
+    const previous = data.screening;
+    if (screening.status === 'hold' && previous?.status === 'released' &&
+        screening.hits.every(hit => previous.hits.some(released => released.entryId === hit.entryId))) {
+      return {
+        ...data,
+        screening: {
+          ...screening,
+          status: 'released',
+          releasedAt: previous.releasedAt,
+          releaseReason: previous.releaseReason,
+          releasedBy: previous.releasedBy
+        }
+      };
+    }
+    return { ...data, screening };
+  }
+}
+
+export default WatchlistService;
@@ -4,7 +4,8 @@ import {
   extractCustomerName, 
   extractRefundAmount,
   extractIBAN,
-  extractServiceNumber
+  extractServiceNumber,
+  FieldExtractionResult
 } from '../utils/extractors';
 
 /**
@@ -119,10 +120,10 @@ Recommendation:
  * Test extraction on a document with specific characteristics
  */
 export async function testExtraction(documentText: string): Promise<{
-  customerName: { value: string; confidence: number; position: number };
-  refundAmount: { value: string; confidence: number; position: number };
-  ibanNumber: { value: string; confidence: number; position: number };
-  serviceNumber: { value: string; confidence: number; position: number };
+  customerName: FieldExtractionResult;
+  refundAmount: FieldExtractionResult;
+  ibanNumber: FieldExtractionResult;
+  serviceNumber: FieldExtractionResult;
   layout: { name: string; confidence: number };
 }> {
   const sections = divideDocumentIntoSections(documentText);
@@ -132,12 +133,12 @@ export async function testExtraction(documentText: string): Promise<{
   const ibanNumber = await extractIBAN(sections);
   const serviceNumber = await extractServiceNumber(sections);
   
-  const layout = detectFormLayout(
-    customerName.position,
-    refundAmount.position,
-    ibanNumber.position,
-    serviceNumber.position
-  );
+  const layout = detectFormLayout({
+    customerName: customerName.position,
+    refundAmount: refundAmount.position,
+    ibanNumber: ibanNumber.position,
+    customerServiceNumber: serviceNumber.position
+  });
   
   return {
     customerName,
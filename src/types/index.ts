@@ -1,31 +1,276 @@
+// Where an extracted value came from in the document text
+export interface FieldSource {
+  start: number; // Character offset of the value in the document text, -1 when not located
+  end: number; // Exclusive end offset, -1 when not located
+  page: number; // 1-based page number, -1 when not located
+  position: number; // 0-100% document position, -1 when not located
+  sectionIndex: number; // -1 when matched against the whole document
+  sectionType?: string;
+  pattern: string; // Source of the regex that produced the match
+}
+
+// One rule applied while scoring a value, and how many points it added (negative when removed)
+export interface ConfidenceStep {
+  rule: string; // Stable identifier, e.g. "section.customerInfo"
+  description: string;
+  delta: number;
+}
+
+// A single scored value found for a field, with where it came from
+// A character changed to recover a value damaged by OCR, e.g. the letter O read for a zero
+export interface CharacterRepair {
+  index: number; // Position in the recovered value
+  original: string; // Character as extracted
+  replacement: string;
+}
+
+export interface FieldCandidate extends FieldSource {
+  value: string;
+  confidence: number;
+  trace?: ConfidenceStep[]; // Rules that produced the confidence, in the order applied
+  repairs?: CharacterRepair[]; // Characters the extractor changed; a reviewer should confirm them
+}
+
+// What a value is, stored beside it for fields whose values come in several kinds
+export interface FieldQualifiers {
+  currency?: string; // ISO 4217 code, for amount fields
+  identifierType?: string; // Service identifier type key, e.g. "ftth", for service number fields
+}
+
+export interface ExtractedField extends FieldQualifiers {
+  value: string;
+  confidence: number;
+  source?: FieldSource; // Provenance of the value; absent for manual corrections
+  trace?: ConfidenceStep[]; // Explains how the confidence was reached
+  alternatives?: FieldCandidate[]; // Lower-ranked candidates, best first
+  repairs?: CharacterRepair[]; // Characters the extractor changed; a reviewer should confirm them
+}
+
+// One row of a final-settlement refund table
+export interface LineItem {
+  label: string;
+  amount: number; // Always positive; sign says which way it moves the refund
+  sign: 1 | -1; // +1 adds to the refund (deposits, credits), -1 reduces it (charges, deductions)
+  start: number; // Character offsets of the row in the document text
+  end: number;
+}
+
+// Line items of a refund table checked against the total stated on the form
+export interface LineItemTable {
+  items: LineItem[];
+  statedTotal: number; // Net refund printed in the total row
+  computedTotal: number; // Net refund computed from the items
+  reconciled: boolean; // The items add up to the stated total
+  start: number; // Character offsets of the whole table, total row included
+  end: number;
+}
+
+// Script a piece of OCR text is written in
+export type TextScript = 'arabic' | 'latin' | 'mixed' | 'none';
+
+// A text block of an image read by OCR. The document text of an image is its regions joined.
+export interface OcrRegion {
+  text: string;
+  script: TextScript;
+  language: string; // Tesseract languages the block was read with, e.g. 'ara+eng'
+  confidence: number; // 0-100
+  bbox: { x0: number; y0: number; x1: number; y1: number }; // Pixels of the image
+}
+
+// Cleanup of images and scanned pages before OCR, chosen for every run
+export interface PreprocessingSettings {
+  enabled: boolean; // Grayscale and contrast stretching, plus the steps below
+  perspective: boolean; // Cut out and flatten a photographed page
+  orientation: boolean; // Turn pages lying on their side or upside down upright
+  deskew: boolean;
+  binarize: boolean; // Adaptive black and white against the local background
+  denoise: boolean;
+  binarizeOffset: number; // Percent a pixel must be darker than its surroundings to turn black
+}
+
+// What preprocessing did to an image
+export interface PreprocessingReport {
+  settings: PreprocessingSettings;
+  rotation: number; // Clockwise quarter turns applied, in degrees: 0, 90, 180 or 270
+  skewAngle: number; // Degrees the text lines were tilted by
+  perspectiveCorrected: boolean;
+}
+
+// How the text of a PDF page was obtained: from its text layer, or by OCR of the rendered page
+export type PageTextMethod = 'textLayer' | 'ocr';
+
+export interface PageText {
+  page: number; // 1-based
+  method: PageTextMethod;
+  characters: number; // Non-blank characters read
+  ocrConfidence?: number; // 0-100, for pages read by OCR
+}
+
 export interface ExtractedData {
   id: string;
   fileName: string;
-  customerName: {
-    value: string;
-    confidence: number;
-  };
-  refundAmount: {
-    value: string;
-    confidence: number;
-  };
-  ibanNumber: {
-    value: string;
-    confidence: number;
-  };
-  customerServiceNumber: {
-    value: string;
-    confidence: number;
-  };
+  customerName: ExtractedField;
+  refundAmount: ExtractedField;
+  ibanNumber: ExtractedField;
+  customerServiceNumber: ExtractedField;
+  additionalFields?: Record<string, ExtractedField>; // Registry fields beyond the four core fields
+  lineItems?: LineItemTable; // Refund table of final-settlement forms
+  duplicates?: DuplicateLink[]; // Stored results that look like the same refund
+  masterData?: MasterReconciliation; // Comparison with the customer master record
+  screening?: ScreeningResult; // Latest watchlist screening of the customer name
+  review?: ReviewState; // Where the document is in the review workflow; results stored earlier have none
+  approval?: ApprovalState; // Maker-checker record of who verified, corrected and approved the result
+  ocrRegions?: OcrRegion[]; // Text blocks of image documents
+  pages?: PageText[]; // How each page of a PDF was read
+  preprocessing?: PreprocessingReport; // Cleanup of an image before OCR
   detectedLayout: string;
   layoutConfidence: number;
   timestamp: string;
 }
 
+// Why a stored result looks like the same refund
+export type DuplicateReason = 'sameFile' | 'ibanAndServiceNumber' | 'amount' | 'name';
+
+// A link between two results suspected of being the same refund, kept on both results
+export interface DuplicateLink {
+  id: string; // ID of the other result
+  fileName: string;
+  timestamp: string;
+  reasons: DuplicateReason[];
+  acknowledged?: boolean; // A reviewer confirmed the two are separate refunds
+}
+
+// How an extracted value compares with the customer master
+export type ReconciliationStatus =
+  | 'match'
+  | 'mismatch'
+  | 'missing' // The document has no value to compare
+  | 'notOnRecord'; // The service number is not in the customer master
+
+export interface FieldReconciliation {
+  field: string; // Field key
+  status: ReconciliationStatus;
+  extracted: string;
+  registered: string;
+}
+
+// An extraction result compared with the customer master record of its service number
+export interface MasterReconciliation {
+  serviceNumber: string;
+  onRecord: boolean;
+  fields: FieldReconciliation[];
+  reconciledAt: string;
+}
+
+// A watchlist entry the customer name resembles
+export interface WatchlistHit {
+  entryId: number;
+  listedName: string; // The entry's name or alias that matched
+  screenedName: string; // The customer name as it appears on the document
+  score: number; // 0-100
+  reference?: string; // The entry's reference in the source list
+  reason?: string; // Why the party is listed
+}
+
+export interface ScreeningResult {
+  // hold: a hit reached the threshold and the refund must not be paid until released
+  status: 'clear' | 'hold' | 'released';
+  threshold: number;
+  hits: WatchlistHit[]; // Best first
+  watchlistSize: number;
+  screenedAt: string;
+  releasedAt?: string;
+  releaseReason?: string;
+  releasedBy?: { userId: number; userName: string };
+}
+
+// Review workflow of a stored result, from extraction to payment
+export type ReviewStatus =
+  | 'extracted'
+  | 'inReview'
+  | 'verified' // The extracted values were checked against the document
+  | 'approved' // Cleared for the payment file
+  | 'exported'
+  | 'paid'
+  | 'rejected';
+
+export interface ReviewState {
+  status: ReviewStatus;
+  changedBy: string;
+  changedAt: string;
+  note?: string; // E.g. why a document was rejected
+}
+
+// A local user profile; profiles tell reviewers apart, they are not a login
+export interface UserProfile {
+  id?: number;
+  name: string;
+  createdAt: string;
+}
+
+// An approval or rejection of a refund with the reviewer's reason
+export interface ApprovalDecision {
+  decision: 'approved' | 'rejected';
+  userId: number;
+  userName: string;
+  reason: string;
+  decidedAt: string;
+}
+
+// Maker-checker record of a result: one person verifies (and may correct) it, a different person approves it
+export interface ApprovalState {
+  verifiedBy?: { userId: number; userName: string; verifiedAt: string };
+  correctedBy: number[]; // Users who corrected extracted values; none of them may approve
+  decisions: ApprovalDecision[]; // Oldest first
+}
+
+export type AuditAction = 'screening' | 'screeningRelease' | 'statusChange' | 'fraudAcknowledgement';
+
+// An entry in a document's audit trail
+export interface AuditEntry {
+  id?: number;
+  documentId: string;
+  action: AuditAction;
+  timestamp: string;
+  details: string;
+  actor?: string; // Who made the change; automatic checks have none
+}
+
+// A named set of uploaded documents processed through the persistent queue
+export type BatchStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+export interface ProcessingBatch {
+  id: string;
+  name: string;
+  status: BatchStatus;
+  documentCount: number;
+  createdAt: string;
+  finishedAt?: string;
+  preprocessing?: PreprocessingSettings; // Image cleanup chosen for the batch's documents
+}
+
+export type BatchJobStatus = 'queued' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+// Processing of one stored document in a batch
+export interface BatchJob {
+  id: string;
+  batchId: string;
+  position: number; // Upload order within the batch
+  documentId: string;
+  fileName: string;
+  status: BatchJobStatus;
+  attempts: number;
+  nextAttemptAt?: string; // A failed attempt is retried from this time
+  lastError?: string;
+  finishedAt?: string;
+}
+
 export interface DocumentSection {
   startPercentage: number;
   endPercentage: number;
   content: string;
+  startOffset: number; // Character offset of the section's first line in the document text
+  startPage: number; // 1-based page the section starts on (pages are separated by form feeds)
   isCustomerInfoSection?: boolean;
   isSignatureSection?: boolean;
 }
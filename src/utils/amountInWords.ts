@@ -0,0 +1,231 @@
+/**
+ * Parsing of amounts written in words, in English and Arabic
+ *
+ * Treasury forms state the refund both in digits and in words, e.g. "three hundred seventy nine
+ * riyals and fifty halalas" or "ثلاثمائة وتسعة وسبعون ريالاً وخمسون هللة". The words are
+ * extracted as their own field and cross-checked against the numeric amount.
+ */
+
+export type AmountWordsLanguage = 'en' | 'ar';
+
+export interface ParsedAmountInWords {
+  value: number; // Riyals plus halalas as a decimal, e.g. 379.5
+  language: AmountWordsLanguage;
+}
+
+// How a number word combines with the words before it
+type NumberWordKind =
+  | 'unit' // Added to the current group (one, twenty, three hundred written as one word)
+  | 'hundred' // Multiplies a preceding unit, otherwise adds 100
+  | 'scale'; // Closes the current group: thousand, million
+
+interface NumberWord {
+  value: number;
+  kind: NumberWordKind;
+}
+
+interface AmountLexicon {
+  language: AmountWordsLanguage;
+  numbers: Record<string, NumberWord>;
+  connectors: string[]; // "and"
+  majorUnits: string[]; // riyals
+  minorUnits: string[]; // halalas
+  qualifiers: string[]; // Words ignored when parsing, e.g. "Saudi" and "only"
+}
+
+const unit = (value: number): NumberWord => ({ value, kind: 'unit' });
+
+const ENGLISH: AmountLexicon = {
+  language: 'en',
+  numbers: {
+    zero: unit(0), one: unit(1), two: unit(2), three: unit(3), four: unit(4), five: unit(5),
+    six: unit(6), seven: unit(7), eight: unit(8), nine: unit(9), ten: unit(10),
+    eleven: unit(11), twelve: unit(12), thirteen: unit(13), fourteen: unit(14), fifteen: unit(15),
+    sixteen: unit(16), seventeen: unit(17), eighteen: unit(18), nineteen: unit(19),
+    twenty: unit(20), thirty: unit(30), forty: unit(40), fourty: unit(40), fifty: unit(50),
+    sixty: unit(60), seventy: unit(70), eighty: unit(80), ninety: unit(90),
+    hundred: { value: 100, kind: 'hundred' },
+    thousand: { value: 1000, kind: 'scale' },
+    million: { value: 1000000, kind: 'scale' }
+  },
+  connectors: ['and'],
+  majorUnits: ['riyal', 'riyals', 'rial', 'rials', 'sar', 'sr'],
+  minorUnits: ['halala', 'halalas', 'halalah', 'halalat'],
+  qualifiers: ['saudi', 'only']
+};
+
+// Arabic words are listed in folded form (see foldArabic): bare alef, final heh for teh marbuta
+// and yeh for alef maksura
+const ARABIC_HUNDREDS: Record<string, NumberWord> = {};
+const hundredPrefixes: [string, number][] = [
+  ['ثلاث', 3], ['اربع', 4], ['خمس', 5], ['ست', 6], ['سبع', 7], ['ثمان', 8], ['ثماني', 8], ['تسع', 9]
+];
+for (const [prefix, value] of hundredPrefixes) {
+  // Hundreds are usually written as one word: ثلاثمائة (300)
+  ARABIC_HUNDREDS[`${prefix}مائه`] = unit(value * 100);
+  ARABIC_HUNDREDS[`${prefix}مئه`] = unit(value * 100);
+}
+
+const ARABIC: AmountLexicon = {
+  language: 'ar',
+  numbers: {
+    'صفر': unit(0),
+    'واحد': unit(1), 'واحده': unit(1), 'احد': unit(1),
+    'اثنان': unit(2), 'اثنين': unit(2), 'اثنتان': unit(2), 'اثنتين': unit(2), 'اثنا': unit(2), 'اثني': unit(2),
+    'ثلاث': unit(3), 'ثلاثه': unit(3),
+    'اربع': unit(4), 'اربعه': unit(4),
+    'خمس': unit(5), 'خمسه': unit(5),
+    'ست': unit(6), 'سته': unit(6),
+    'سبع': unit(7), 'سبعه': unit(7),
+    'ثمان': unit(8), 'ثماني': unit(8), 'ثمانيه': unit(8),
+    'تسع': unit(9), 'تسعه': unit(9),
+    // Also forms the teens, which are written unit first: ثلاثة عشر (13)
+    'عشر': unit(10), 'عشره': unit(10),
+    'عشرون': unit(20), 'عشرين': unit(20),
+    'ثلاثون': unit(30), 'ثلاثين': unit(30),
+    'اربعون': unit(40), 'اربعين': unit(40),
+    'خمسون': unit(50), 'خمسين': unit(50),
+    'ستون': unit(60), 'ستين': unit(60),
+    'سبعون': unit(70), 'سبعين': unit(70),
+    'ثمانون': unit(80), 'ثمانين': unit(80),
+    'تسعون': unit(90), 'تسعين': unit(90),
+    'مائه': { value: 100, kind: 'hundred' }, 'مئه': { value: 100, kind: 'hundred' },
+    'مائتان': unit(200), 'مائتين': unit(200), 'مئتان': unit(200), 'مئتين': unit(200),
+    'مائتا': unit(200), 'مئتا': unit(200),
+    ...ARABIC_HUNDREDS,
+    'الف': { value: 1000, kind: 'scale' }, 'الاف': { value: 1000, kind: 'scale' },
+    'الفان': unit(2000), 'الفين': unit(2000),
+    'مليون': { value: 1000000, kind: 'scale' }, 'ملايين': { value: 1000000, kind: 'scale' }
+  },
+  connectors: ['و'],
+  majorUnits: ['ريال', 'ريالا', 'ريالات'],
+  minorUnits: ['هلله', 'هللات', 'هللتان', 'هللتين'],
+  qualifiers: ['سعودي', 'سعوديا', 'فقط', 'لا', 'غير'] // "Saudi", "only ... nothing more"
+};
+
+const LEXICONS = [ENGLISH, ARABIC];
+
+// Harakat and tanween, e.g. the tanween in ريالاً
+const ARABIC_DIACRITICS = /[\u064B-\u0652]/g;
+
+// Fold spelling variants so one lexicon entry matches them all
+const foldArabic = (word: string): string => {
+  return word
+    .replace(ARABIC_DIACRITICS, '')
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي');
+};
+
+// Words of a phrase; Arabic words may carry the "and" prefix (وخمسون), which becomes its own word
+const tokenize = (phrase: string, lexicon: AmountLexicon): string[] => {
+  const known = (word: string) =>
+    word in lexicon.numbers || lexicon.majorUnits.includes(word) || lexicon.minorUnits.includes(word);
+  
+  const words: string[] = [];
+  for (const raw of phrase.split(/[\s,-]+/)) {
+    const word = lexicon.language === 'ar' ? foldArabic(raw) : raw.toLowerCase();
+    if (!word) continue;
+    
+    if (lexicon.language === 'ar' && word.length > 1 && word.startsWith('و') && !known(word) && known(word.slice(1))) {
+      words.push('و', word.slice(1));
+    } else {
+      words.push(word);
+    }
+  }
+  return words;
+};
+
+// Value of a run of number words, or null if a word isn't a number word
+const parseNumberWords = (words: string[], lexicon: AmountLexicon): number | null => {
+  let total = 0;
+  let current = 0;
+  let seen = false;
+  
+  for (const word of words) {
+    if (lexicon.connectors.includes(word)) continue;
+    
+    const number = lexicon.numbers[word];
+    if (!number) return null;
+    seen = true;
+    
+    if (number.kind === 'unit') {
+      current += number.value;
+    } else if (number.kind === 'hundred') {
+      current = current > 0 && current < 10 ? current * 100 : current + 100;
+    } else {
+      total += (current || 1) * number.value;
+      current = 0;
+    }
+  }
+  
+  return seen ? total + current : null;
+};
+
+const parseWithLexicon = (phrase: string, lexicon: AmountLexicon): number | null => {
+  const words = tokenize(phrase, lexicon).filter(word => !lexicon.qualifiers.includes(word));
+  
+  const majorIndex = words.findIndex(word => lexicon.majorUnits.includes(word));
+  if (majorIndex <= 0) return null;
+  
+  const riyals = parseNumberWords(words.slice(0, majorIndex), lexicon);
+  if (riyals === null) return null;
+  
+  // Optional halalas after the riyals
+  const rest = words.slice(majorIndex + 1);
+  if (rest.length === 0) return riyals;
+  
+  const minorIndex = rest.findIndex(word => lexicon.minorUnits.includes(word));
+  if (minorIndex !== rest.length - 1) return null;
+  
+  const halalas = parseNumberWords(rest.slice(0, minorIndex), lexicon);
+  if (halalas === null || halalas >= 100) return null;
+  
+  return Math.round((riyals + halalas / 100) * 100) / 100;
+};
+
+// Parse an amount written in words, e.g. "one thousand two hundred riyals and fifty halalas".
+// Returns null unless the whole phrase is a riyal amount.
+export function parseAmountInWords(phrase: string): ParsedAmountInWords | null {
+  for (const lexicon of LEXICONS) {
+    const value = parseWithLexicon(phrase.trim(), lexicon);
+    if (value !== null) return { value, language: lexicon.language };
+  }
+  return null;
+}
+
+// Regex source matching any of the words, longest first so "seventeen" isn't read as "seven"
+const alternation = (words: string[], toSource: (word: string) => string = word => word): string => {
+  return [...words].sort((a, b) => b.length - a.length).map(toSource).join('|');
+};
+
+// Arabic words match every spelling foldArabic accepts, with optional diacritics
+const arabicWordSource = (word: string): string => {
+  return word
+    .replace(/ا/g, '[اأإآ]')
+    .replace(/ه$/, '[هة]')
+    .replace(/ي$/, '[يى]') + '[\u064B-\u0652]*';
+};
+
+// Number words are separated by spaces or hyphens on a single line
+const ENGLISH_NUMBER = `(?:${alternation(Object.keys(ENGLISH.numbers))})\\b`;
+const ENGLISH_RUN = `${ENGLISH_NUMBER}(?:(?:[ \\t-]+|[ \\t]+and[ \\t]+)${ENGLISH_NUMBER})*`;
+
+// Arabic has no \b, so words are bounded by lookarounds for Arabic letters
+const NOT_ARABIC_BEFORE = '(?<![\u0621-\u064A])';
+const NOT_ARABIC_AFTER = '(?![\u0621-\u064A])';
+const ARABIC_NUMBER = `(?:و[ \\t]*)?(?:${alternation(Object.keys(ARABIC.numbers), arabicWordSource)})`;
+const ARABIC_RUN = `${ARABIC_NUMBER}(?:[ \\t]+${ARABIC_NUMBER})*`;
+const ARABIC_MAJOR = `(?:${alternation(ARABIC.majorUnits, arabicWordSource)})(?:[ \\t]+${arabicWordSource('سعودي')})?`;
+const ARABIC_MINOR = `(?:${alternation(ARABIC.minorUnits, arabicWordSource)})`;
+
+// Extraction patterns for the amount in words; the capturing group is the whole phrase
+export const amountInWordsPatterns: RegExp[] = [
+  new RegExp(
+    `\\b(${ENGLISH_RUN}[ \\t-]+(?:saudi[ \\t]+)?(?:riyals?|rials?)\\b(?:,?[ \\t]+(?:and[ \\t]+)?${ENGLISH_RUN}[ \\t]+halala(?:s|h)?\\b)?)`,
+    'i'
+  ),
+  new RegExp(
+    `${NOT_ARABIC_BEFORE}(${ARABIC_RUN}[ \\t]+${ARABIC_MAJOR}(?:[ \\t]+(?:و[ \\t]*)?${ARABIC_RUN}[ \\t]+${ARABIC_MINOR})?)${NOT_ARABIC_AFTER}`
+  )
+];
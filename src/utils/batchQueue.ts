@@ -0,0 +1,84 @@
+/**
+ * Scheduling rules of the persistent batch processing queue
+ *
+ * Batches are processed oldest first and their documents in upload order. A failed document is
+ * retried after a delay that doubles with every attempt, and marked failed once it runs out of
+ * attempts; the rest of the batch carries on meanwhile.
+ */
+import { BatchJob, BatchJobStatus, BatchStatus, ProcessingBatch } from '../types';
+
+export const MAX_ATTEMPTS = 3;
+
+// Documents processed at the same time unless configured otherwise
+export const DEFAULT_CONCURRENCY = 2;
+
+// Delay before the first retry; doubled for every further attempt
+const RETRY_BASE_DELAY = 2000;
+
+export const batchStatusLabels: Record<BatchStatus, string> = {
+  running: 'Running',
+  paused: 'Paused',
+  completed: 'Completed',
+  cancelled: 'Cancelled'
+};
+
+export const jobStatusLabels: Record<BatchJobStatus, string> = {
+  queued: 'Queued',
+  processing: 'Processing',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+export const retryDelay = (attempts: number): number => RETRY_BASE_DELAY * 2 ** Math.max(0, attempts - 1);
+
+export const isJobFinished = (job: BatchJob): boolean => ['done', 'failed', 'cancelled'].includes(job.status);
+
+// The job state after a failed attempt: queued again with a backoff, or failed for good
+export const failJob = (job: BatchJob, error: string, now: number = Date.now()): BatchJob => {
+  const attempts = job.attempts + 1;
+  return attempts < MAX_ATTEMPTS
+    ? { ...job, status: 'queued', attempts, lastError: error, nextAttemptAt: new Date(now + retryDelay(attempts)).toISOString() }
+    : { ...job, status: 'failed', attempts, lastError: error, nextAttemptAt: undefined, finishedAt: new Date(now).toISOString() };
+};
+
+// The state of a job a page reload cut off: queued again while its batch is still going,
+// cancelled once the batch has ended so the batch's counts settle
+export const interruptedJob = (job: BatchJob, batch: ProcessingBatch | undefined, now: number = Date.now()): BatchJob => {
+  return batch && (batch.status === 'running' || batch.status === 'paused')
+    ? { ...job, status: 'queued' }
+    : { ...job, status: 'cancelled', nextAttemptAt: undefined, finishedAt: new Date(now).toISOString() };
+};
+
+// The next job to process from running batches, or when the earliest retry is due if every
+// queued job is waiting for one
+export const nextRunnableJob = (
+  batches: ProcessingBatch[],
+  jobs: BatchJob[],
+  now: number = Date.now()
+): { job?: BatchJob; wakeAt?: number } => {
+  const running = batches
+    .filter(batch => batch.status === 'running')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  let wakeAt: number | undefined;
+  for (const batch of running) {
+    const queued = jobs
+      .filter(job => job.batchId === batch.id && job.status === 'queued')
+      .sort((a, b) => a.position - b.position);
+
+    for (const job of queued) {
+      const dueAt = job.nextAttemptAt ? new Date(job.nextAttemptAt).getTime() : now;
+      if (dueAt <= now) return { job };
+      wakeAt = wakeAt === undefined ? dueAt : Math.min(wakeAt, dueAt);
+    }
+  }
+  return { wakeAt };
+};
+
+// Counts shown for a batch's progress
+export const summarizeJobs = (jobs: BatchJob[]): Record<BatchJobStatus, number> => {
+  const counts: Record<BatchJobStatus, number> = { queued: 0, processing: 0, done: 0, failed: 0, cancelled: 0 };
+  jobs.forEach(job => counts[job.status]++);
+  return counts;
+};
@@ -0,0 +1,49 @@
+/**
+ * Helpers for building the explainability trace behind a confidence score
+ */
+import { ConfidenceStep, FieldCandidate } from '../types';
+
+// Build a trace step
+export const confidenceStep = (rule: string, description: string, delta: number): ConfidenceStep => ({
+  rule,
+  description,
+  delta
+});
+
+// Score a trace: the sum of all steps
+export const traceTotal = (trace: ConfidenceStep[]): number => {
+  return trace.reduce((total, step) => total + step.delta, 0);
+};
+
+export interface ConfidenceAdjuster {
+  // Add (or remove, with a negative delta) points; zero deltas are not recorded
+  add: (rule: string, description: string, delta: number) => void;
+  // Lower the score to max if it is above it
+  cap: (rule: string, description: string, max: number) => void;
+  // The candidate with the adjusted confidence and full trace
+  result: () => FieldCandidate;
+}
+
+// Start adjusting a candidate's confidence, recording each rule that changes it
+export const adjustConfidence = (candidate: FieldCandidate): ConfidenceAdjuster => {
+  const trace: ConfidenceStep[] = candidate.trace
+    ? [...candidate.trace]
+    : [confidenceStep('base', 'Base score', candidate.confidence)];
+  let confidence = candidate.confidence;
+
+  const add = (rule: string, description: string, delta: number) => {
+    if (delta === 0) return;
+    trace.push(confidenceStep(rule, description, delta));
+    confidence += delta;
+  };
+
+  const cap = (rule: string, description: string, max: number) => {
+    if (confidence > max) add(rule, description, max - confidence);
+  };
+
+  return {
+    add,
+    cap,
+    result: () => ({ ...candidate, confidence, trace })
+  };
+};
@@ -0,0 +1,91 @@
+/**
+ * Currencies refunds can be paid in, and how they are written on forms
+ */
+
+export interface CurrencyDefinition {
+  code: string; // ISO 4217 code, stored with amount fields
+  name: string;
+  // Digits after the decimal point (halalas, cents, fils)
+  minorUnits: number;
+  // Codes, symbols and words that mark an amount in this currency, matched case-insensitively
+  symbols: string[];
+}
+
+// Treasury forms are in riyals unless another currency is written next to the amount
+export const DEFAULT_CURRENCY = 'SAR';
+
+export const currencies: CurrencyDefinition[] = [
+  {
+    code: 'SAR',
+    name: 'Saudi Riyal',
+    minorUnits: 2,
+    // The riyal sign is folded to the word "riyal" by text normalization, so both are listed
+    symbols: ['SAR', 'SR', 'ر.س.', 'ر.س', '﷼', 'ريال', 'riyals', 'riyal']
+  },
+  {
+    code: 'USD',
+    name: 'US Dollar',
+    minorUnits: 2,
+    symbols: ['USD', 'US$', '$', 'dollars', 'dollar']
+  },
+  {
+    code: 'AED',
+    name: 'UAE Dirham',
+    minorUnits: 2,
+    symbols: ['AED', 'Dhs', 'Dh', 'د.إ.', 'د.إ', 'dirhams', 'dirham']
+  },
+  {
+    code: 'EUR',
+    name: 'Euro',
+    minorUnits: 2,
+    symbols: ['EUR', '€', 'euros', 'euro']
+  }
+];
+
+// Look up a currency by ISO code
+export const getCurrency = (code: string): CurrencyDefinition | undefined => {
+  return currencies.find(currency => currency.code === code.toUpperCase());
+};
+
+// Regex source for a single symbol; Latin words only match as whole words
+const symbolSource = (symbol: string): string => {
+  const escaped = symbol.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const start = /^[A-Za-z]/.test(symbol) ? '\\b' : '';
+  const end = /[A-Za-z]$/.test(symbol) ? '\\b' : '';
+  return `${start}${escaped}${end}`;
+};
+
+const allSymbols = currencies
+  .flatMap(currency => currency.symbols.map(symbol => ({ symbol, code: currency.code })))
+  .sort((a, b) => b.symbol.length - a.symbol.length); // Longest first, so "US$" wins over "$"
+
+// Non-capturing regex source matching any currency symbol, for use in extraction patterns
+export const currencyPatternSource = `(?:${allSymbols.map(({ symbol }) => symbolSource(symbol)).join('|')})`;
+
+// Currency code of a symbol matched by currencyPatternSource
+const currencyOfSymbol = (symbol: string): string | undefined => {
+  const lower = symbol.toLowerCase();
+  return allSymbols.find(entry => entry.symbol.toLowerCase() === lower)?.code;
+};
+
+// Find the first currency written in a piece of text, e.g. "USD 1,250.00"
+export function detectCurrency(text: string): string | undefined {
+  const match = text.match(new RegExp(currencyPatternSource, 'i'));
+  return match ? currencyOfSymbol(match[0]) : undefined;
+}
+
+// Find the currency written next to an amount at text[start, end): directly before or after it,
+// otherwise anywhere on the same line
+export function findCurrencyNear(text: string, start: number, end: number): string | undefined {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lineEndIndex = text.indexOf('\n', end);
+  const lineEnd = lineEndIndex >= 0 ? lineEndIndex : text.length;
+  
+  const before = text.slice(lineStart, start).match(new RegExp(`(${currencyPatternSource})\\s*$`, 'i'));
+  if (before) return currencyOfSymbol(before[1]);
+  
+  const after = text.slice(end, lineEnd).match(new RegExp(`^\\s*(${currencyPatternSource})`, 'i'));
+  if (after) return currencyOfSymbol(after[1]);
+  
+  return detectCurrency(text.slice(lineStart, lineEnd));
+}
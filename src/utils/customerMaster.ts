@@ -0,0 +1,287 @@
+/**
+ * Customer master data: import of the master CSV export and reconciliation of extraction results
+ *
+ * The master holds each service number's registered customer name and IBAN. A result is looked up
+ * by its service number; the name is compared transliteration-aware, so "Mohammed Al-Qahtani"
+ * matches its Arabic spelling and "Muhammad Alqahtani", and the IBAN must be the registered one.
+ * Values that match the master gain confidence.
+ */
+import { ExtractedData, ExtractedField, FieldReconciliation, MasterReconciliation } from '../types';
+import { confidenceStep } from './confidenceTrace';
+import { isFound, normalizeIban } from './duplicateDetection';
+import { getField, setField } from './fieldDefinitions';
+import { cleanServiceIdentifier } from './serviceIdentifiers';
+import { isArabicScript, transliterateArabic } from './transliteration';
+
+export interface CustomerMasterRecord {
+  serviceNumber: string; // Cleaned with cleanServiceIdentifier
+  registeredName: string;
+  registeredIban: string; // Without spaces
+  importedAt: string;
+}
+
+export interface CustomerMasterImport {
+  records: CustomerMasterRecord[];
+  errors: string[]; // Rows that could not be imported, with their line numbers
+}
+
+// Header names accepted for each column, compared in lower case without spaces or punctuation
+const COLUMN_ALIASES: Record<'serviceNumber' | 'registeredName' | 'registeredIban', string[]> = {
+  serviceNumber: ['servicenumber', 'serviceno', 'service', 'customerservicenumber', 'accountnumber', 'ftthnumber'],
+  registeredName: ['registeredname', 'customername', 'name', 'fullname'],
+  registeredIban: ['registerediban', 'iban', 'ibannumber', 'bankiban']
+};
+
+// Points added to a value that matches the customer master
+const MASTER_MATCH_BOOST = 15;
+
+// Split CSV text into rows of cells, handling quoted cells with commas, quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, ''); // Excel writes a byte order mark
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+const headerKey = (header: string): string => header.toLowerCase().replace(/[^a-z]/g, '');
+
+// Read the customer master CSV export; the first row names the columns
+export const parseCustomerMasterCsv = (text: string, importedAt: string = new Date().toISOString()): CustomerMasterImport => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { records: [], errors: ['The file is empty'] };
+
+  const keys = header.map(headerKey);
+  const columns = Object.fromEntries(
+    Object.entries(COLUMN_ALIASES).map(([column, aliases]) => [column, keys.findIndex(key => aliases.includes(key))])
+  ) as Record<keyof typeof COLUMN_ALIASES, number>;
+
+  const missingColumns = Object.entries(columns).filter(([, index]) => index < 0).map(([column]) => column);
+  if (missingColumns.length > 0) {
+    return { records: [], errors: [`Missing column(s): ${missingColumns.join(', ')}`] };
+  }
+
+  const records: CustomerMasterRecord[] = [];
+  const errors: string[] = [];
+  rows.forEach((cells, index) => {
+    const line = index + 2;
+    const serviceNumber = cleanServiceIdentifier(cells[columns.serviceNumber] ?? '');
+    const registeredName = (cells[columns.registeredName] ?? '').trim();
+    const registeredIban = normalizeIban(cells[columns.registeredIban] ?? '');
+
+    if (!serviceNumber) {
+      errors.push(`Line ${line}: no service number`);
+      return;
+    }
+    if (!registeredName && !registeredIban) {
+      errors.push(`Line ${line}: no registered name or IBAN for ${serviceNumber}`);
+      return;
+    }
+    records.push({ serviceNumber, registeredName, registeredIban, importedAt });
+  });
+
+  return { records, errors };
+};
+
+// Latin spellings of the same Arabic sound, folded before vowels are dropped
+const LATIN_FOLDS: [RegExp, string][] = [
+  [/kh/g, 'x'],
+  [/gh/g, 'g'],
+  [/sh/g, 's'],
+  [/th/g, 't'],
+  [/dh/g, 'd'],
+  [/ph/g, 'f'],
+  [/q/g, 'k'],
+  [/c/g, 'k']
+];
+
+// Words written apart or together, e.g. "Al Qahtani" / "Al-Qahtani", "Abdul Aziz" / "Abdulaziz"
+const JOINED_PREFIXES = ['al', 'el', 'abd', 'abdul', 'abdel'];
+
+// Consonant skeleton of a Latin word: Arabic names are written without short vowels and
+// transliterated many ways, but the consonants mostly survive
+const skeleton = (word: string): string => {
+  let result = word.normalize('NFD').toLowerCase().replace(/[^a-z]/g, '');
+  for (const [pattern, replacement] of LATIN_FOLDS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result.replace(/[aeiouwy]/g, '').replace(/(.)\1+/g, '$1');
+};
+
+// Skeletons of the words of a name in either script
+const nameTokens = (name: string): string[] => {
+  const latin = isArabicScript(name) ? transliterateArabic(name) : name;
+  const words = latin.toLowerCase().replace(/-/g, '').split(/\s+/).filter(Boolean);
+
+  const joined: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    if (JOINED_PREFIXES.includes(words[i]) && i + 1 < words.length) {
+      joined.push(words[i] + words[i + 1]);
+      i++;
+    } else {
+      joined.push(words[i]);
+    }
+  }
+  return joined.map(skeleton).filter(Boolean);
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for identical strings, 0 for nothing in common
+const similarity = (a: string, b: string): number => {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+};
+
+// Similarity of names that match word by word: each word of the shorter name must be found, in
+// order, in the longer one, starting with the first name; 0 when they don't
+const orderedWordSimilarity = (shorter: string[], longer: string[]): number => {
+  const first = similarity(shorter[0], longer[0]);
+  if (shorter.length < 2 || first < 0.75) return 0;
+
+  const scores = [first];
+  let position = 1;
+  for (const token of shorter.slice(1)) {
+    const index = longer.findIndex((candidate, i) => i >= position && similarity(token, candidate) >= 0.75);
+    if (index < 0) return 0;
+    scores.push(similarity(token, longer[index]));
+    position = index + 1;
+  }
+  return scores.reduce((total, score) => total + score, 0) / scores.length;
+};
+
+/**
+ * How alike two names are, from 0 to 1, in Arabic or any Latin transliteration. Registered names
+ * are often the full name ("Mohammed bin Abdullah Al-Qahtani") where forms carry the first and
+ * family name, so a shorter name whose words all appear, in order, in the longer one scores as
+ * high as its words match.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  return Math.max(similarity(tokensA.join(''), tokensB.join('')), orderedWordSimilarity(shorter, longer));
+};
+
+// Whether two names belong to the same person
+export const namesMatch = (a: string, b: string): boolean => nameSimilarity(a, b) >= 0.8;
+
+// Compare a result with the master record of its service number
+export const reconcileWithMaster = (
+  data: ExtractedData,
+  record: CustomerMasterRecord | undefined,
+  reconciledAt: string = new Date().toISOString()
+): MasterReconciliation => {
+  const serviceNumber = cleanServiceIdentifier(data.customerServiceNumber.value);
+  if (!record) {
+    return {
+      serviceNumber,
+      onRecord: false,
+      fields: [{ field: 'customerServiceNumber', status: 'notOnRecord', extracted: data.customerServiceNumber.value, registered: '' }],
+      reconciledAt
+    };
+  }
+
+  const fields: FieldReconciliation[] = [
+    { field: 'customerServiceNumber', status: 'match', extracted: data.customerServiceNumber.value, registered: record.serviceNumber }
+  ];
+
+  if (record.registeredName) {
+    // The Latin or the Arabic name on the form may be the one that matches
+    const names = [getField(data, 'customerName'), getField(data, 'customerNameArabic')]
+      .map(field => field?.value ?? '')
+      .filter(isFound);
+    fields.push({
+      field: 'customerName',
+      status: names.length === 0 ? 'missing' : names.some(name => namesMatch(name, record.registeredName)) ? 'match' : 'mismatch',
+      extracted: data.customerName.value,
+      registered: record.registeredName
+    });
+  }
+
+  if (record.registeredIban) {
+    fields.push({
+      field: 'ibanNumber',
+      status: !isFound(data.ibanNumber.value) ? 'missing'
+        : normalizeIban(data.ibanNumber.value) === record.registeredIban ? 'match' : 'mismatch',
+      extracted: data.ibanNumber.value,
+      registered: record.registeredIban
+    });
+  }
+
+  return { serviceNumber, onRecord: true, fields, reconciledAt };
+};
+
+// Raise the confidence of values that match the master, once per value
+const boostField = (field: ExtractedField): ExtractedField => {
+  const trace = field.trace ?? [confidenceStep('base', 'Base score', field.confidence)];
+  if (trace.some(step => step.rule === 'master.match')) return field;
+
+  const boosted = [...trace, confidenceStep('master.match', 'Matches the customer master record', MASTER_MATCH_BOOST)];
+  const confidence = field.confidence + MASTER_MATCH_BOOST;
+  if (confidence > 100) boosted.push(confidenceStep('cap.max', 'Confidence is capped at 100%', 100 - confidence));
+
+  return { ...field, confidence: Math.min(confidence, 100), trace: boosted };
+};
+
+// The result with its reconciliation, and matching values raised in confidence
+export const applyMasterReconciliation = (data: ExtractedData, reconciliation: MasterReconciliation): ExtractedData => {
+  return reconciliation.fields
+    .filter(field => field.status === 'match')
+    .reduce<ExtractedData>((result, { field }) => {
+      const extracted = getField(result, field);
+      return extracted ? setField(result, field, boostField(extracted)) : result;
+    }, { ...data, masterData: reconciliation });
+};
@@ -0,0 +1,117 @@
+/**
+ * Detection of refunds that have already been processed
+ *
+ * Customers resubmit the same refund form, sometimes as a fresh scan and sometimes with the name
+ * typed differently. A new result is compared with every stored result: an identical file, the
+ * same IBAN and service number, or the same amount paid to a similarly named customer makes it a
+ * suspected duplicate, which has to be resolved before export.
+ */
+import Fuse from 'fuse.js';
+import { DuplicateLink, DuplicateReason, ExtractedData } from '../types';
+import { DEFAULT_CURRENCY } from './currencies';
+import { cleanServiceIdentifier } from './serviceIdentifiers';
+
+export const duplicateReasonLabels: Record<DuplicateReason, string> = {
+  sameFile: 'identical file',
+  ibanAndServiceNumber: 'same IBAN and service number',
+  amount: 'same amount',
+  name: 'similar customer name'
+};
+
+// How close two customer names must be to count as the same customer (0 is an exact match)
+const NAME_MATCH_THRESHOLD = 0.3;
+
+export const normalizeIban = (value: string): string => value.replace(/\s/g, '').toUpperCase();
+
+// An amount with its currency, or null when no amount was found
+const amountKey = (result: ExtractedData): string | null => {
+  const amount = parseFloat(result.refundAmount.value.replace(/,/g, ''));
+  if (isNaN(amount) || amount === 0) return null;
+  return `${amount.toFixed(2)} ${result.refundAmount.currency ?? DEFAULT_CURRENCY}`;
+};
+
+export const isFound = (value: string): boolean => value.trim() !== '' && value !== 'Unknown';
+
+// IDs of the results whose customer name is close to a name
+export const findSimilarNames = (name: string, results: ExtractedData[]): Set<string> => {
+  if (!isFound(name) || results.length === 0) return new Set();
+
+  const fuse = new Fuse(results, {
+    keys: ['customerName.value'],
+    includeScore: true,
+    ignoreLocation: true,
+    threshold: NAME_MATCH_THRESHOLD
+  });
+  return new Set(fuse.search(name).map(match => match.item.id));
+};
+
+// Reasons a stored result looks like the same refund as the new one
+const duplicateReasons = (
+  result: ExtractedData,
+  stored: ExtractedData,
+  similarNames: Set<string>,
+  sameFileIds: string[]
+): DuplicateReason[] => {
+  const reasons: DuplicateReason[] = [];
+
+  if (sameFileIds.includes(stored.id)) reasons.push('sameFile');
+
+  if (isFound(result.ibanNumber.value) && isFound(result.customerServiceNumber.value) &&
+      normalizeIban(result.ibanNumber.value) === normalizeIban(stored.ibanNumber.value) &&
+      cleanServiceIdentifier(result.customerServiceNumber.value) === cleanServiceIdentifier(stored.customerServiceNumber.value)) {
+    reasons.push('ibanAndServiceNumber');
+  }
+
+  const amount = amountKey(result);
+  if (amount && amount === amountKey(stored)) reasons.push('amount');
+
+  if (similarNames.has(stored.id)) reasons.push('name');
+
+  return reasons;
+};
+
+// A matching amount or name alone is common; together, or with one of the stronger reasons,
+// they point to the same refund
+const isSuspectedDuplicate = (reasons: DuplicateReason[]): boolean => {
+  return reasons.includes('sameFile') ||
+    reasons.includes('ibanAndServiceNumber') ||
+    (reasons.includes('amount') && reasons.includes('name'));
+};
+
+// Stored results suspected of being the same refund as a result. sameFileIds are the stored
+// documents whose content hash equals the result's document.
+export const findDuplicates = (
+  result: ExtractedData,
+  storedResults: ExtractedData[],
+  sameFileIds: string[] = []
+): DuplicateLink[] => {
+  const others = storedResults.filter(stored => stored.id !== result.id);
+  if (others.length === 0) return [];
+
+  const similarNames = findSimilarNames(result.customerName.value, others);
+
+  // Keep acknowledgements a reviewer already gave for a link
+  const acknowledged = new Set(
+    (result.duplicates ?? []).filter(link => link.acknowledged).map(link => link.id)
+  );
+
+  return others
+    .map(stored => ({ stored, reasons: duplicateReasons(result, stored, similarNames, sameFileIds) }))
+    .filter(({ reasons }) => isSuspectedDuplicate(reasons))
+    .map(({ stored, reasons }) => ({
+      id: stored.id,
+      fileName: stored.fileName,
+      timestamp: stored.timestamp,
+      reasons,
+      ...(acknowledged.has(stored.id) ? { acknowledged: true } : {})
+    }));
+};
+
+// Suspected duplicates no reviewer has resolved yet
+export const unresolvedDuplicates = (result: ExtractedData): DuplicateLink[] => {
+  return (result.duplicates ?? []).filter(link => !link.acknowledged);
+};
+
+export const describeDuplicateReasons = (reasons: DuplicateReason[]): string => {
+  return reasons.map(reason => duplicateReasonLabels[reason]).join(', ');
+};
@@ -1,46 +1,144 @@
 /**
  * Utility functions for extracting information from document text
  */
-import { ExtractedData, DocumentSection } from '../types';
+import { ExtractedData, ExtractedField, DocumentSection, FieldCandidate, FieldSource, ConfidenceStep, LineItemTable, PageText } from '../types';
 import { 
   divideDocumentIntoSections, 
   findPatternInSections, 
+  findAllPatternMatches,
+  rankCandidates,
+  locateMatch,
+  locateOffset,
   detectFormLayout 
 } from './layoutDetection';
 import TrainingService from '../services/TrainingService';
+import { fieldDefinitions, getFieldDefinition, FieldDefinition, CoreFieldKey } from './fieldDefinitions';
+import { adjustConfidence, confidenceStep } from './confidenceTrace';
+import { normalizeText, toOriginalSpan, NormalizedText } from './textNormalization';
+import { transliterateArabic } from './transliteration';
+import { validateCustomerName, validateAmount, validateAmountInWords, crossCheckAmountInWords } from '../services/DataValidationService';
+import { DEFAULT_CURRENCY, currencyPatternSource, findCurrencyNear } from './currencies';
+import { parseLineItems } from './lineItems';
+import { ocrPagePenalty } from './pageText';
+import { describeRepairs, followsIbanLabel, hasIbanCountryFormat, hasKnownAccountFormat, ocrIbanPattern, recoverIban } from './iban';
+import {
+  ServiceIdentifierType,
+  buildServiceIdentifierPatterns,
+  getServiceIdentifierTypes,
+  identifyServiceIdentifier,
+  serviceIdentifierTypeOf
+} from './serviceIdentifiers';
 
 // Training service instance
 const trainingService = TrainingService.getInstance();
 
+// Result of a field extractor: the best candidate plus the ranked list it was chosen from
+export type FieldExtractionResult = FieldCandidate & {
+  candidates: FieldCandidate[];
+};
+
+// Default patterns for a field from the field registry
+const getDefaultPatterns = (key: string): RegExp[] => {
+  return getFieldDefinition(key)?.patterns ?? [];
+};
+
+const notFound = (value: string): FieldCandidate => ({
+  value,
+  confidence: 0,
+  position: -1,
+  sectionIndex: -1,
+  pattern: '',
+  start: -1,
+  end: -1,
+  page: -1,
+  trace: []
+});
+
+// Build a candidate for a match found in a specific section, scored by a single base rule
+const sectionCandidate = (
+  sections: DocumentSection[],
+  section: DocumentSection,
+  match: RegExpMatchArray,
+  value: string,
+  base: ConfidenceStep,
+  pattern: RegExp,
+  sectionType?: string
+): FieldCandidate => ({
+  value,
+  confidence: base.delta,
+  trace: [base],
+  position: (section.startPercentage + section.endPercentage) / 2,
+  sectionIndex: sections.indexOf(section),
+  sectionType,
+  pattern: pattern.source,
+  ...locateMatch(section, match, value)
+});
+
+// Wrap the chosen candidate with the ranked alternatives found by the same patterns
+const withCandidates = (
+  best: FieldCandidate,
+  sections: DocumentSection[],
+  patterns: RegExp[],
+  adjust: (candidate: FieldCandidate) => FieldCandidate
+): FieldExtractionResult => {
+  const others = findAllPatternMatches(sections, patterns).map(adjust);
+  
+  return { ...best, candidates: rankCandidates(best, others) };
+};
+
+// Adjust a pattern match confidence for a customer name based on where it was found and its format
+const adjustNameConfidence = (candidate: FieldCandidate): FieldCandidate => {
+  const name = candidate.value;
+  const score = adjustConfidence(candidate);
+  
+  // Boost confidence for names in the customer info section
+  if (candidate.sectionType === 'customerInfo') {
+    score.add('name.customerInfoSection', 'Name found in the customer information section', 15);
+  } else if (candidate.sectionType === 'top') {
+    score.add('name.topSection', 'Name found in the top of the document', 10);
+  } else if (candidate.sectionType === 'signature') {
+    score.add('name.signatureSection', 'Name found in the signature section', -50); // Severely reduce confidence for names in signature sections
+  }
+  
+  // Additional confidence adjustments based on name format
+  if (name.length > 3 && name.length < 50) score.add('name.length', 'Name length is plausible (4-49 characters)', 5);
+  if (/^[A-Z][a-z]+(\s[A-Z][a-z]+)+$/.test(name)) score.add('name.capitalized', 'Name is written as capitalized words', 5);
+  
+  // Extra boost for Middle Eastern names with Al/El
+  if (/\b(Al|El)\b/i.test(name)) score.add('name.alEl', 'Name contains the Al/El family prefix', 8);
+  
+  // CRITICAL FIX: If this is in a signature section, only use if nothing else was found
+  // and apply a very low confidence
+  if (candidate.sectionType === 'signature') {
+    score.cap('name.signatureCap', 'Signature section names are capped at 40%', 40); // Cap confidence for signature section names
+  }
+  
+  score.cap('cap.max', 'Confidence is capped at 100%', 100);
+  return score.result();
+};
+
 // Extract customer name with confidence score, considering position
 export const extractCustomerName = async (
   sections: DocumentSection[]
-): Promise<{ 
-  value: string; 
-  confidence: number;
-  position: number;
-}> => {
+): Promise<FieldExtractionResult> => {
   // Get trained patterns from training service
   const trainedPatterns = trainingService.getPatterns('customerName');
   
   // Combine with default patterns - put highly specific patterns first for priority
   const namePatterns = [
     ...trainedPatterns,
-    // Treasury form specific patterns targeting customer info section
-    /customer information[\s\S]{0,50}name\s*[:\.\s]*([A-Za-z\s.'-]+)/i, // Look for name in customer info section
-    /MR\s*\.\s*([A-Za-z\s.'-]+)/i, // Match format "MR. Name"
-    /(MR\s*\.)?\s*([A-Za-z\s.'-]+)\s+(?:Al|El)\s+([A-Za-z\s.'-]+)/i, // Middle Eastern name format
-    /customer[\s\S]{0,50}name\s*[:\.\s]*([A-Za-z\s.'-]+)/i, // Alternative customer info format
-    
-    // Generic patterns with lower priority
-    /customer\s*name\s*:\s*([A-Za-z\s.'-]+)/i,
-    /name\s*:\s*([A-Za-z\s.'-]+)/i,
-    /client\s*:\s*([A-Za-z\s.'-]+)/i,
-    /applicant\s*:\s*([A-Za-z\s.'-]+)/i,
-    /recipient\s*:\s*([A-Za-z\s.'-]+)/i,
-    /account\s*holder\s*:\s*([A-Za-z\s.'-]+)/i
+    ...getDefaultPatterns('customerName')
   ];
+  
+  const best = findBestCustomerName(sections, namePatterns);
+  return withCandidates(best, sections, namePatterns, adjustNameConfidence);
+};
 
+// Pick the single most likely customer name, searching sections in priority order
+const findBestCustomerName = (
+  sections: DocumentSection[],
+  namePatterns: RegExp[]
+): FieldCandidate => {
   // CRITICAL FIX: Explicitly search for names in the customer information section first
   const customerInfoSection = sections.find(s => s.isCustomerInfoSection);
   const topSections = sections.filter(s => s.endPercentage <= 30 && !s.isSignatureSection);
@@ -60,35 +158,23 @@ export const extractCustomerName = async (
     const treasuryNameMatch = customerInfoSection.content.match(treasuryNamePattern);
     
     if (treasuryNameMatch && treasuryNameMatch[1]) {
-      const position = (customerInfoSection.startPercentage + customerInfoSection.endPercentage) / 2;
-      return { 
-        value: treasuryNameMatch[1].trim(), 
-        confidence: 98, // Very high confidence
-        position
-      };
+      // Very high confidence
+      return sectionCandidate(sections, customerInfoSection, treasuryNameMatch, treasuryNameMatch[1].trim(), confidenceStep('name.treasuryLabel', 'Name label found in the customer information section', 98), treasuryNamePattern, 'customerInfo');
     }
     
     // Look for title pattern (MR., etc.)
     const titleMatch = customerInfoSection.content.match(titlePattern);
     if (titleMatch && titleMatch[2]) {
-      const position = (customerInfoSection.startPercentage + customerInfoSection.endPercentage) / 2;
-      return { 
-        value: titleMatch[2].trim(), 
-        confidence: 98, // Very high confidence
-        position
-      };
+      // Very high confidence
+      return sectionCandidate(sections, customerInfoSection, titleMatch, titleMatch[2].trim(), confidenceStep('name.titleCustomerInfo', 'Name with a title (MR., DR., ...) in the customer information section', 98), titlePattern, 'customerInfo');
     }
     
     // Try general name patterns in customer info section
     for (const pattern of namePatterns) {
       const match = customerInfoSection.content.match(pattern);
       if (match && match[1]) {
-        const position = (customerInfoSection.startPercentage + customerInfoSection.endPercentage) / 2;
-        return {
-          value: match[1].trim(),
-          confidence: 95, // High confidence for customer info section
-          position
-        };
+        // High confidence for customer info section
+        return sectionCandidate(sections, customerInfoSection, match, match[1].trim(), confidenceStep('name.patternCustomerInfo', 'Name pattern matched in the customer information section', 95), pattern, 'customerInfo');
       }
     }
   }
@@ -98,24 +184,16 @@ export const extractCustomerName = async (
     // First look for title pattern (MR., etc.)
     const titleMatch = section.content.match(titlePattern);
     if (titleMatch && titleMatch[2]) {
-      const position = (section.startPercentage + section.endPercentage) / 2;
-      return { 
-        value: titleMatch[2].trim(), 
-        confidence: 95, // High confidence
-        position
-      };
+      // High confidence
+      return sectionCandidate(sections, section, titleMatch, titleMatch[2].trim(), confidenceStep('name.titleTopLabeled', 'Name with a title in a top section that has a name label', 95), titlePattern, 'top');
     }
     
     // Then try general name patterns
     for (const pattern of namePatterns) {
       const match = section.content.match(pattern);
       if (match && match[1]) {
-        const position = (section.startPercentage + section.endPercentage) / 2;
-        return {
-          value: match[1].trim(),
-          confidence: 90, // Good confidence for top sections with name fields
-          position
-        };
+        // Good confidence for top sections with name fields
+        return sectionCandidate(sections, section, match, match[1].trim(), confidenceStep('name.patternTopLabeled', 'Name pattern matched in a top section that has a name label', 90), pattern, 'top');
       }
     }
   }
@@ -125,60 +203,22 @@ export const extractCustomerName = async (
     // First look for title pattern
     const titleMatch = section.content.match(titlePattern);
     if (titleMatch && titleMatch[2]) {
-      const position = (section.startPercentage + section.endPercentage) / 2;
-      return { 
-        value: titleMatch[2].trim(), 
-        confidence: 85,
-        position
-      };
+      return sectionCandidate(sections, section, titleMatch, titleMatch[2].trim(), confidenceStep('name.titleTop', 'Name with a title in a top section', 85), titlePattern, 'top');
     }
     
     // Then try general name patterns
     for (const pattern of namePatterns) {
       const match = section.content.match(pattern);
       if (match && match[1]) {
-        const position = (section.startPercentage + section.endPercentage) / 2;
-        return {
-          value: match[1].trim(),
-          confidence: 80, // Medium confidence for general top sections
-          position
-        };
+        // Medium confidence for general top sections
+        return sectionCandidate(sections, section, match, match[1].trim(), confidenceStep('name.patternTop', 'Name pattern matched in a top section', 80), pattern, 'top');
       }
     }
   }
   
   // Use standard pattern matching with section priority as fallback
-  const result = findPatternInSections(sections, namePatterns);
-  
-  if (result.match) {
-    const name = result.match.trim();
-    // Adjust confidence based on name format
-    let confidence = result.confidence;
-    
-    // Boost confidence for names in the customer info section
-    if (result.sectionType === 'customerInfo') {
-      confidence += 15;
-    } else if (result.sectionType === 'top') {
-      confidence += 10;
-    } else if (result.sectionType === 'signature') {
-      confidence -= 50; // Severely reduce confidence for names in signature sections
-    }
-    
-    // Additional confidence adjustments based on name format
-    if (name.length > 3 && name.length < 50) confidence += 5;
-    if (/^[A-Z][a-z]+(\s[A-Z][a-z]+)+$/.test(name)) confidence += 5;
-    
-    // Extra boost for Middle Eastern names with Al/El
-    if (/\b(Al|El)\b/i.test(name)) confidence += 8;
-    
-    // CRITICAL FIX: If this is in a signature section, only use if nothing else was found
-    // and apply a very low confidence
-    if (result.sectionType === 'signature') {
-      confidence = Math.min(confidence, 40); // Cap confidence for signature section names
-    }
-    
-    return { value: name, confidence: Math.min(confidence, 100), position: result.position };
-  }
+  const result = findBestMatch(sections, namePatterns, adjustNameConfidence);
+  if (result) return result;
   
   // Fallback: try to find any sequence that looks like a name in non-signature sections
   const nonSignatureSections = sections.filter(s => !s.isSignatureSection);
@@ -186,316 +226,494 @@ export const extractCustomerName = async (
     const nameRegex = /([A-Z][a-z]+(?:\s[A-Z][a-z]+)+(?:\s(?:Al|El)\s[A-Z][a-z]+)?)/;
     const possibleName = section.content.match(nameRegex);
     if (possibleName && possibleName[1]) {
-      const position = (section.startPercentage + section.endPercentage) / 2;
-      
       // Higher confidence for customer info or top sections
-      let confidence = 60;
+      let base = confidenceStep('name.anyCapitalized', 'Capitalized words that look like a name', 60);
       if (section.isCustomerInfoSection) {
-        confidence = 80;
+        base = confidenceStep('name.anyCapitalizedCustomerInfo', 'Capitalized words that look like a name in the customer information section', 80);
       } else if (section.endPercentage <= 30) {
-        confidence = 70;
+        base = confidenceStep('name.anyCapitalizedTop', 'Capitalized words that look like a name in the top of the document', 70);
       }
       
-      return { 
-        value: possibleName[1].trim(), 
-        confidence,
-        position
-      };
+      return sectionCandidate(sections, section, possibleName, possibleName[1].trim(), base, nameRegex);
     }
   }
   
-  return { value: "Unknown", confidence: 0, position: -1 };
+  return notFound("Unknown");
 };
 
 // Extract refund amount with confidence score, considering position
 export const extractRefundAmount = async (
   sections: DocumentSection[]
-): Promise<{ 
-  value: string; 
-  confidence: number;
-  position: number;
-}> => {
+): Promise<FieldExtractionResult> => {
   // Get trained patterns from training service
   const trainedPatterns = trainingService.getPatterns('refundAmount');
   
   // Combine with default patterns
   const amountPatterns = [
     ...trainedPatterns,
-    /refund\s*amount\s*:\s*(?:SAR|SR|ر.س.|﷼)?\s*([0-9,.]+)/i,
-    /amount\s*:\s*(?:SAR|SR|ر.س.|﷼)?\s*([0-9,.]+)/i,
-    /total\s*:\s*(?:SAR|SR|ر.س.|﷼)?\s*([0-9,.]+)/i,
-    /payment\s*amount\s*:\s*(?:SAR|SR|ر.س.|﷼)?\s*([0-9,.]+)/i,
-    /(?:SAR|SR|ر.س.|﷼)\s*([0-9,.]+)/i,
-    /([0-9,.]+)\s*(?:SAR|SR|ر.س.|﷼)/i,
+    ...getDefaultPatterns('refundAmount')
   ];
   
-  const result = findPatternInSections(sections, amountPatterns);
-  
-  if (result.match) {
-    const amount = result.match.trim();
-    // Adjust confidence based on amount format
-    let confidence = result.confidence;
+  // Adjust confidence based on amount format
+  const adjust = (candidate: FieldCandidate): FieldCandidate => {
+    const amount = candidate.value;
+    const score = adjustConfidence(candidate);
     // Check if section contains refund keywords
     const sectionWithAmount = sections.find(s => s.content.includes(amount));
     if (sectionWithAmount && 
-        sectionWithAmount.content.toLowerCase().includes("refund")) confidence += 5;
-    if (/^[0-9]+(\.[0-9]{2})?$/.test(amount)) confidence += 5; // Proper format like 100.00
-    return { value: amount, confidence: Math.min(confidence, 100), position: result.position };
-  }
+        sectionWithAmount.content.toLowerCase().includes("refund")) score.add('amount.refundKeyword', 'Section mentions "refund"', 5);
+    if (/^[0-9]+(\.[0-9]{2})?$/.test(amount)) score.add('amount.format', 'Amount has a proper format like 100.00', 5); // Proper format like 100.00
+    score.cap('cap.max', 'Confidence is capped at 100%', 100);
+    return score.result();
+  };
+  
+  const best = findBestMatch(sections, amountPatterns, adjust) ?? findAnyAmount(sections);
+  return withCandidates(best, sections, amountPatterns, adjust);
+};
+
+// Fallback: search for any number that might be an amount
+const findAnyAmount = (sections: DocumentSection[]): FieldCandidate => {
+  const numberPattern = /([0-9]+(\.[0-9]{2})?)/;
   
-  // Fallback: search for any number that might be an amount
   for (const section of sections) {
-    const possibleAmount = section.content.match(/([0-9]+(\.[0-9]{2})?)/);
+    const possibleAmount = section.content.match(numberPattern);
     if (possibleAmount && possibleAmount[1]) {
-      const position = (section.startPercentage + section.endPercentage) / 2;
       // Check if section has any money-related keywords
       const hasCurrencyContexts = 
         section.content.toLowerCase().includes("amount") || 
         section.content.toLowerCase().includes("payment") ||
         section.content.toLowerCase().includes("total") ||
         section.content.toLowerCase().includes("sum") ||
-        section.content.toLowerCase().includes("sar") ||
-        section.content.toLowerCase().includes("refund");
+        section.content.toLowerCase().includes("refund") ||
+        new RegExp(currencyPatternSource, 'i').test(section.content);
       
-      return { 
-        value: possibleAmount[1], 
-        confidence: hasCurrencyContexts ? 60 : 40,
-        position
-      };
+      const base = hasCurrencyContexts
+        ? confidenceStep('amount.anyNumberWithContext', 'First number in a section with money-related words', 60)
+        : confidenceStep('amount.anyNumber', 'First number found in the document', 40);
+      return sectionCandidate(sections, section, possibleAmount, possibleAmount[1], base, numberPattern);
     }
   }
   
-  return { value: "0.00", confidence: 0, position: -1 };
+  return notFound("0.00");
+};
+
+// Run the prioritized section search and apply a field-specific confidence adjustment
+const findBestMatch = (
+  sections: DocumentSection[],
+  patterns: RegExp[],
+  adjust: (candidate: FieldCandidate) => FieldCandidate
+): FieldCandidate | null => {
+  const result = findPatternInSections(sections, patterns);
+  if (!result.match) return null;
+  
+  const candidate: FieldCandidate = {
+    value: result.match.trim(),
+    confidence: result.confidence,
+    position: result.position,
+    sectionIndex: result.sectionIndex ?? -1,
+    sectionType: result.sectionType,
+    pattern: result.pattern ?? '',
+    start: result.start ?? -1,
+    end: result.end ?? -1,
+    page: result.page ?? -1,
+    trace: result.trace
+  };
+  
+  return adjust(candidate);
 };
 
 // Extract IBAN with confidence score, considering position
 export const extractIBAN = async (
   sections: DocumentSection[]
-): Promise<{ 
-  value: string; 
-  confidence: number;
-  position: number;
-}> => {
+): Promise<FieldExtractionResult> => {
   // Get trained patterns from training service
   const trainedPatterns = trainingService.getPatterns('ibanNumber');
   
   // Combine with default patterns
   const ibanPatterns = [
     ...trainedPatterns,
-    /iban\s*:\s*(SA\d{22})/i,
-    /iban\s*number\s*:\s*(SA\d{22})/i,
-    /bank\s*account\s*:\s*(SA\d{22})/i,
-    /account\s*number\s*:\s*(SA\d{22})/i,
-    /(SA\d{22})/i
+    ...getDefaultPatterns('ibanNumber')
   ];
   
-  const result = findPatternInSections(sections, ibanPatterns);
-  
-  if (result.match) {
-    const iban = result.match.trim();
-    // Adjust confidence based on IBAN format
-    let confidence = result.confidence;
-    // Check if section contains bank keywords
-    const sectionWithIban = sections.find(s => s.content.includes(iban));
+  // Adjust confidence based on IBAN format
+  const adjust = (candidate: FieldCandidate): FieldCandidate => {
+    const iban = candidate.value;
+    const score = adjustConfidence(candidate);
+    // Check if section contains bank keywords; recovered IBANs don't appear verbatim in the text
+    const sectionWithIban = sections[candidate.sectionIndex] ?? sections.find(s => s.content.includes(iban));
     if (sectionWithIban && 
         (sectionWithIban.content.toLowerCase().includes("iban") || 
-         sectionWithIban.content.toLowerCase().includes("bank"))) confidence += 5;
-    if (/^SA\d{22}$/.test(iban)) confidence += 5; // Perfect IBAN format
-    return { value: iban, confidence: Math.min(confidence, 100), position: result.position };
-  }
+         sectionWithIban.content.toLowerCase().includes("bank"))) score.add('iban.bankKeyword', 'Section mentions "IBAN" or "bank"', 5);
+    if (hasIbanCountryFormat(iban.toUpperCase())) score.add('iban.format', 'Value has the IBAN length and format of its country', 5); // Perfect IBAN format
+    score.cap('cap.max', 'Confidence is capped at 100%', 100);
+    return score.result();
+  };
+  
+  // Grouped or OCR-damaged IBANs the patterns can't match, best first
+  const recovered = findRecoveredIbans(sections)
+    .map(({ candidate, labelled }) => ({ candidate: adjust(candidate), labelled }))
+    .sort((a, b) => b.candidate.confidence - a.candidate.confidence);
+  
+  // Only a recovered IBAN printed after an IBAN label may fill the field; others stay alternatives
+  const best = findBestMatch(sections, ibanPatterns, adjust) ??
+    recovered.find(({ labelled }) => labelled)?.candidate ??
+    notFound("Unknown");
+  const others = [...findAllPatternMatches(sections, ibanPatterns).map(adjust), ...recovered.map(({ candidate }) => candidate)];
+  return { ...best, candidates: rankCandidates(best, others) };
+};
+
+// Fallback: IBANs printed in groups or with OCR confusions, kept only if they pass the mod-97 check.
+// Without an IBAN label in front, only countries whose account format we check are recovered.
+const findRecoveredIbans = (sections: DocumentSection[]): { candidate: FieldCandidate; labelled: boolean }[] => {
+  const candidates: { candidate: FieldCandidate; labelled: boolean }[] = [];
   
-  // Fallback: search for anything that looks like an IBAN
   for (const section of sections) {
-    const possibleIban = section.content.match(/(SA\d{10,})/i);
-    if (possibleIban && possibleIban[1]) {
-      const position = (section.startPercentage + section.endPercentage) / 2;
-      return { 
-        value: possibleIban[1], 
-        confidence: 60,
-        position
-      };
+    for (const match of section.content.matchAll(ocrIbanPattern)) {
+      const recovered = recoverIban(match[1]);
+      const labelled = followsIbanLabel(section.content, match.index ?? 0);
+      if (!recovered || (!labelled && !hasKnownAccountFormat(recovered.iban))) continue;
+      
+      const base = confidenceStep('iban.recovered', 'Grouped or OCR-damaged IBAN that passes the mod-97 check', 85);
+      const candidate = sectionCandidate(sections, section, match, recovered.iban, base, ocrIbanPattern);
+      const score = adjustConfidence(candidate);
+      score.add('iban.repaired', `Repaired ${describeRepairs(recovered.repairs)}`, -5 * recovered.repairs.length);
+      candidates.push({
+        candidate: {
+          ...score.result(),
+          ...(recovered.repairs.length > 0 ? { repairs: recovered.repairs } : {})
+        },
+        labelled
+      });
     }
   }
   
-  return { value: "Unknown", confidence: 0, position: -1 };
+  return candidates;
 };
 
 // Extract Customer Service Number with confidence score, considering position
 export const extractServiceNumber = async (
   sections: DocumentSection[]
-): Promise<{ 
-  value: string; 
-  confidence: number;
-  position: number;
-}> => {
+): Promise<FieldExtractionResult> => {
   // Get trained patterns from training service
   const trainedPatterns = trainingService.getPatterns('customerServiceNumber');
   
-  // Combine with default patterns
+  // Combine with patterns for the identifier types currently in the registry
+  const types = getServiceIdentifierTypes();
   const servicePatterns = [
     ...trainedPatterns,
-    // Specifically look for FTTH pattern in customer info section
-    /customer information[\s\S]{0,100}(FTTH\d+)/i,
-    // Standard patterns
-    /service\s*number\s*:\s*(FTTH\d+)/i,
-    /customer\s*service\s*number\s*:\s*(FTTH\d+)/i,
-    /customer\s*id\s*:\s*(FTTH\d+)/i,
-    /reference\s*number\s*:\s*(FTTH\d+)/i,
-    /reference\s*:\s*(FTTH\d+)/i,
-    /(FTTH\d+)/i
+    ...buildServiceIdentifierPatterns(types).map(({ pattern }) => pattern)
   ];
+  const keywords = ['service', ...types.flatMap(type => type.keywords)];
   
-  const result = findPatternInSections(sections, servicePatterns);
-  
-  if (result.match) {
-    const serviceNumber = result.match.trim();
-    // Adjust confidence based on service number format
-    let confidence = result.confidence;
+  // Adjust confidence based on service number format
+  const adjust = (candidate: FieldCandidate): FieldCandidate => {
+    const serviceNumber = candidate.value;
+    const score = adjustConfidence(candidate);
     // Check if section contains service keywords
     const sectionWithService = sections.find(s => s.content.includes(serviceNumber));
-    if (sectionWithService && 
-        (sectionWithService.content.toLowerCase().includes("service") || 
-         sectionWithService.content.toLowerCase().includes("customer id"))) confidence += 5;
-    if (/^FTTH\d{3,9}$/.test(serviceNumber)) confidence += 5; // Expected format
+    const sectionContent = sectionWithService?.content.toLowerCase() ?? '';
+    if (keywords.some(keyword => sectionContent.includes(keyword))) {
+      score.add('service.keyword', 'Section mentions a service identifier label', 5);
+    }
+    const type = identifyServiceIdentifier(serviceNumber);
+    if (type) score.add('service.format', `Value is a valid ${type.label}`, 5); // Expected format
     
     // Boost confidence if found in customer information section
-    if (result.sectionType === 'customerInfo') {
-      confidence += 10;
+    if (candidate.sectionType === 'customerInfo') {
+      score.add('service.customerInfoSection', 'Found in the customer information section', 10);
     }
     
-    return { value: serviceNumber, confidence: Math.min(confidence, 100), position: result.position };
-  }
+    score.cap('cap.max', 'Confidence is capped at 100%', 100);
+    return score.result();
+  };
+  
+  const best = findBestMatch(sections, servicePatterns, adjust) ?? findAnyServiceNumber(sections, types);
+  return withCandidates(best, sections, servicePatterns, adjust);
+};
+
+// Fallback: search for anything that looks like a standalone service identifier
+const findAnyServiceNumber = (sections: DocumentSection[], types: ServiceIdentifierType[]): FieldCandidate => {
+  const servicePatterns = buildServiceIdentifierPatterns(types).filter(({ kind }) => kind === 'bare');
   
-  // Fallback: search for anything that looks like a service number
   for (const section of sections) {
-    const possibleService = section.content.match(/(FTTH\d+)/i);
-    if (possibleService && possibleService[1]) {
-      const position = (section.startPercentage + section.endPercentage) / 2;
-      // Higher confidence if in customer info section
-      let confidence = 70;
-      if (section.isCustomerInfoSection) {
-        confidence = 85;
+    for (const { pattern, type } of servicePatterns) {
+      const possibleService = section.content.match(pattern);
+      if (possibleService && possibleService[1]) {
+        // Higher confidence if in customer info section
+        const base = section.isCustomerInfoSection
+          ? confidenceStep('service.anyIdentifierCustomerInfo', `${type.label} in the customer information section`, 85)
+          : confidenceStep('service.anyIdentifier', `${type.label} found in the document`, 70);
+        return sectionCandidate(sections, section, possibleService, possibleService[1], base, pattern);
       }
-      return { 
-        value: possibleService[1], 
-        confidence,
-        position
-      };
     }
   }
   
-  return { value: "Unknown", confidence: 0, position: -1 };
+  return notFound("Unknown");
+};
+
+// Extract any registry field that has no specialized extractor, using its patterns and expected position
+export const extractField = async (
+  sections: DocumentSection[],
+  definition: FieldDefinition
+): Promise<FieldExtractionResult> => {
+  const patterns = [
+    ...trainingService.getPatterns(definition.key),
+    ...definition.patterns
+  ];
+  
+  // Small boost when the value sits where the field is usually found
+  const adjust = (candidate: FieldCandidate): FieldCandidate => {
+    const score = adjustConfidence(candidate);
+    const expected = definition.expectedPosition;
+    if (expected && candidate.position >= 0 &&
+        Math.abs(candidate.position - expected.expectedLocation) <= expected.tolerance) {
+      score.add('position.expected', `Found near where ${definition.label} is usually located`, 5);
+    }
+    score.cap('cap.max', 'Confidence is capped at 100%', 100);
+    return score.result();
+  };
+  
+  const best = findBestMatch(sections, patterns, adjust) ?? notFound(definition.emptyValue);
+  return withCandidates(best, sections, patterns, adjust);
+};
+
+// Use the transliterated Arabic name when no usable Latin name scored at least as well.
+// The Latin candidates are kept as alternatives.
+const preferArabicName = (
+  latin: FieldExtractionResult,
+  arabic: FieldExtractionResult | undefined
+): FieldExtractionResult => {
+  if (!arabic || arabic.position < 0) return latin;
+  
+  const latinFound = latin.position >= 0 && validateCustomerName(latin.value).isValid;
+  if (latinFound && latin.confidence >= arabic.confidence) return latin;
+  
+  const transliterated: FieldCandidate = {
+    value: transliterateArabic(arabic.value),
+    confidence: arabic.confidence,
+    start: arabic.start,
+    end: arabic.end,
+    page: arabic.page,
+    position: arabic.position,
+    sectionIndex: arabic.sectionIndex,
+    sectionType: arabic.sectionType,
+    pattern: arabic.pattern,
+    trace: [
+      ...(arabic.trace ?? []),
+      confidenceStep('name.transliterated', 'Transliterated from the Arabic-script name', 0)
+    ]
+  };
+  
+  return { ...transliterated, candidates: rankCandidates(transliterated, latin.candidates) };
+};
+
+// Cross-check the numeric amount against the amount written in words. A candidate that agrees
+// with the words is preferred and gains confidence; if none does, the amount loses confidence.
+// When only a stray number was found, the amount is read from the words instead.
+const checkAmountInWords = (
+  amount: FieldExtractionResult,
+  words: FieldExtractionResult | undefined
+): FieldExtractionResult => {
+  if (!words || words.position < 0) return amount;
+  
+  const written = validateAmountInWords(words.value);
+  if (!written.isValid) return amount;
+  
+  const { candidates, ...best } = amount;
+  const numericFound = best.position >= 0 && !best.trace?.[0]?.rule.startsWith('amount.anyNumber');
+  
+  if (!numericFound) {
+    const fromWords: FieldCandidate = {
+      value: written.numericValue.toFixed(2),
+      confidence: words.confidence,
+      start: words.start,
+      end: words.end,
+      page: words.page,
+      position: words.position,
+      sectionIndex: words.sectionIndex,
+      sectionType: words.sectionType,
+      pattern: words.pattern,
+      trace: [
+        ...(words.trace ?? []),
+        confidenceStep('amount.fromWords', 'Read from the amount written in words', 0)
+      ]
+    };
+    return { ...fromWords, candidates: rankCandidates(fromWords, candidates) };
+  }
+  
+  const agrees = (candidate: FieldCandidate) =>
+    crossCheckAmountInWords(candidate.value, words.value)?.matches ?? false;
+  const agreeing = [best, ...candidates].find(agrees);
+  
+  const score = adjustConfidence(agreeing ?? best);
+  if (agreeing) {
+    score.add('amount.wordsMatch', 'Matches the amount written in words', 10);
+  } else {
+    score.add('amount.wordsMismatch', `Differs from the amount written in words (${written.numericValue.toFixed(2)})`, -20);
+  }
+  score.cap('cap.max', 'Confidence is capped at 100%', 100);
+  const checked = score.result();
+  
+  return { ...checked, candidates: rankCandidates(checked, candidates) };
+};
+
+// On final-settlement forms the refund is the net of the line items. An amount that agrees gains
+// confidence; otherwise the computed net replaces it and the extracted amount is kept as an alternative.
+const checkLineItems = (
+  amount: FieldExtractionResult,
+  table: LineItemTable | null,
+  sections: DocumentSection[]
+): FieldExtractionResult => {
+  if (!table) return amount;
+  
+  const { candidates, ...best } = amount;
+  const itemCount = `${table.items.length} line items`;
+  const amountValue = validateAmount(best.value);
+  
+  if (best.position >= 0 && amountValue.isValid &&
+      Math.round(amountValue.numericValue * 100) === Math.round(table.computedTotal * 100)) {
+    const score = adjustConfidence(best);
+    score.add('amount.lineItemsMatch', `Matches the net of the ${itemCount}`, 10);
+    score.cap('cap.max', 'Confidence is capped at 100%', 100);
+    const checked = score.result();
+    return { ...checked, candidates: rankCandidates(checked, candidates) };
+  }
+  
+  const base = table.reconciled
+    ? confidenceStep('amount.lineItemsNet', `Net of the ${itemCount}, which add up to the stated total`, 85)
+    : confidenceStep('amount.lineItemsNetUnreconciled', `Net of the ${itemCount}, which don't add up to the stated total`, 55);
+  const net: FieldCandidate = {
+    value: table.computedTotal.toFixed(2),
+    confidence: base.delta,
+    trace: [base],
+    start: table.start,
+    end: table.end,
+    pattern: 'line items',
+    ...locateOffset(sections, table.start)
+  };
+  
+  return { ...net, candidates: rankCandidates(net, best.position >= 0 ? [best, ...candidates] : candidates) };
+};
+
+// Currency of an extracted amount: the one written next to it, riyals for an amount read from
+// words, otherwise the default
+const detectAmountCurrency = (text: string, amount: FieldCandidate): string => {
+  if (amount.start < 0) return DEFAULT_CURRENCY;
+  if (amount.trace?.some(step => step.rule === 'amount.fromWords')) return 'SAR';
+  return findCurrencyNear(text, amount.start, amount.end) ?? DEFAULT_CURRENCY;
+};
+
+// Map a source span found in normalized text back to the original text
+const toOriginalSource = <T extends FieldSource>(normalized: NormalizedText, source: T): T => {
+  return { ...source, ...toOriginalSpan(normalized, source.start, source.end) };
+};
+
+// Map the offsets of a line item table back to the original text
+const toOriginalLineItems = (normalized: NormalizedText, table: LineItemTable): LineItemTable => {
+  return {
+    ...table,
+    ...toOriginalSpan(normalized, table.start, table.end),
+    items: table.items.map(item => ({ ...item, ...toOriginalSpan(normalized, item.start, item.end) }))
+  };
+};
+
+// Fields with hand-tuned extraction logic; every other registry field uses extractField
+const specializedExtractors: Record<CoreFieldKey, (sections: DocumentSection[]) => Promise<FieldExtractionResult>> = {
+  customerName: extractCustomerName,
+  refundAmount: extractRefundAmount,
+  ibanNumber: extractIBAN,
+  customerServiceNumber: extractServiceNumber
 };
 
 // Process document text to extract all required information with layout detection
-export const processDocumentText = async (text: string, fileName: string): Promise<ExtractedData> => {
+export const processDocumentText = async (
+  text: string,
+  fileName: string,
+  pages?: PageText[] // How each page of a PDF was read; values on pages read by OCR lose confidence
+): Promise<ExtractedData> => {
   // Ensure training service is initialized
   await trainingService.initialize();
   
-  // Add new patterns specifically for treasury documents
-  await ensureTreasuryPatterns();
+  // Normalize digits, separators and direction marks so patterns match Arabic-script numbers
+  const normalized = normalizeText(text);
   
   // Divide document into sections for position-based analysis
-  const sections = divideDocumentIntoSections(text);
+  const sections = divideDocumentIntoSections(normalized.text);
+  
+  // Extract each registry field with position information
+  const results: Record<string, FieldExtractionResult> = {};
+  for (const definition of fieldDefinitions) {
+    const extractor = specializedExtractors[definition.key as CoreFieldKey];
+    results[definition.key] = extractor
+      ? await extractor(sections)
+      : await extractField(sections, definition);
+  }
+  
+  // Customers who only wrote their name in Arabic get a transliterated Latin name
+  results.customerName = preferArabicName(results.customerName, results.customerNameArabic);
   
-  // Extract each field with position information
-  const nameResult = await extractCustomerName(sections);
-  const amountResult = await extractRefundAmount(sections);
-  const ibanResult = await extractIBAN(sections);
-  const serviceResult = await extractServiceNumber(sections);
+  // Forms state the refund in digits and in words; the two should agree
+  results.refundAmount = checkAmountInWords(results.refundAmount, results.amountInWords);
+  
+  // Final-settlement forms itemize the refund; the net of the items is the refund
+  const lineItems = parseLineItems(normalized.text);
+  results.refundAmount = checkLineItems(results.refundAmount, lineItems, sections);
   
   // Detect form layout based on field positions
-  const layoutDetection = detectFormLayout(
-    nameResult.position,
-    amountResult.position,
-    ibanResult.position,
-    serviceResult.position
-  );
+  const positions: Record<string, number> = {};
+  for (const [key, result] of Object.entries(results)) {
+    positions[key] = result.position;
+  }
+  const layoutDetection = detectFormLayout(positions);
   
   // Boost confidence if layout is well-detected
   const confidenceBoost = layoutDetection.confidence > 70 ? 5 : 0;
   
+  // The top candidate fills the field; the rest are kept as alternatives for review
+  const toField = (result: FieldExtractionResult): ExtractedField => {
+    const { candidates, ...best } = result;
+    const score = adjustConfidence(best);
+    score.add('layout.boost', `Document matches the ${layoutDetection.layout.name} layout well`, confidenceBoost);
+    const page = pages?.find(candidate => candidate.page === best.page);
+    if (page) {
+      score.add('source.ocr', `Page ${page.page} is a scan read by OCR (${Math.round(page.ocrConfidence ?? 0)}% OCR confidence)`, ocrPagePenalty(page));
+    }
+    score.cap('cap.max', 'Confidence is capped at 100%', 100);
+    const { value, confidence, trace, repairs, ...source } = score.result();
+    
+    // Offsets refer to the text as extracted, not the normalized copy
+    return {
+      value,
+      confidence,
+      source: source.position >= 0 ? toOriginalSource(normalized, source) : undefined,
+      trace,
+      alternatives: candidates.slice(1).map(candidate => toOriginalSource(normalized, candidate)),
+      ...(repairs ? { repairs } : {})
+    };
+  };
+  
+  const additionalFields: Record<string, ExtractedField> = {};
+  for (const definition of fieldDefinitions) {
+    if (!(definition.key in specializedExtractors)) {
+      additionalFields[definition.key] = toField(results[definition.key]);
+    }
+  }
+  
   return {
     id: Date.now().toString(),
     fileName,
-    customerName: {
-      value: nameResult.value,
-      confidence: Math.min(nameResult.confidence + confidenceBoost, 100)
-    },
-    refundAmount: {
-      value: amountResult.value,
-      confidence: Math.min(amountResult.confidence + confidenceBoost, 100)
-    },
-    ibanNumber: {
-      value: ibanResult.value,
-      confidence: Math.min(ibanResult.confidence + confidenceBoost, 100)
-    },
+    customerName: toField(results.customerName),
+    refundAmount: { ...toField(results.refundAmount), currency: detectAmountCurrency(normalized.text, results.refundAmount) },
+    ibanNumber: toField(results.ibanNumber),
     customerServiceNumber: {
-      value: serviceResult.value,
-      confidence: Math.min(serviceResult.confidence + confidenceBoost, 100)
+      ...toField(results.customerServiceNumber),
+      identifierType: serviceIdentifierTypeOf(results.customerServiceNumber.value, results.customerServiceNumber.pattern)?.key
     },
+    additionalFields,
+    lineItems: lineItems ? toOriginalLineItems(normalized, lineItems) : undefined,
     detectedLayout: layoutDetection.layout.name,
     layoutConfidence: layoutDetection.confidence,
+    ...(pages ? { pages } : {}),
     timestamp: new Date().toISOString()
   };
 };
-
-// Ensure treasury-specific patterns are added to the pattern registry
-async function ensureTreasuryPatterns() {
-  try {
-    const patternService = TrainingService.getInstance();
-    const db = patternService.getDatabase();
-    
-    // Check if treasury patterns already exist
-    const existingCustomerPattern = await db.extractionPatterns
-      .where('patternRegex')
-      .equals('MR\\\\s*\\\\.\\\\s*([A-Za-z\\\\s.\\\'-]+)')
-      .count();
-    
-    if (existingCustomerPattern === 0) {
-      // Add treasury-specific customer name patterns with high priority
-      await db.extractionPatterns.add({
-        fieldType: 'customerName',
-        patternRegex: 'MR\\s*\\.\\s*([A-Za-z\\s.\'-]+)',
-        priority: 1, // Highest priority
-        successRate: 95,
-        usageCount: 5,
-        timestamp: new Date().toISOString()
-      });
-      
-      await db.extractionPatterns.add({
-        fieldType: 'customerName',
-        patternRegex: 'customer\\s*information[\\s\\S]{0,50}name\\s*[:\\.\\s]*([A-Za-z\\s.\'-]+)',
-        priority: 2,
-        successRate: 90,
-        usageCount: 5,
-        timestamp: new Date().toISOString()
-      });
-      
-      // Add special pattern for Middle Eastern names
-      await db.extractionPatterns.add({
-        fieldType: 'customerName',
-        patternRegex: '([A-Za-z\\s.\'-]+)\\s+(?:Al|El)\\s+([A-Za-z\\s.\'-]+)',
-        priority: 3,
-        successRate: 85,
-        usageCount: 5,
-        timestamp: new Date().toISOString()
-      });
-      
-      // Add pattern for Treasury form customer name with MR prefix
-      await db.extractionPatterns.add({
-        fieldType: 'customerName',
-        patternRegex: 'name[\\s\\u0600-\\u06FF]*(?:\\s*[:\\.\\s]\\s*)((?:[A-Za-z\\s.\'-]+\\s*)+)',
-        priority: 1,
-        successRate: 95,
-        usageCount: 5,
-        timestamp: new Date().toISOString()
-      });
-      
-      // Reload patterns
-      await patternService.initialize();
-    }
-  } catch (error) {
-    console.error('Error ensuring treasury patterns:', error);
-  }
-}
\ No newline at end of file
@@ -0,0 +1,326 @@
+import { ExtractedData, ExtractedField, FieldQualifiers, FormLayout } from '../types';
+import {
+  validateCustomerName,
+  validateAmount,
+  validateAmountInWords,
+  validateIBAN,
+  validateServiceNumber,
+  validateMobileNumber,
+  validateEmail,
+  validateDate,
+  validateText
+} from '../services/DataValidationService';
+import { amountInWordsPatterns } from './amountInWords';
+import { currencyPatternSource, getCurrency } from './currencies';
+import { ibanValuePattern } from './iban';
+import {
+  buildServiceIdentifierPatterns,
+  defaultServiceIdentifierTypes,
+  getServiceIdentifierType,
+  serviceIdentifierValuePattern
+} from './serviceIdentifiers';
+
+// Sections of a FormLayout that describe where a field is expected
+export type LayoutSectionKey = 'nameSection' | 'amountSection' | 'ibanSection' | 'serviceNumberSection';
+
+export interface FieldValidationResult extends FieldQualifiers {
+  isValid: boolean;
+  formattedValue: string;
+  errorMessage?: string;
+  additionalInfo?: string; // Extra detail shown next to a valid value (e.g. bank name)
+}
+
+// Everything the extractor, training, validation, layout scoring and UI need to know about a field
+export interface FieldDefinition {
+  key: string;
+  label: string;
+  exportColumn: string;
+  // Default extraction patterns, highest priority first. Each has one capturing group for the value.
+  patterns: RegExp[];
+  // Regex source (with one capturing group) appended to a label when learning a pattern from a correction
+  valuePattern: string;
+  // qualifiers are the currency or identifier type stored with the field, if any
+  validate: (value: string, qualifiers?: FieldQualifiers) => FieldValidationResult;
+  // Value stored when nothing was found
+  emptyValue: string;
+  // Required fields must be valid for the extraction to count as valid
+  required: boolean;
+  // Amount fields store the currency separately from the value and export it in its own column
+  hasCurrency?: boolean;
+  // Layout section used for layout detection; only these fields are scored against FormLayouts
+  layoutSection?: LayoutSectionKey;
+  // Expected position when the field isn't part of layout detection (0-100% of the document)
+  expectedPosition?: { expectedLocation: number; tolerance: number };
+  color: string; // Tailwind background class used for charts
+}
+
+// Keys stored as top-level properties of ExtractedData; all other fields live in additionalFields
+export const coreFieldKeys = ['customerName', 'refundAmount', 'ibanNumber', 'customerServiceNumber'] as const;
+export type CoreFieldKey = typeof coreFieldKeys[number];
+
+// Registry of all extracted fields, in display and export order
+export const fieldDefinitions: FieldDefinition[] = [
+  {
+    key: 'customerName',
+    label: 'Customer Name',
+    exportColumn: 'Customer Name',
+    patterns: [
+      // Treasury form specific patterns targeting customer info section
+      /customer information[\s\S]{0,50}name\s*[:\.\s]*([A-Za-z\s.'-]+)/i, // Look for name in customer info section
+      /MR\s*\.\s*([A-Za-z\s.'-]+)/i, // Match format "MR. Name"
+      /(MR\s*\.)?\s*([A-Za-z\s.'-]+)\s+(?:Al|El)\s+([A-Za-z\s.'-]+)/i, // Middle Eastern name format
+      /customer[\s\S]{0,50}name\s*[:\.\s]*([A-Za-z\s.'-]+)/i, // Alternative customer info format
+
+      // Generic patterns with lower priority
+      /customer\s*name\s*:\s*([A-Za-z\s.'-]+)/i,
+      /name\s*:\s*([A-Za-z\s.'-]+)/i,
+      /client\s*:\s*([A-Za-z\s.'-]+)/i,
+      /applicant\s*:\s*([A-Za-z\s.'-]+)/i,
+      /recipient\s*:\s*([A-Za-z\s.'-]+)/i,
+      /account\s*holder\s*:\s*([A-Za-z\s.'-]+)/i
+    ],
+    valuePattern: "([A-Za-z\\s.'-]+)",
+    validate: value => {
+      const result = validateCustomerName(value);
+      return { ...result, additionalInfo: result.latinValue };
+    },
+    emptyValue: 'Unknown',
+    required: true,
+    layoutSection: 'nameSection',
+    color: 'bg-blue-600'
+  },
+  {
+    key: 'customerNameArabic',
+    label: 'Customer Name (Arabic)',
+    exportColumn: 'Customer Name (Arabic)',
+    patterns: [
+      // Arabic name after the bilingual "Name" label, optionally after a title
+      /name[^:\n]*:\s*(?:MR\s*\.?\s*)?([\u0621-\u0652]+(?:[ \t]+[\u0621-\u0652]+)*)/i,
+      // Arabic-only labels: "customer name" and "name"
+      /(?:\u0627\u0633\u0645 \u0627\u0644\u0639\u0645\u064A\u0644|\u0627\u0644\u0627\u0633\u0645)\s*[:.]?\s*([\u0621-\u0652]+(?:[ \t]+[\u0621-\u0652]+)*)/,
+      /MR\s*\.\s*([\u0621-\u0652]+(?:[ \t]+[\u0621-\u0652]+)*)/i
+    ],
+    valuePattern: '([\\u0621-\\u0652]+(?:[ \\t]+[\\u0621-\\u0652]+)*)',
+    validate: value => {
+      const result = validateCustomerName(value);
+      return { ...result, additionalInfo: result.latinValue };
+    },
+    emptyValue: 'Unknown',
+    required: false,
+    expectedPosition: { expectedLocation: 20, tolerance: 15 },
+    color: 'bg-cyan-600'
+  },
+  {
+    key: 'refundAmount',
+    label: 'Refund Amount',
+    exportColumn: 'Refund Amount',
+    patterns: [
+      new RegExp(`refund\\s*amount\\s*:\\s*${currencyPatternSource}?\\s*([0-9,.]+)`, 'i'),
+      new RegExp(`amount\\s*:\\s*${currencyPatternSource}?\\s*([0-9,.]+)`, 'i'),
+      new RegExp(`total\\s*:\\s*${currencyPatternSource}?\\s*([0-9,.]+)`, 'i'),
+      new RegExp(`payment\\s*amount\\s*:\\s*${currencyPatternSource}?\\s*([0-9,.]+)`, 'i'),
+      new RegExp(`${currencyPatternSource}\\s*([0-9,.]+)`, 'i'),
+      new RegExp(`([0-9,.]+)\\s*${currencyPatternSource}`, 'i')
+    ],
+    valuePattern: `${currencyPatternSource}?\\s*([0-9,.]+)`,
+    validate: (value, qualifiers) => {
+      const result = validateAmount(value, qualifiers?.currency);
+      return { ...result, additionalInfo: getCurrency(result.currency)?.name };
+    },
+    emptyValue: '0.00',
+    required: true,
+    hasCurrency: true,
+    layoutSection: 'amountSection',
+    color: 'bg-green-600'
+  },
+  {
+    key: 'amountInWords',
+    label: 'Amount in Words',
+    exportColumn: 'Amount in Words',
+    patterns: amountInWordsPatterns,
+    valuePattern: '([A-Za-z\\u0621-\\u0652 \\t,-]+)',
+    validate: value => {
+      const result = validateAmountInWords(value);
+      return { ...result, additionalInfo: result.isValid ? result.numericValue.toFixed(2) : undefined };
+    },
+    emptyValue: 'Unknown',
+    required: false,
+    expectedPosition: { expectedLocation: 45, tolerance: 25 },
+    color: 'bg-lime-600'
+  },
+  {
+    key: 'ibanNumber',
+    label: 'IBAN Number',
+    exportColumn: 'IBAN Number',
+    patterns: [
+      new RegExp(`iban\\s*:\\s*${ibanValuePattern}`, 'i'),
+      new RegExp(`iban\\s*number\\s*:\\s*${ibanValuePattern}`, 'i'),
+      new RegExp(`bank\\s*account\\s*:\\s*${ibanValuePattern}`, 'i'),
+      new RegExp(`account\\s*number\\s*:\\s*${ibanValuePattern}`, 'i'),
+      new RegExp(ibanValuePattern, 'i')
+    ],
+    valuePattern: ibanValuePattern,
+    validate: value => {
+      const result = validateIBAN(value);
+      return { ...result, additionalInfo: result.bankName ?? (result.countryName && `${result.countryName} IBAN`) };
+    },
+    emptyValue: 'Unknown',
+    required: true,
+    layoutSection: 'ibanSection',
+    color: 'bg-yellow-500'
+  },
+  {
+    key: 'customerServiceNumber',
+    label: 'Customer Service Number',
+    exportColumn: 'Customer Service Number',
+    patterns: [
+      // Built from the service identifier registry; the extractor uses the live registry instead
+      ...buildServiceIdentifierPatterns(defaultServiceIdentifierTypes).map(({ pattern }) => pattern)
+    ],
+    // Any enabled type in the live registry, so corrections to e.g. circuit IDs teach usable patterns
+    get valuePattern() {
+      return serviceIdentifierValuePattern();
+    },
+    validate: (value, qualifiers) => {
+      const result = validateServiceNumber(value, qualifiers?.identifierType);
+      const type = result.identifierType ? getServiceIdentifierType(result.identifierType) : undefined;
+      return { ...result, additionalInfo: type?.label };
+    },
+    emptyValue: 'Unknown',
+    required: true,
+    layoutSection: 'serviceNumberSection',
+    color: 'bg-purple-500'
+  },
+  {
+    key: 'mobileNumber',
+    label: 'Mobile Number',
+    exportColumn: 'Mobile Number',
+    patterns: [
+      /mobile\s*(?:no\.?|number)?[\s\u0600-\u06FF]*[:.]?\s*(\+?\d[\d\s-]{7,14}\d)/i,
+      /(?:phone|tel)\s*(?:no\.?|number)?[\s\u0600-\u06FF]*[:.]?\s*(\+?\d[\d\s-]{7,14}\d)/i,
+      /\b((?:\+?966|0)?5\d{8})\b/
+    ],
+    valuePattern: '(\\+?\\d[\\d\\s-]{7,14}\\d)',
+    validate: value => validateMobileNumber(value),
+    emptyValue: 'Unknown',
+    required: false,
+    expectedPosition: { expectedLocation: 20, tolerance: 15 },
+    color: 'bg-teal-500'
+  },
+  {
+    key: 'email',
+    label: 'E-mail',
+    exportColumn: 'E-mail',
+    patterns: [
+      /e-?mail[\s\u0600-\u06FF]*[:.]?\s*([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,})/i,
+      /([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,})/
+    ],
+    valuePattern: '([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,})',
+    validate: value => validateEmail(value),
+    emptyValue: 'Unknown',
+    required: false,
+    expectedPosition: { expectedLocation: 20, tolerance: 15 },
+    color: 'bg-sky-500'
+  },
+  {
+    key: 'requestDate',
+    label: 'Request Date',
+    exportColumn: 'Request Date',
+    patterns: [
+      /request\s*date[\s\u0600-\u06FF]*[:.]?\s*(\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}-\d{2}-\d{2})/i,
+      /date\s*of\s*request[\s\u0600-\u06FF]*[:.]?\s*(\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}-\d{2}-\d{2})/i,
+      /date[\s\u0600-\u06FF]*[:.]\s*(\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}-\d{2}-\d{2})/i
+    ],
+    valuePattern: '(\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|\\d{4}-\\d{2}-\\d{2})',
+    validate: value => validateDate(value),
+    emptyValue: 'Unknown',
+    required: false,
+    expectedPosition: { expectedLocation: 10, tolerance: 15 },
+    color: 'bg-indigo-500'
+  },
+  {
+    key: 'cancellationReason',
+    label: 'Cancellation Reason',
+    exportColumn: 'Cancellation Reason',
+    patterns: [
+      /(?:cancellation|termination|refund)\s*reason[\s\u0600-\u06FF]*[:.]?\s*([^\n]{3,})/i,
+      /reason\s*(?:for\s*(?:cancellation|termination|refund))?[\s\u0600-\u06FF]*:\s*([^\n]{3,})/i
+    ],
+    valuePattern: '([^\\n]{3,})',
+    validate: value => validateText(value),
+    emptyValue: 'Unknown',
+    required: false,
+    expectedPosition: { expectedLocation: 45, tolerance: 25 },
+    color: 'bg-orange-500'
+  },
+  {
+    key: 'bankName',
+    label: 'Bank Name',
+    exportColumn: 'Bank Name',
+    patterns: [
+      /bank\s*name[\s\u0600-\u06FF]*[:.]?\s*([A-Za-z][A-Za-z\s&.'-]+)/i,
+      /\b((?:Al\s*)?Rajhi\s+Bank|Riyad\s+Bank|Bank\s+Al\s*Jazira|Bank\s+Albilad|Arab\s+National\s+Bank|Banque\s+Saudi\s+Fransi|Saudi\s+National\s+Bank|Saudi\s+British\s+Bank|Alinma\s+Bank|Saudi\s+Investment\s+Bank)\b/i
+    ],
+    valuePattern: "([A-Za-z][A-Za-z\\s&.'-]+)",
+    validate: value => validateText(value, 2),
+    emptyValue: 'Unknown',
+    required: false,
+    expectedPosition: { expectedLocation: 65, tolerance: 20 },
+    color: 'bg-pink-500'
+  }
+];
+
+// Look up a field definition by key
+export const getFieldDefinition = (key: string): FieldDefinition | undefined => {
+  return fieldDefinitions.find(definition => definition.key === key);
+};
+
+const isCoreFieldKey = (key: string): key is CoreFieldKey => {
+  return (coreFieldKeys as readonly string[]).includes(key);
+};
+
+// Read a field from extraction results regardless of where it is stored
+export const getField = (data: ExtractedData, key: string): ExtractedField | undefined => {
+  if (isCoreFieldKey(key)) return data[key];
+  return data.additionalFields?.[key];
+};
+
+// Values of every registry field, keyed by field key, e.g. for validateExtractionData
+export const getFieldValues = (data: ExtractedData): Record<string, string> => {
+  return Object.fromEntries(
+    fieldDefinitions.map(definition => [definition.key, getField(data, definition.key)?.value ?? ''])
+  );
+};
+
+// Currencies and identifier types of the fields that have one, keyed by field key
+export const getFieldQualifiers = (data: ExtractedData): Record<string, FieldQualifiers> => {
+  const qualifiers: Record<string, FieldQualifiers> = {};
+  fieldDefinitions.forEach(definition => {
+    const field = getField(data, definition.key);
+    if (field?.currency || field?.identifierType) {
+      qualifiers[definition.key] = { currency: field.currency, identifierType: field.identifierType };
+    }
+  });
+  return qualifiers;
+};
+
+// Return a copy of the extraction results with one field replaced
+export const setField = (data: ExtractedData, key: string, field: ExtractedField): ExtractedData => {
+  if (isCoreFieldKey(key)) {
+    return { ...data, [key]: field };
+  }
+
+  return {
+    ...data,
+    additionalFields: { ...data.additionalFields, [key]: field }
+  };
+};
+
+// Expected position of a field in a layout, preferring the layout's own section
+export const getExpectedPosition = (
+  definition: FieldDefinition,
+  layout?: FormLayout
+): { expectedLocation: number; tolerance: number } | undefined => {
+  if (definition.layoutSection && layout) return layout[definition.layoutSection];
+  return definition.expectedPosition;
+};
@@ -0,0 +1,169 @@
+/**
+ * Fraud signals from the IBANs refunds are paid to
+ *
+ * Stored results are grouped into customers: results with the same service number or a similar
+ * customer name belong to the same customer. Two patterns raise an alert: one IBAN receiving
+ * refunds for more than one customer, and a customer whose IBAN differs from their previous
+ * refund. Alerts block export until a reviewer acknowledges them.
+ */
+import { ExtractedData } from '../types';
+import { findSimilarNames, isFound, normalizeIban } from './duplicateDetection';
+import { cleanServiceIdentifier } from './serviceIdentifiers';
+
+export type FraudAlertKind = 'sharedIban' | 'changedIban';
+
+export const fraudAlertLabels: Record<FraudAlertKind, string> = {
+  sharedIban: 'IBAN shared by several customers',
+  changedIban: 'Customer IBAN changed'
+};
+
+// A document an alert was raised on
+export interface FraudAlertDocument {
+  id: string;
+  fileName: string;
+  customerName: string;
+  serviceNumber: string;
+  iban: string;
+  timestamp: string;
+}
+
+export interface FraudAlert {
+  alertId: string; // Stable key, e.g. "sharedIban:SA03..." or "changedIban:<document ID>"
+  kind: FraudAlertKind;
+  iban: string;
+  previousIban?: string; // The customer's earlier IBAN, for changedIban
+  documents: FraudAlertDocument[];
+  message: string;
+  acknowledgement?: FraudAlertAcknowledgement;
+}
+
+// A reviewer's acknowledgement, covering the documents the alert had at the time
+export interface FraudAlertAcknowledgement {
+  alertId: string;
+  documentIds: string[];
+  acknowledgedAt: string;
+  acknowledgedBy?: { userId: number; userName: string }; // Missing on acknowledgements made before users were recorded
+  note?: string;
+}
+
+// Results with the IBAN each was paid to, grouped by IBAN
+export const buildIbanIndex = (results: ExtractedData[]): Map<string, ExtractedData[]> => {
+  const index = new Map<string, ExtractedData[]>();
+  for (const result of results) {
+    if (!isFound(result.ibanNumber.value)) continue;
+
+    const iban = normalizeIban(result.ibanNumber.value);
+    index.set(iban, [...(index.get(iban) ?? []), result]);
+  }
+  return index;
+};
+
+// Whether a result says who the customer is
+const hasIdentity = (result: ExtractedData): boolean => {
+  return isFound(result.customerName.value) || isFound(result.customerServiceNumber.value);
+};
+
+// Customer of each result, as the ID of one result of that customer
+export const groupCustomers = (results: ExtractedData[]): Map<string, string> => {
+  const parent = new Map(results.map(result => [result.id, result.id]));
+  const find = (id: string): string => {
+    const root = parent.get(id)!;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+  const join = (a: string, b: string) => parent.set(find(a), find(b));
+
+  const byServiceNumber = new Map<string, string>();
+  for (const result of results) {
+    if (isFound(result.customerServiceNumber.value)) {
+      const serviceNumber = cleanServiceIdentifier(result.customerServiceNumber.value);
+      const existing = byServiceNumber.get(serviceNumber);
+      if (existing) join(result.id, existing);
+      else byServiceNumber.set(serviceNumber, result.id);
+    }
+
+    findSimilarNames(result.customerName.value, results).forEach(id => join(result.id, id));
+  }
+
+  return new Map(results.map(result => [result.id, find(result.id)]));
+};
+
+const toAlertDocument = (result: ExtractedData): FraudAlertDocument => ({
+  id: result.id,
+  fileName: result.fileName,
+  customerName: result.customerName.value,
+  serviceNumber: result.customerServiceNumber.value,
+  iban: normalizeIban(result.ibanNumber.value),
+  timestamp: result.timestamp
+});
+
+const byTimestamp = (a: ExtractedData, b: ExtractedData): number => {
+  return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+};
+
+// IBANs used by more than one customer, and customers whose IBAN changed between refunds
+export const findFraudAlerts = (results: ExtractedData[]): FraudAlert[] => {
+  const identified = results.filter(hasIdentity);
+  const customers = groupCustomers(identified);
+  const alerts: FraudAlert[] = [];
+
+  for (const [iban, ibanResults] of buildIbanIndex(identified)) {
+    const customerCount = new Set(ibanResults.map(result => customers.get(result.id))).size;
+    if (customerCount < 2) continue;
+
+    alerts.push({
+      alertId: `sharedIban:${iban}`,
+      kind: 'sharedIban',
+      iban,
+      documents: [...ibanResults].sort(byTimestamp).map(toAlertDocument),
+      message: `IBAN ${iban} receives refunds for ${customerCount} different customers`
+    });
+  }
+
+  const resultsByCustomer = new Map<string, ExtractedData[]>();
+  for (const result of identified) {
+    if (!isFound(result.ibanNumber.value)) continue;
+    const customer = customers.get(result.id)!;
+    resultsByCustomer.set(customer, [...(resultsByCustomer.get(customer) ?? []), result]);
+  }
+
+  for (const customerResults of resultsByCustomer.values()) {
+    const ordered = [...customerResults].sort(byTimestamp);
+    for (let i = 1; i < ordered.length; i++) {
+      const previousIban = normalizeIban(ordered[i - 1].ibanNumber.value);
+      const iban = normalizeIban(ordered[i].ibanNumber.value);
+      if (iban === previousIban) continue;
+
+      const customer = isFound(ordered[i].customerName.value)
+        ? ordered[i].customerName.value
+        : `Service ${ordered[i].customerServiceNumber.value}`;
+      alerts.push({
+        alertId: `changedIban:${ordered[i].id}`,
+        kind: 'changedIban',
+        iban,
+        previousIban,
+        documents: [ordered[i - 1], ordered[i]].map(toAlertDocument),
+        message: `${customer} was refunded to ${previousIban} before and now to ${iban}`
+      });
+    }
+  }
+
+  return alerts;
+};
+
+// Whether an acknowledgement still covers an alert; documents added since bring the alert back
+export const isAcknowledgedBy = (alert: FraudAlert, acknowledgement?: FraudAlertAcknowledgement): boolean => {
+  return !!acknowledgement &&
+    acknowledgement.alertId === alert.alertId &&
+    alert.documents.every(document => acknowledgement.documentIds.includes(document.id));
+};
+
+// Alerts no reviewer has acknowledged, optionally only those involving some documents
+export const unacknowledgedAlerts = (alerts: FraudAlert[], documentIds?: string[]): FraudAlert[] => {
+  return alerts.filter(alert =>
+    !alert.acknowledgement &&
+    (!documentIds || alert.documents.some(document => documentIds.includes(document.id)))
+  );
+};
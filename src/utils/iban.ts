@@ -0,0 +1,242 @@
+/**
+ * IBAN formats by country, the mod-97 checksum and recovery of IBANs damaged by OCR
+ *
+ * Scanned forms print IBANs in groups of four and OCR confuses a few letters with digits. The
+ * recovery below removes the grouping, swaps confusable characters into the kind each position
+ * allows, and keeps the result only if it passes the ISO 13616 mod-97 check.
+ */
+import { CharacterRepair } from '../types';
+
+export interface IbanCountryFormat {
+  code: string; // ISO 3166 country code the IBAN starts with
+  name: string;
+  length: number; // Total IBAN length
+  bban?: string; // Regex source for the account part after the check digits, where we check it
+  bbanDescription?: string; // The account part in words, for error messages
+}
+
+// IBAN lengths from the ISO 13616 registry, with the account format of Saudi Arabia and of the
+// countries refunds are most often paid to
+export const ibanCountryFormats: IbanCountryFormat[] = [
+  { code: 'SA', name: 'Saudi', length: 24, bban: '\\d{2}[A-Z0-9]{18}', bbanDescription: 'a 2-digit bank code and an 18-character account number' },
+  { code: 'AE', name: 'UAE', length: 23, bban: '\\d{19}', bbanDescription: 'a 3-digit bank code and a 16-digit account number' },
+  { code: 'BH', name: 'Bahraini', length: 22, bban: '[A-Z]{4}[A-Z0-9]{14}', bbanDescription: 'a 4-letter bank code and a 14-character account number' },
+  { code: 'KW', name: 'Kuwaiti', length: 30, bban: '[A-Z]{4}[A-Z0-9]{22}', bbanDescription: 'a 4-letter bank code and a 22-character account number' },
+  { code: 'QA', name: 'Qatari', length: 29, bban: '[A-Z]{4}[A-Z0-9]{21}', bbanDescription: 'a 4-letter bank code and a 21-character account number' },
+  { code: 'JO', name: 'Jordanian', length: 30, bban: '[A-Z]{4}\\d{4}[A-Z0-9]{18}', bbanDescription: 'a 4-letter bank code, a 4-digit branch code and an 18-character account number' },
+  { code: 'EG', name: 'Egyptian', length: 29, bban: '\\d{25}', bbanDescription: '25 digits' },
+  { code: 'LB', name: 'Lebanese', length: 28, bban: '\\d{4}[A-Z0-9]{20}', bbanDescription: 'a 4-digit bank code and a 20-character account number' },
+  { code: 'PK', name: 'Pakistani', length: 24, bban: '[A-Z]{4}[A-Z0-9]{16}', bbanDescription: 'a 4-letter bank code and a 16-character account number' },
+  { code: 'TR', name: 'Turkish', length: 26, bban: '\\d{6}[A-Z0-9]{16}', bbanDescription: 'a 5-digit bank code, a reserved digit and a 16-character account number' },
+  { code: 'GB', name: 'British', length: 22, bban: '[A-Z]{4}\\d{14}', bbanDescription: 'a 4-letter bank code, a 6-digit sort code and an 8-digit account number' },
+  { code: 'DE', name: 'German', length: 22, bban: '\\d{18}', bbanDescription: '18 digits' },
+  { code: 'FR', name: 'French', length: 27, bban: '\\d{10}[A-Z0-9]{11}\\d{2}', bbanDescription: 'a 10-digit bank and branch code, an 11-character account number and a 2-digit key' },
+  { code: 'ES', name: 'Spanish', length: 24, bban: '\\d{20}', bbanDescription: '20 digits' },
+  { code: 'IT', name: 'Italian', length: 27, bban: '[A-Z]\\d{10}[A-Z0-9]{12}', bbanDescription: 'a check letter, a 10-digit bank and branch code and a 12-character account number' },
+  { code: 'NL', name: 'Dutch', length: 18, bban: '[A-Z]{4}\\d{10}', bbanDescription: 'a 4-letter bank code and a 10-digit account number' },
+  { code: 'AD', name: 'Andorran', length: 24 },
+  { code: 'AL', name: 'Albanian', length: 28 },
+  { code: 'AT', name: 'Austrian', length: 20 },
+  { code: 'AZ', name: 'Azerbaijani', length: 28 },
+  { code: 'BA', name: 'Bosnian', length: 20 },
+  { code: 'BE', name: 'Belgian', length: 16 },
+  { code: 'BG', name: 'Bulgarian', length: 22 },
+  { code: 'BR', name: 'Brazilian', length: 29 },
+  { code: 'BY', name: 'Belarusian', length: 28 },
+  { code: 'CH', name: 'Swiss', length: 21 },
+  { code: 'CR', name: 'Costa Rican', length: 22 },
+  { code: 'CY', name: 'Cypriot', length: 28 },
+  { code: 'CZ', name: 'Czech', length: 24 },
+  { code: 'DK', name: 'Danish', length: 18 },
+  { code: 'DO', name: 'Dominican', length: 28 },
+  { code: 'EE', name: 'Estonian', length: 20 },
+  { code: 'FI', name: 'Finnish', length: 18 },
+  { code: 'FO', name: 'Faroese', length: 18 },
+  { code: 'GE', name: 'Georgian', length: 22 },
+  { code: 'GI', name: 'Gibraltar', length: 23 },
+  { code: 'GL', name: 'Greenlandic', length: 18 },
+  { code: 'GR', name: 'Greek', length: 27 },
+  { code: 'GT', name: 'Guatemalan', length: 28 },
+  { code: 'HR', name: 'Croatian', length: 21 },
+  { code: 'HU', name: 'Hungarian', length: 28 },
+  { code: 'IE', name: 'Irish', length: 22 },
+  { code: 'IL', name: 'Israeli', length: 23 },
+  { code: 'IQ', name: 'Iraqi', length: 23 },
+  { code: 'IS', name: 'Icelandic', length: 26 },
+  { code: 'KZ', name: 'Kazakh', length: 20 },
+  { code: 'LC', name: 'Saint Lucian', length: 32 },
+  { code: 'LI', name: 'Liechtenstein', length: 21 },
+  { code: 'LT', name: 'Lithuanian', length: 20 },
+  { code: 'LU', name: 'Luxembourgish', length: 20 },
+  { code: 'LV', name: 'Latvian', length: 21 },
+  { code: 'LY', name: 'Libyan', length: 25 },
+  { code: 'MC', name: 'Monegasque', length: 27 },
+  { code: 'MD', name: 'Moldovan', length: 24 },
+  { code: 'ME', name: 'Montenegrin', length: 22 },
+  { code: 'MK', name: 'North Macedonian', length: 19 },
+  { code: 'MR', name: 'Mauritanian', length: 27 },
+  { code: 'MT', name: 'Maltese', length: 31 },
+  { code: 'MU', name: 'Mauritian', length: 30 },
+  { code: 'NO', name: 'Norwegian', length: 15 },
+  { code: 'PL', name: 'Polish', length: 28 },
+  { code: 'PS', name: 'Palestinian', length: 29 },
+  { code: 'PT', name: 'Portuguese', length: 25 },
+  { code: 'RO', name: 'Romanian', length: 24 },
+  { code: 'RS', name: 'Serbian', length: 22 },
+  { code: 'SC', name: 'Seychellois', length: 31 },
+  { code: 'SD', name: 'Sudanese', length: 18 },
+  { code: 'SE', name: 'Swedish', length: 24 },
+  { code: 'SI', name: 'Slovenian', length: 19 },
+  { code: 'SK', name: 'Slovak', length: 24 },
+  { code: 'SM', name: 'San Marino', length: 27 },
+  { code: 'ST', name: 'Sao Tome', length: 25 },
+  { code: 'SV', name: 'Salvadoran', length: 28 },
+  { code: 'TL', name: 'Timorese', length: 23 },
+  { code: 'TN', name: 'Tunisian', length: 24 },
+  { code: 'UA', name: 'Ukrainian', length: 29 },
+  { code: 'VA', name: 'Vatican', length: 22 },
+  { code: 'VG', name: 'British Virgin Islands', length: 24 },
+  { code: 'XK', name: 'Kosovan', length: 20 }
+];
+
+export const getIbanCountryFormat = (countryCode: string): IbanCountryFormat | undefined => {
+  return ibanCountryFormats.find(format => format.code === countryCode);
+};
+
+// Regex source of the account part: the country's format where we check it, otherwise its length
+const bbanSource = (format: IbanCountryFormat): string => format.bban ?? `[A-Z0-9]{${format.length - 4}}`;
+
+// An unbroken IBAN of any country above, in one capturing group: the country code, two check
+// digits and the country's account part
+export const ibanValuePattern = `(?<![A-Z0-9])(${ibanCountryFormats
+  .map(format => `${format.code}\\d{2}${bbanSource(format)}`)
+  .join('|')})(?![A-Z0-9])`;
+
+// Whether an IBAN without spaces has the length and account format of its country
+export const hasIbanCountryFormat = (iban: string): boolean => {
+  const format = getIbanCountryFormat(iban.substring(0, 2));
+  return !!format && new RegExp(`^${format.code}\\d{2}${bbanSource(format)}$`).test(iban);
+};
+
+// Digits OCR reads as letters, used in the positions that must be digits
+const DIGIT_FOR_LETTER: Record<string, string> = { O: '0', I: '1', S: '5', B: '8' };
+
+// The same confusions the other way round, used in the country code and letter-only positions
+const LETTER_FOR_DIGIT: Record<string, string> = { '0': 'O', '1': 'I', '5': 'S', '8': 'B' };
+
+type IbanCharacter = 'digit' | 'letter' | 'any';
+
+interface IbanCharacterRun {
+  character: IbanCharacter;
+  count: number;
+}
+
+// What the positions of the account part may hold, in runs read from the country's format; any
+// letter or digit where we don't check the format
+const bbanCharacterRuns = (format: IbanCountryFormat): IbanCharacterRun[] => {
+  const runs = Array.from((format.bban ?? '').matchAll(/(\\d|\[A-Z\]|\[A-Z0-9\])(?:\{(\d+)\})?/g), ([, characterClass, count]): IbanCharacterRun => ({
+    character: characterClass === '\\d' ? 'digit' : characterClass === '[A-Z]' ? 'letter' : 'any',
+    count: Number(count ?? 1)
+  }));
+  const length = runs.reduce((sum, run) => sum + run.count, 0);
+  return length === format.length - 4 ? runs : [{ character: 'any', count: format.length - 4 }];
+};
+
+// A letter of a country code, or the digit OCR reads it as (5 for S)
+const ocrCountryLetter = (letter: string): string => {
+  const digit = Object.keys(LETTER_FOR_DIGIT).find(key => LETTER_FOR_DIGIT[key] === letter);
+  return digit ? `[${letter}${digit}]` : letter;
+};
+
+// A run of IBAN characters as OCR may print them, each after an optional group separator
+const ocrIbanCharacters = ({ character, count }: IbanCharacterRun, countryCode: string): string => {
+  const characterClass = character === 'digit' ? '[0-9OISB]'
+    : character === 'letter' ? '[A-Z0158]'
+    : countryCode === 'SA' ? '[0-9OISB]' : '[A-Z0-9]';
+  return `(?:[ \\t-]?${characterClass}){${count}}`;
+};
+
+// An IBAN as OCR may print it: optionally grouped, with confusable characters in place of the
+// check digits and digits in place of the letters of the country code. The account part allows
+// the confusions of each position's kind; Saudi account numbers are read as digits throughout.
+export const ocrIbanPattern = new RegExp(`(?<![A-Z0-9])(${ibanCountryFormats
+  .map(format => {
+    const account = bbanCharacterRuns(format).map(run => ocrIbanCharacters(run, format.code)).join('');
+    return `${Array.from(format.code).map(ocrCountryLetter).join('')}${ocrIbanCharacters({ character: 'digit', count: 2 }, format.code)}${account}`;
+  })
+  .join('|')})(?![A-Z0-9])`, 'gi');
+
+// Labels forms print in front of an IBAN, ending where the value starts
+const ibanLabelPattern = /(?:\biban(?:\s*(?:no\.?|number))?|\bbank\s*account|\baccount\s*(?:no\.?|number))\s*[:#-]?\s*$/i;
+
+// Whether the text before an index ends with an IBAN label, e.g. 'IBAN: '
+export const followsIbanLabel = (text: string, index: number): boolean => {
+  return ibanLabelPattern.test(text.slice(Math.max(0, index - 40), index));
+};
+
+// Whether we check the account format of the IBAN's country; other countries' IBANs allow any
+// letters and digits, which ordinary words can pass for
+export const hasKnownAccountFormat = (iban: string): boolean => {
+  return !!getIbanCountryFormat(iban.substring(0, 2))?.bban;
+};
+
+// ISO 13616 mod-97 remainder; 1 for a valid IBAN
+export const ibanMod97 = (iban: string): number => {
+  // Move the country code and check digits to the end and turn letters into numbers (A = 10)
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  const numeric = rearranged.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+
+  // Process in chunks so the number never exceeds the safe integer range
+  let remainder = 0;
+  for (let i = 0; i < numeric.length; i += 7) {
+    remainder = Number(`${remainder}${numeric.slice(i, i + 7)}`) % 97;
+  }
+  return remainder;
+};
+
+// Whether an IBAN without spaces passes the mod-97 check
+export const isIbanChecksumValid = (iban: string): boolean => {
+  return /^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban) && ibanMod97(iban) === 1;
+};
+
+export interface RecoveredIban {
+  iban: string;
+  repairs: CharacterRepair[]; // Characters swapped to recover the IBAN, empty if only spacing was removed
+}
+
+// Recover an IBAN from OCR text: null unless the repaired IBAN has its country's format and
+// passes the checksum. Each position is repaired to the kind of character its country's format
+// requires there; confusable letters where either kind is allowed are read as digits first,
+// then as printed.
+export const recoverIban = (raw: string): RecoveredIban | null => {
+  const compact = raw.replace(/[\s-]/g, '').toUpperCase();
+  const countryCode = Array.from(compact.substring(0, 2)).map(char => LETTER_FOR_DIGIT[char] ?? char).join('');
+  const format = getIbanCountryFormat(countryCode);
+  if (!format || compact.length !== format.length) return null;
+
+  const runs: IbanCharacterRun[] = [{ character: 'letter', count: 2 }, { character: 'digit', count: 2 }, ...bbanCharacterRuns(format)];
+  const characters = runs.flatMap(run => Array<IbanCharacter>(run.count).fill(run.character));
+  for (const ambiguousAsDigits of [true, false]) {
+    const repairs: CharacterRepair[] = [];
+    const iban = Array.from(compact).map((char, index) => {
+      const character = characters[index];
+      const replacement = character === 'letter' ? LETTER_FOR_DIGIT[char]
+        : character === 'digit' || ambiguousAsDigits ? DIGIT_FOR_LETTER[char]
+        : undefined;
+      if (!replacement) return char;
+
+      repairs.push({ index, original: char, replacement });
+      return replacement;
+    }).join('');
+
+    if (hasIbanCountryFormat(iban) && isIbanChecksumValid(iban)) return { iban, repairs };
+  }
+  return null;
+};
+
+// Describe repairs for a reviewer, e.g. 'O→0 at position 7'
+export const describeRepairs = (repairs: CharacterRepair[]): string => {
+  return repairs
+    .map(repair => `${repair.original}→${repair.replacement} at position ${repair.index + 1}`)
+    .join(', ');
+};
@@ -0,0 +1,511 @@
+/**
+ * Image preprocessing before OCR
+ *
+ * Phone photos and fax scans are cleaned up before Tesseract reads them: a photographed page is
+ * cut out of its background and flattened, turned upright, deskewed, converted to grayscale with
+ * its contrast stretched, binarized against its local background and despeckled. Every step
+ * works on a grayscale bitmap, so the pipeline runs the same in a worker and in tests; drawing
+ * to and from canvases is left to the caller.
+ */
+import { PreprocessingReport, PreprocessingSettings } from '../types';
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // One byte per pixel, 0 black to 255 white
+}
+
+export type Point = { x: number; y: number };
+
+export const defaultPreprocessingSettings: PreprocessingSettings = {
+  enabled: true,
+  perspective: true,
+  orientation: true,
+  deskew: true,
+  binarize: true,
+  denoise: true,
+  binarizeOffset: 10
+};
+
+// Largest skew corrected; steeper angles are taken for content, not a tilted scan
+const MAX_SKEW = 15;
+
+// Skews smaller than this are left alone; rotating resamples the image
+const MIN_SKEW = 0.2;
+
+// Analysis runs on a copy at most this large, for speed
+const ANALYSIS_SIZE = 800;
+const PAGE_DETECTION_SIZE = 300;
+
+// The photographed page must cover this share of the picture to be cut out
+const MIN_PAGE_AREA = 0.2;
+
+// Corners closer than this share of the image size to its own corners mean a flat scan
+const CORNER_TOLERANCE = 0.03;
+
+// Text lines must be this much more pronounced across than down to turn the page a quarter
+const QUARTER_TURN_MARGIN = 1.5;
+
+const WHITE = 255;
+
+export const createGrayImage = (width: number, height: number, fill: number = WHITE): GrayImage => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height).fill(fill)
+});
+
+// Luminance of RGBA pixels, with transparent areas taken as white paper
+export const toGrayscale = (rgba: Uint8ClampedArray, width: number, height: number): GrayImage => {
+  const image = createGrayImage(width, height);
+  for (let i = 0; i < width * height; i++) {
+    const alpha = rgba[i * 4 + 3] / 255;
+    const luminance = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+    image.data[i] = luminance * alpha + WHITE * (1 - alpha);
+  }
+  return image;
+};
+
+export const toRgba = (image: GrayImage): Uint8ClampedArray => {
+  const rgba = new Uint8ClampedArray(image.width * image.height * 4);
+  for (let i = 0; i < image.data.length; i++) {
+    rgba[i * 4] = rgba[i * 4 + 1] = rgba[i * 4 + 2] = image.data[i];
+    rgba[i * 4 + 3] = 255;
+  }
+  return rgba;
+};
+
+const sample = (image: GrayImage, x: number, y: number): number => {
+  if (x < 0 || y < 0 || x > image.width - 1 || y > image.height - 1) return WHITE;
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, image.width - 1);
+  const y1 = Math.min(y0 + 1, image.height - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+  const top = image.data[y0 * image.width + x0] * (1 - fx) + image.data[y0 * image.width + x1] * fx;
+  const bottom = image.data[y1 * image.width + x0] * (1 - fx) + image.data[y1 * image.width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+};
+
+// A copy scaled down so its longer side is at most maxSize; returns the scale used
+export const downscale = (image: GrayImage, maxSize: number): { image: GrayImage; scale: number } => {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  if (scale === 1) return { image, scale };
+
+  const small = createGrayImage(Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)));
+  for (let y = 0; y < small.height; y++) {
+    for (let x = 0; x < small.width; x++) {
+      small.data[y * small.width + x] = sample(image, x / scale, y / scale);
+    }
+  }
+  return { image: small, scale };
+};
+
+// Otsu's threshold: the gray level that best separates dark ink from light paper
+export const otsuThreshold = (image: GrayImage): number => {
+  const histogram = new Array(256).fill(0);
+  image.data.forEach(value => histogram[value]++);
+
+  const total = image.data.length;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let backgroundSum = 0;
+  let backgroundCount = 0;
+  let best = { threshold: 128, variance: -1 };
+
+  for (let threshold = 0; threshold < 256; threshold++) {
+    backgroundCount += histogram[threshold];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = total - backgroundCount;
+    if (foregroundCount === 0) break;
+
+    backgroundSum += threshold * histogram[threshold];
+    const backgroundMean = backgroundSum / backgroundCount;
+    const foregroundMean = (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2;
+    if (variance > best.variance) best = { threshold, variance };
+  }
+  return best.threshold;
+};
+
+// Stretch the gray levels so the darkest and lightest percent span the full range
+export const stretchContrast = (image: GrayImage): GrayImage => {
+  const histogram = new Array(256).fill(0);
+  image.data.forEach(value => histogram[value]++);
+
+  const clip = image.data.length * 0.01;
+  let low = 0;
+  for (let count = 0; low < 255 && count + histogram[low] <= clip; low++) count += histogram[low];
+  let high = 255;
+  for (let count = 0; high > 0 && count + histogram[high] <= clip; high--) count += histogram[high];
+  if (high - low < 1) return image;
+
+  const stretched = createGrayImage(image.width, image.height);
+  for (let i = 0; i < image.data.length; i++) {
+    stretched.data[i] = ((image.data[i] - low) * 255) / (high - low);
+  }
+  return stretched;
+};
+
+// Black where a pixel is offset percent darker than the mean of its neighbourhood (Bradley's
+// method), so shadows and uneven lighting do not swallow the text
+export const adaptiveBinarize = (image: GrayImage, offset: number): GrayImage => {
+  const { width, height } = image;
+  const radius = Math.max(7, Math.round(Math.max(width, height) / 80));
+
+  // Summed-area table, one row and column larger than the image
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += image.data[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const binary = createGrayImage(width, height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      binary.data[y * width + x] = image.data[y * width + x] < mean * (1 - offset / 100) ? 0 : WHITE;
+    }
+  }
+  return binary;
+};
+
+const countDarkNeighbours = (image: GrayImage, x: number, y: number, threshold: number): number => {
+  let dark = 0;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      if (dx === 0 && dy === 0) continue;
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx >= 0 && ny >= 0 && nx < image.width && ny < image.height && image.data[ny * image.width + nx] < threshold) dark++;
+    }
+  }
+  return dark;
+};
+
+// Remove specks: dark pixels with at most one dark neighbour turn white, and light pixels
+// surrounded by ink are filled
+export const removeNoise = (image: GrayImage): GrayImage => {
+  const threshold = 128;
+  const cleaned = createGrayImage(image.width, image.height);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const index = y * image.width + x;
+      const dark = countDarkNeighbours(image, x, y, threshold);
+      if (image.data[index] < threshold) {
+        cleaned.data[index] = dark <= 1 ? WHITE : image.data[index];
+      } else {
+        cleaned.data[index] = dark >= 7 ? 0 : image.data[index];
+      }
+    }
+  }
+  return cleaned;
+};
+
+// Turn the image clockwise by a number of quarter turns
+export const rotateQuarterTurns = (image: GrayImage, turns: number): GrayImage => {
+  const quarter = ((turns % 4) + 4) % 4;
+  if (quarter === 0) return image;
+
+  const { width, height } = image;
+  const rotated = quarter === 2 ? createGrayImage(width, height) : createGrayImage(height, width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = image.data[y * width + x];
+      if (quarter === 1) rotated.data[x * height + (height - 1 - y)] = value;
+      else if (quarter === 2) rotated.data[(height - 1 - y) * width + (width - 1 - x)] = value;
+      else rotated.data[(width - 1 - x) * height + y] = value;
+    }
+  }
+  return rotated;
+};
+
+// Rotate by an angle in degrees, clockwise, growing the canvas so no corner is cut off
+export const rotateImage = (image: GrayImage, degrees: number): GrayImage => {
+  if (degrees === 0) return image;
+
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const width = Math.round(Math.abs(image.width * cos) + Math.abs(image.height * sin));
+  const height = Math.round(Math.abs(image.width * sin) + Math.abs(image.height * cos));
+  const rotated = createGrayImage(width, height);
+
+  const cx = (image.width - 1) / 2;
+  const cy = (image.height - 1) / 2;
+  const ox = (width - 1) / 2;
+  const oy = (height - 1) / 2;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Turn the output pixel back to find where it came from
+      const dx = x - ox;
+      const dy = y - oy;
+      rotated.data[y * width + x] = sample(image, dx * cos + dy * sin + cx, -dx * sin + dy * cos + cy);
+    }
+  }
+  return rotated;
+};
+
+// Coordinates of the ink of a scaled-down copy
+const darkPixels = (image: GrayImage): Point[] => {
+  const threshold = otsuThreshold(image);
+  const points: Point[] = [];
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      if (image.data[y * image.width + x] <= threshold && image.data[y * image.width + x] < 200) points.push({ x, y });
+    }
+  }
+  return points;
+};
+
+// How sharply the ink falls into lines when projected at an angle: text lines at that angle
+// give tall, separated peaks
+const projectionScore = (points: Point[], degrees: number, size: number): number => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const bins = new Float64Array(size * 2 + 1);
+  for (const { x, y } of points) {
+    bins[Math.round(y * cos - x * sin) + size]++;
+  }
+  return bins.reduce((score, count) => score + count * count, 0);
+};
+
+// Angle of the text lines in degrees, positive when they run down to the right
+export const estimateSkew = (image: GrayImage): number => {
+  const { image: small } = downscale(image, ANALYSIS_SIZE);
+  const points = darkPixels(small);
+  if (points.length < 50) return 0;
+
+  const size = small.width + small.height;
+  const search = (from: number, to: number, step: number): number => {
+    let best = { angle: 0, score: -1 };
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const score = projectionScore(points, angle, size);
+      if (score > best.score) best = { angle, score };
+    }
+    return best.angle;
+  };
+
+  const coarse = search(-MAX_SKEW, MAX_SKEW, 0.5);
+  const fine = Math.round(search(coarse - 0.5, coarse + 0.5, 0.1) * 10) / 10;
+  return Math.abs(fine) < MIN_SKEW || Math.abs(fine) >= MAX_SKEW ? 0 : fine;
+};
+
+// True when the text lines run from top to bottom, i.e. the page lies on its side
+export const isQuarterTurned = (image: GrayImage): boolean => {
+  const { image: small } = downscale(image, ANALYSIS_SIZE);
+  const points = darkPixels(small);
+  if (points.length < 50) return false;
+
+  const rows = new Float64Array(small.height);
+  const columns = new Float64Array(small.width);
+  points.forEach(({ x, y }) => {
+    rows[y]++;
+    columns[x]++;
+  });
+
+  // Coefficient of variation, so images of different proportions compare fairly
+  const spread = (values: Float64Array): number => {
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    if (mean === 0) return 0;
+    const variance = values.reduce((acc, value) => acc + (value - mean) ** 2, 0) / values.length;
+    return Math.sqrt(variance) / mean;
+  };
+  return spread(columns) > spread(rows) * QUARTER_TURN_MARGIN;
+};
+
+// Corners of a photographed page, clockwise from top left, or null when the page already fills
+// the picture. The page is the largest light area of the photo.
+export const findPageCorners = (image: GrayImage): Point[] | null => {
+  const { image: small, scale } = downscale(image, PAGE_DETECTION_SIZE);
+  const { width, height } = small;
+  const threshold = otsuThreshold(small);
+
+  // Largest connected light region
+  const labels = new Int32Array(width * height).fill(-1);
+  let largest: number[] = [];
+  for (let start = 0; start < width * height; start++) {
+    if (labels[start] !== -1 || small.data[start] <= threshold) continue;
+    const region: number[] = [];
+    const stack = [start];
+    labels[start] = start;
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      region.push(index);
+      const x = index % width;
+      const y = (index - x) / width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour >= 0 && labels[neighbour] === -1 && small.data[neighbour] > threshold) {
+          labels[neighbour] = start;
+          stack.push(neighbour);
+        }
+      }
+    }
+    if (region.length > largest.length) largest = region;
+  }
+  if (largest.length < width * height * MIN_PAGE_AREA) return null;
+
+  // Extreme points along the diagonals are the corners of a roughly rectangular page
+  let topLeft = { x: 0, y: 0, key: Infinity };
+  let bottomRight = { x: 0, y: 0, key: -Infinity };
+  let topRight = { x: 0, y: 0, key: -Infinity };
+  let bottomLeft = { x: 0, y: 0, key: Infinity };
+  for (const index of largest) {
+    const x = index % width;
+    const y = (index - x) / width;
+    if (x + y < topLeft.key) topLeft = { x, y, key: x + y };
+    if (x + y > bottomRight.key) bottomRight = { x, y, key: x + y };
+    if (x - y > topRight.key) topRight = { x, y, key: x - y };
+    if (x - y < bottomLeft.key) bottomLeft = { x, y, key: x - y };
+  }
+
+  const corners = [topLeft, topRight, bottomRight, bottomLeft];
+  const imageCorners = [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }];
+  const tolerance = Math.max(width, height) * CORNER_TOLERANCE;
+  const fillsPicture = corners.every((corner, i) =>
+    Math.abs(corner.x - imageCorners[i].x) <= tolerance && Math.abs(corner.y - imageCorners[i].y) <= tolerance);
+  if (fillsPicture) return null;
+
+  // Scale back, to the middle of the analysed pixel
+  return corners.map(({ x, y }) => ({ x: (x + 0.5) / scale - 0.5, y: (y + 0.5) / scale - 0.5 }));
+};
+
+// Solve a linear system by Gaussian elimination with partial pivoting
+const solve = (matrix: number[][], values: number[]): number[] => {
+  const n = values.length;
+  const rows = matrix.map((row, i) => [...row, values[i]]);
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    for (let row = column + 1; row < n; row++) {
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k <= n; k++) rows[row][k] -= factor * rows[column][k];
+    }
+  }
+
+  const solution = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rows[row][n];
+    for (let k = row + 1; k < n; k++) sum -= rows[row][k] * solution[k];
+    solution[row] = sum / rows[row][row];
+  }
+  return solution;
+};
+
+// The perspective transform mapping four points onto four others
+export const perspectiveTransform = (from: Point[], to: Point[]): ((point: Point) => Point) => {
+  const matrix: number[][] = [];
+  const values: number[] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    values.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    values.push(v);
+  });
+  const [a, b, c, d, e, f, g, h] = solve(matrix, values);
+
+  return ({ x, y }) => {
+    const w = g * x + h * y + 1;
+    return { x: (a * x + b * y + c) / w, y: (d * x + e * y + f) / w };
+  };
+};
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Cut out the page with the given corners and flatten it to a rectangle
+export const correctPerspective = (image: GrayImage, corners: Point[]): GrayImage => {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  const width = Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight)));
+  const height = Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight)));
+
+  // Map every output pixel back into the photo
+  const toPhoto = perspectiveTransform(
+    [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }],
+    corners
+  );
+  const flattened = createGrayImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = toPhoto({ x, y });
+      flattened.data[y * width + x] = sample(image, source.x, source.y);
+    }
+  }
+  return flattened;
+};
+
+/**
+ * Run the enabled steps on a grayscale image. Telling an upright page from an upside-down
+ * one needs OCR, so that check is left to the caller.
+ */
+export const preprocessImage = (
+  input: GrayImage,
+  settings: PreprocessingSettings
+): { image: GrayImage; report: PreprocessingReport } => {
+  const report: PreprocessingReport = { settings, rotation: 0, skewAngle: 0, perspectiveCorrected: false };
+  if (!settings.enabled) return { image: input, report };
+
+  let image = input;
+
+  if (settings.perspective) {
+    const corners = findPageCorners(image);
+    if (corners) {
+      image = correctPerspective(image, corners);
+      report.perspectiveCorrected = true;
+    }
+  }
+
+  if (settings.orientation && isQuarterTurned(image)) {
+    image = rotateQuarterTurns(image, 1);
+    report.rotation = 90;
+  }
+
+  if (settings.deskew) {
+    const skew = estimateSkew(image);
+    if (skew !== 0) {
+      image = rotateImage(image, -skew);
+      report.skewAngle = skew;
+    }
+  }
+
+  image = stretchContrast(image);
+  if (settings.binarize) image = adaptiveBinarize(image, settings.binarizeOffset);
+  if (settings.denoise) image = removeNoise(image);
+
+  return { image, report };
+};
+
+// What preprocessing did, e.g. "Page flattened, turned 90°, deskewed by 2.5°"
+export const describePreprocessing = (report: PreprocessingReport): string => {
+  if (!report.settings.enabled) return 'No preprocessing';
+
+  const changes = [
+    report.perspectiveCorrected && 'page flattened',
+    report.rotation !== 0 && `turned ${report.rotation}°`,
+    report.skewAngle !== 0 && `deskewed by ${Math.abs(report.skewAngle)}°`,
+    'grayscale',
+    report.settings.binarize && 'binarized',
+    report.settings.denoise && 'despeckled'
+  ].filter((change): change is string => Boolean(change));
+
+  const text = changes.join(', ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
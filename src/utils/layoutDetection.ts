@@ -1,4 +1,6 @@
-import { DocumentSection, FormLayout } from '../types';
+import { ConfidenceStep, DocumentSection, FieldCandidate, FormLayout } from '../types';
+import { confidenceStep } from './confidenceTrace';
+import { fieldDefinitions } from './fieldDefinitions';
 
 // Predefined form layouts based on common patterns
 export const formLayouts: FormLayout[] = [
@@ -172,6 +174,18 @@ export function divideDocumentIntoSections(text: string, sectionCount: number =
   const totalLines = lines.length;
   const sectionsArray: DocumentSection[] = [];
   
+  // Character offset and page of the start of every line, so matches can be traced back to the text
+  const lineOffsets: number[] = [];
+  const linePages: number[] = [];
+  let offset = 0;
+  let page = 1;
+  for (const line of lines) {
+    lineOffsets.push(offset);
+    linePages.push(page);
+    offset += line.length + 1;
+    page += countPageBreaks(line);
+  }
+  
   // Create sections based on line positions
   for (let i = 0; i < sectionCount; i++) {
     const startLine = Math.floor((i / sectionCount) * totalLines);
@@ -181,7 +195,9 @@ export function divideDocumentIntoSections(text: string, sectionCount: number =
     sectionsArray.push({
       startPercentage: (i / sectionCount) * 100,
       endPercentage: ((i + 1) / sectionCount) * 100,
-      content: sectionLines.join('\n')
+      content: sectionLines.join('\n'),
+      startOffset: lineOffsets[startLine] ?? text.length,
+      startPage: linePages[startLine] ?? page
     });
   }
   
@@ -202,6 +218,78 @@ export function divideDocumentIntoSections(text: string, sectionCount: number =
   return sectionsArray;
 }
 
+// Pages are separated by form feed characters in the extracted text
+function countPageBreaks(text: string): number {
+  return text.split('\f').length - 1;
+}
+
+// Locate a matched value in the document text. The value is searched for inside the full
+// match so the span covers the captured value rather than its label.
+export function locateMatch(
+  section: DocumentSection,
+  match: RegExpMatchArray,
+  value: string
+): { start: number; end: number; page: number } {
+  return locateValue(section, match.index ?? 0, match[0], value);
+}
+
+function locateValue(
+  section: DocumentSection,
+  matchStart: number,
+  matchText: string,
+  value: string
+): { start: number; end: number; page: number } {
+  const valueIndex = matchText.indexOf(value);
+  const localStart = valueIndex >= 0 ? matchStart + valueIndex : matchStart;
+  const length = valueIndex >= 0 ? value.length : matchText.length;
+  
+  return {
+    start: section.startOffset + localStart,
+    end: section.startOffset + localStart + length,
+    page: section.startPage + countPageBreaks(section.content.slice(0, localStart))
+  };
+}
+
+// Locate a character offset of the document text, e.g. a row found by a line-based parser
+export function locateOffset(
+  sections: DocumentSection[],
+  offset: number
+): { sectionIndex: number; position: number; page: number } {
+  // Empty sections share their start offset with the next one, so search from the end
+  for (let i = sections.length - 1; i >= 0; i--) {
+    const section = sections[i];
+    if (offset >= section.startOffset) {
+      return {
+        sectionIndex: i,
+        position: (section.startPercentage + section.endPercentage) / 2,
+        page: section.startPage + countPageBreaks(section.content.slice(0, offset - section.startOffset))
+      };
+    }
+  }
+  
+  return { sectionIndex: -1, position: -1, page: -1 };
+}
+
+// Locate a match found in the sections joined by newlines (the global fallback search)
+function locateCombinedMatch(
+  sections: DocumentSection[],
+  match: RegExpMatchArray,
+  value: string
+): { start: number; end: number; page: number } {
+  const matchIndex = match.index ?? 0;
+  let combinedOffset = 0;
+  
+  for (const section of sections) {
+    const sectionEnd = combinedOffset + section.content.length;
+    if (matchIndex <= sectionEnd) {
+      return locateValue(section, matchIndex - combinedOffset, match[0], value);
+    }
+    combinedOffset = sectionEnd + 1;
+  }
+  
+  return { start: -1, end: -1, page: -1 };
+}
+
 // Detect customer information section
 function detectCustomerInfoSection(sections: DocumentSection[]): number {
   const customerKeywords = [
@@ -219,6 +307,8 @@ function detectCustomerInfoSection(sections: DocumentSection[]): number {
     /customer information/i,
     /Customer Details/i,
     /CLIENT DETAILS/i,
+    /بيانات العميل/,
+    /معلومات العميل/,
   ];
   
   // Check first 40% of the document
@@ -314,6 +404,87 @@ function detectSignatureSection(sections: DocumentSection[]): number {
   return -1;
 }
 
+// Section tiers searched in priority order. Each tier sets the base confidence for a match
+// found there and how much confidence is lost for every lower-priority pattern.
+interface SectionTier {
+  sectionType?: string;
+  description: string; // Explains the base confidence in the trace
+  baseConfidence: number;
+  patternPenalty: number;
+  select: (sections: DocumentSection[]) => DocumentSection[];
+}
+
+const sectionTiers: SectionTier[] = [
+  // Customer information section (highest priority)
+  {
+    sectionType: 'customerInfo',
+    description: 'Found in the customer information section',
+    baseConfidence: 95,
+    patternPenalty: 5,
+    select: sections => sections.filter(s => s.isCustomerInfoSection).slice(0, 1)
+  },
+  // Top 30% of document (high priority)
+  {
+    sectionType: 'top',
+    description: 'Found in the top 30% of the document',
+    baseConfidence: 90,
+    patternPenalty: 5,
+    select: sections => sections.filter(s => s.endPercentage <= 30 && !s.isSignatureSection)
+  },
+  // Middle sections (medium priority)
+  {
+    sectionType: 'middle',
+    description: 'Found in the middle of the document',
+    baseConfidence: 80,
+    patternPenalty: 5,
+    select: sections => sections.filter(s => s.startPercentage > 30 && s.endPercentage < 70 && !s.isSignatureSection)
+  },
+  // AVOID signature/office sections for most fields
+  {
+    description: 'Found outside the signature/office section',
+    baseConfidence: 75,
+    patternPenalty: 7,
+    select: sections => sections.filter(s => !s.isSignatureSection)
+  },
+  // IMPROVEMENT: Almost never use signature sections for important fields like names
+  // Only check signature sections as absolute last resort and with very low confidence
+  {
+    sectionType: 'signature',
+    description: 'Found only in the signature/office section',
+    baseConfidence: 30,
+    patternPenalty: 5,
+    select: sections => sections.filter(s => s.isSignatureSection)
+  }
+];
+
+// Base score for the tier a match was found in, less the penalty for lower-priority patterns
+function tierTrace(
+  rule: string,
+  description: string,
+  baseConfidence: number,
+  patternIndex: number,
+  patternPenalty: number
+): ConfidenceStep[] {
+  const trace = [confidenceStep(rule, description, baseConfidence)];
+  if (patternIndex > 0) {
+    trace.push(confidenceStep(
+      'pattern.rank',
+      `Matched by pattern #${patternIndex + 1}, -${patternPenalty} for each higher-priority pattern`,
+      -patternIndex * patternPenalty
+    ));
+  }
+  return trace;
+}
+
+const sectionTierTrace = (tier: SectionTier, patternIndex: number): ConfidenceStep[] => {
+  return tierTrace(`section.${tier.sectionType ?? 'nonSignature'}`, tier.description, tier.baseConfidence, patternIndex, tier.patternPenalty);
+};
+
+// Matches only found by searching the whole document
+const globalSearchTrace = (patternIndex: number): ConfidenceStep[] => {
+  return tierTrace('section.global', 'Found only by a whole-document search', 45, patternIndex, 5);
+};
+
 // Find the section where a specific pattern appears with section prioritization
 export function findPatternInSections(
   sections: DocumentSection[], 
@@ -323,161 +494,168 @@ export function findPatternInSections(
   match: string | null;
   confidence: number;
   sectionType?: string;
+  sectionIndex?: number;
+  pattern?: string;
+  start?: number;
+  end?: number;
+  page?: number;
+  trace?: ConfidenceStep[];
 } {
-  // First try to match in customer information section (highest priority)
-  const customerInfoSection = sections.find(s => s.isCustomerInfoSection);
-  if (customerInfoSection) {
-    for (const pattern of patterns) {
-      const match = customerInfoSection.content.match(pattern);
-      if (match && match[1]) {
-        // Calculate position as middle point of section
-        const position = (customerInfoSection.startPercentage + customerInfoSection.endPercentage) / 2;
-        // Higher confidence if found in customer info section
-        const patternConfidence = 95 - (patterns.indexOf(pattern) * 5);
-        return { 
-          position, 
-          match: match[1],
-          confidence: patternConfidence,
-          sectionType: 'customerInfo'
-        };
+  for (const tier of sectionTiers) {
+    for (const section of tier.select(sections)) {
+      for (let i = 0; i < patterns.length; i++) {
+        const match = section.content.match(patterns[i]);
+        if (match && match[1]) {
+          return { 
+            // Calculate position as middle point of section
+            position: (section.startPercentage + section.endPercentage) / 2, 
+            match: match[1],
+            confidence: tier.baseConfidence - (i * tier.patternPenalty),
+            sectionType: tier.sectionType,
+            sectionIndex: sections.indexOf(section),
+            pattern: patterns[i].source,
+            trace: sectionTierTrace(tier, i),
+            ...locateMatch(section, match, match[1].trim())
+          };
+        }
       }
     }
   }
   
-  // Then try to match in top 30% of document (high priority)
-  const topSections = sections.filter(s => s.endPercentage <= 30 && !s.isSignatureSection);
-  for (const section of topSections) {
-    for (const pattern of patterns) {
-      const match = section.content.match(pattern);
-      if (match && match[1]) {
-        // Calculate position as middle point of section
-        const position = (section.startPercentage + section.endPercentage) / 2;
-        // High confidence if found in top section
-        const patternConfidence = 90 - (patterns.indexOf(pattern) * 5);
-        return { 
-          position, 
-          match: match[1],
-          confidence: patternConfidence,
-          sectionType: 'top'
-        };
-      }
+  // If no match found, try a global search through the entire document
+  const combinedContent = sections.map(s => s.content).join('\n');
+  for (let i = 0; i < patterns.length; i++) {
+    const match = combinedContent.match(patterns[i]);
+    if (match && match[1]) {
+      // Lower confidence since we couldn't locate it precisely
+      return { 
+        position: 50, // Middle of document as fallback
+        match: match[1],
+        confidence: 45 - (i * 5),
+        sectionIndex: -1,
+        pattern: patterns[i].source,
+        trace: globalSearchTrace(i),
+        ...locateCombinedMatch(sections, match, match[1].trim())
+      };
     }
   }
   
-  // Then try middle sections (medium priority)
-  const middleSections = sections.filter(s => s.startPercentage > 30 && s.endPercentage < 70 && !s.isSignatureSection);
-  for (const section of middleSections) {
-    for (const pattern of patterns) {
-      const match = section.content.match(pattern);
-      if (match && match[1]) {
-        // Calculate position as middle point of section
-        const position = (section.startPercentage + section.endPercentage) / 2;
-        // Medium confidence for middle sections
-        const patternConfidence = 80 - (patterns.indexOf(pattern) * 5);
-        return { 
-          position, 
-          match: match[1],
-          confidence: patternConfidence,
-          sectionType: 'middle'
-        };
-      }
-    }
-  }
+  return { position: -1, match: null, confidence: 0 };
+}
+
+// Collect every match of every pattern across all sections, scored the same way as
+// findPatternInSections, so callers can offer the runners-up as alternatives
+export function findAllPatternMatches(
+  sections: DocumentSection[],
+  patterns: RegExp[]
+): FieldCandidate[] {
+  const candidates: FieldCandidate[] = [];
+  const seen = new Set<string>();
   
-  // AVOID signature/office sections for most fields
-  const nonSignatureSections = sections.filter(s => !s.isSignatureSection);
-  for (const section of nonSignatureSections) {
-    for (const pattern of patterns) {
-      const match = section.content.match(pattern);
-      if (match && match[1]) {
-        // Calculate position as middle point of section
-        const position = (section.startPercentage + section.endPercentage) / 2;
-        // Base confidence on pattern position and section location
-        const patternConfidence = 75 - (patterns.indexOf(pattern) * 7);
-        return { 
-          position, 
-          match: match[1],
-          confidence: patternConfidence
-        };
+  for (const tier of sectionTiers) {
+    for (const section of tier.select(sections)) {
+      const sectionIndex = sections.indexOf(section);
+      
+      for (let i = 0; i < patterns.length; i++) {
+        const match = section.content.match(patterns[i]);
+        // A section can belong to several tiers; only score it in the first one
+        const key = `${sectionIndex}:${i}`;
+        if (match && match[1] && !seen.has(key)) {
+          seen.add(key);
+          const value = match[1].trim();
+          candidates.push({
+            value,
+            confidence: tier.baseConfidence - (i * tier.patternPenalty),
+            position: (section.startPercentage + section.endPercentage) / 2,
+            sectionIndex,
+            sectionType: tier.sectionType,
+            pattern: patterns[i].source,
+            trace: sectionTierTrace(tier, i),
+            ...locateMatch(section, match, value)
+          });
+        }
       }
     }
   }
   
-  // IMPROVEMENT: Almost never use signature sections for important fields like names
-  // Only check signature sections as absolute last resort and with very low confidence
-  const signatureSections = sections.filter(s => s.isSignatureSection);
-  for (const section of signatureSections) {
-    for (const pattern of patterns) {
-      const match = section.content.match(pattern);
-      if (match && match[1]) {
-        // Calculate position as middle point of section
-        const position = (section.startPercentage + section.endPercentage) / 2;
-        
-        // Very low confidence for signature sections
-        const patternConfidence = 30 - (patterns.indexOf(pattern) * 5);
-        
-        return { 
-          position, 
-          match: match[1],
-          confidence: patternConfidence,
-          sectionType: 'signature'
-        };
-      }
-    }
-  }
+  if (candidates.length > 0) return candidates;
   
-  // If no match found, try a global search through the entire document
+  // Nothing located in a section, fall back to a global search
   const combinedContent = sections.map(s => s.content).join('\n');
-  for (const pattern of patterns) {
-    const match = combinedContent.match(pattern);
+  for (let i = 0; i < patterns.length; i++) {
+    const match = combinedContent.match(patterns[i]);
     if (match && match[1]) {
-      // Lower confidence since we couldn't locate it precisely
-      return { 
-        position: 50, // Middle of document as fallback
-        match: match[1],
-        confidence: 45 - (patterns.indexOf(pattern) * 5)
-      };
+      const value = match[1].trim();
+      candidates.push({
+        value,
+        confidence: 45 - (i * 5),
+        position: 50,
+        sectionIndex: -1,
+        pattern: patterns[i].source,
+        trace: globalSearchTrace(i),
+        ...locateCombinedMatch(sections, match, value)
+      });
     }
   }
   
-  return { position: -1, match: null, confidence: 0 };
+  return candidates;
 }
 
-// Calculate score for how well a document matches a form layout
+// Merge the chosen value with other candidates into a ranked list: the chosen value first,
+// then the rest by confidence. Values that only differ by case or spacing are merged.
+export function rankCandidates(
+  best: FieldCandidate,
+  others: FieldCandidate[],
+  limit: number = 5
+): FieldCandidate[] {
+  if (best.position < 0 && best.confidence === 0) return [];
+  
+  const normalize = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+  const byValue = new Map<string, FieldCandidate>();
+  byValue.set(normalize(best.value), best);
+  
+  // Stable sort keeps section priority order between equally scored candidates
+  const sorted = [...others].sort((a, b) => b.confidence - a.confidence);
+  for (const candidate of sorted) {
+    const key = normalize(candidate.value);
+    if (key && !byValue.has(key)) {
+      byValue.set(key, candidate);
+    }
+  }
+  
+  return Array.from(byValue.values()).slice(0, limit);
+}
+
+// Calculate score for how well a document matches a form layout.
+// Every registry field with a layout section contributes an equal share of the 100 points.
 export function calculateLayoutMatchScore(
-  namePosition: number,
-  amountPosition: number,
-  ibanPosition: number,
-  serviceNumberPosition: number,
+  positions: Record<string, number>,
   layout: FormLayout
 ): number {
+  const layoutFields = fieldDefinitions.filter(definition => definition.layoutSection);
+  
   // Skip if any essential position is missing
-  if (namePosition < 0 || amountPosition < 0 || ibanPosition < 0 || serviceNumberPosition < 0) {
+  if (layoutFields.some(definition => (positions[definition.key] ?? -1) < 0)) {
     return 0;
   }
   
-  // Calculate deviation from expected positions, adjusted for tolerance
-  const nameDeviation = Math.abs(namePosition - layout.nameSection.expectedLocation) / layout.nameSection.tolerance;
-  const amountDeviation = Math.abs(amountPosition - layout.amountSection.expectedLocation) / layout.amountSection.tolerance;
-  const ibanDeviation = Math.abs(ibanPosition - layout.ibanSection.expectedLocation) / layout.ibanSection.tolerance;
-  const serviceDeviation = Math.abs(serviceNumberPosition - layout.serviceNumberSection.expectedLocation) / layout.serviceNumberSection.tolerance;
+  const fieldWeight = 100 / layoutFields.length;
+  let score = 0;
   
-  // Calculate score (100 is perfect match, lower values for larger deviations)
-  // Each field can contribute up to 25 points
-  const nameScore = 25 * Math.max(0, 1 - nameDeviation);
-  const amountScore = 25 * Math.max(0, 1 - amountDeviation);
-  const ibanScore = 25 * Math.max(0, 1 - ibanDeviation);
-  const serviceScore = 25 * Math.max(0, 1 - serviceDeviation);
+  for (const definition of layoutFields) {
+    const section = layout[definition.layoutSection!];
+    // Calculate deviation from expected position, adjusted for tolerance
+    const deviation = Math.abs(positions[definition.key] - section.expectedLocation) / section.tolerance;
+    // 100 is a perfect match, lower values for larger deviations
+    score += fieldWeight * Math.max(0, 1 - deviation);
+  }
   
-  return nameScore + amountScore + ibanScore + serviceScore;
+  return score;
 }
 
 // Detect the best matching form layout for a document
 export function detectFormLayout(
-  namePosition: number,
-  amountPosition: number,
-  ibanPosition: number,
-  serviceNumberPosition: number
+  positions: Record<string, number>
 ): {
   layout: FormLayout;
   confidence: number;
@@ -487,13 +665,7 @@ export function detectFormLayout(
   
   // Calculate match scores for all predefined layouts
   for (const layout of formLayouts) {
-    const score = calculateLayoutMatchScore(
-      namePosition,
-      amountPosition,
-      ibanPosition,
-      serviceNumberPosition,
-      layout
-    );
+    const score = calculateLayoutMatchScore(positions, layout);
     
     if (score > highestScore) {
       highestScore = score;
@@ -508,4 +680,4 @@ export function detectFormLayout(
     layout: bestMatch,
     confidence
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,129 @@
+/**
+ * Parsing of the refund table on final-settlement forms
+ *
+ * These forms list deposits, charges and deductions, one per line, followed by the net refund.
+ * The rows are read into line items with a sign, summed, and checked against the stated total.
+ */
+import { LineItem, LineItemTable } from '../types';
+import { currencyPatternSource } from './currencies';
+
+// Rows that state the net refund
+const NET_TOTAL_LABEL = /\b(?:net\s+(?:refund|amount|payable|total|balance)|(?:total|final)\s+refund(?:able)?(?:\s+amount)?|refund\s+(?:total|amount)|(?:amount|balance)\s+(?:to\s+be\s+)?refund(?:ed|able))\b|صافي|الإجمالي|المبلغ المسترد/i;
+const GENERIC_TOTAL_LABEL = /\b(?:sub\s*-?\s*)?total\b|المجموع/i;
+
+// Labels of rows that reduce the refund
+const DEBIT_LABEL = /\b(?:charges?|fees?|deduct(?:ion|ions|ed)?|outstanding|dues?|penalt(?:y|ies)|unpaid|invoices?|usage|bills?|costs?|fines?|tax|vat|payable|arrears)\b|رسوم|خصم|مستحق|غرام|فاتور|ضريب/i;
+// Labels of rows that add to the refund
+const CREDIT_LABEL = /\b(?:deposits?|refunds?|credits?|advance|over\s*-?\s*payments?|prepaid|prepayments?|returned)\b|تأمين|استرداد|دائن/i;
+
+// A row: optional row number, a label, then one amount at the end of the line. A minus sign,
+// parentheses or a DR suffix mark a deduction; CR marks a credit.
+const ROW = new RegExp(
+  '^[ \\t]*(?:\\d{1,2}[.)][ \\t]+)?' +
+  '([^\\d\\n]*?[A-Za-z\\u0621-\\u064A][^\\d\\n]*?)[ \\t]*[:=]?[ \\t]*' +
+  '(\\()?[ \\t]*(-(?=\\S))?[ \\t]*' +
+  `(?:${currencyPatternSource}[ \\t]*)?` +
+  '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d{1,2})?|\\d{1,6}(?:\\.\\d{1,2})?)' +
+  `[ \\t]*(?:${currencyPatternSource})?[ \\t]*(\\))?[ \\t]*(CR|DR)?[ \\t]*$`,
+  'i'
+);
+
+interface ParsedRow {
+  label: string;
+  amount: number;
+  explicitSign?: 1 | -1;
+  start: number;
+  end: number;
+}
+
+const parseRow = (line: string, start: number): ParsedRow | null => {
+  const match = line.match(ROW);
+  if (!match) return null;
+  
+  const [, rawLabel, openParen, minus, amountText, closeParen, marker] = match;
+  const label = rawLabel.replace(/[\s:=\-–]+$/, '').trim();
+  if (!label) return null;
+  
+  let explicitSign: 1 | -1 | undefined;
+  if (minus || (openParen && closeParen) || marker?.toUpperCase() === 'DR') {
+    explicitSign = -1;
+  } else if (marker?.toUpperCase() === 'CR') {
+    explicitSign = 1;
+  }
+  
+  return {
+    label,
+    amount: parseFloat(amountText.replace(/,/g, '')),
+    explicitSign,
+    start,
+    end: start + line.length
+  };
+};
+
+const isTotalRow = (row: ParsedRow): boolean => {
+  if (NET_TOTAL_LABEL.test(row.label)) return true;
+  // A bare "Total"; "Total charges" is a subtotal
+  return GENERIC_TOTAL_LABEL.test(row.label) && !DEBIT_LABEL.test(row.label) && !CREDIT_LABEL.test(row.label);
+};
+
+const isSubtotalRow = (row: ParsedRow): boolean => {
+  return GENERIC_TOTAL_LABEL.test(row.label) && !isTotalRow(row);
+};
+
+// Explicit markers win; otherwise the label decides, and unlabelled rows count as credits
+const signOf = (row: ParsedRow): 1 | -1 => {
+  if (row.explicitSign) return row.explicitSign;
+  if (DEBIT_LABEL.test(row.label) && !CREDIT_LABEL.test(row.label)) return -1;
+  return 1;
+};
+
+const roundMinor = (value: number): number => Math.round(value * 100) / 100;
+
+// Sum line items into the net refund
+export function computeNetRefund(items: LineItem[]): number {
+  return roundMinor(items.reduce((total, item) => total + item.sign * item.amount, 0));
+}
+
+// Find the refund table: a total row preceded by at least two item rows. Subtotal rows are
+// skipped, and the table ends at the first line above it that isn't a row.
+export function parseLineItems(text: string): LineItemTable | null {
+  const lines: { text: string; start: number }[] = [];
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    lines.push({ text: line, start: offset });
+    offset += line.length + 1;
+  }
+  
+  for (let totalIndex = 0; totalIndex < lines.length; totalIndex++) {
+    const totalRow = parseRow(lines[totalIndex].text, lines[totalIndex].start);
+    if (!totalRow || !isTotalRow(totalRow)) continue;
+    
+    const rows: ParsedRow[] = [];
+    for (let i = totalIndex - 1; i >= 0; i--) {
+      const row = parseRow(lines[i].text, lines[i].start);
+      if (!row || isTotalRow(row)) break;
+      if (!isSubtotalRow(row)) rows.unshift(row);
+    }
+    if (rows.length < 2) continue;
+    
+    const items: LineItem[] = rows.map(row => ({
+      label: row.label,
+      amount: row.amount,
+      sign: signOf(row),
+      start: row.start,
+      end: row.end
+    }));
+    const computedTotal = computeNetRefund(items);
+    
+    return {
+      items,
+      statedTotal: totalRow.amount,
+      computedTotal,
+      reconciled: Math.round(computedTotal * 100) === Math.round(totalRow.amount * 100),
+      start: items[0].start,
+      end: totalRow.end
+    };
+  }
+  
+  return null;
+}
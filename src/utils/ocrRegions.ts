@@ -0,0 +1,82 @@
+/**
+ * Text blocks of OCR'd images and the script they are written in
+ *
+ * Images are read with Arabic and English together. Every text block keeps its position, so a
+ * block read badly can be read again with a single language; the document text is rebuilt from
+ * the blocks, one section per block, and goes through the usual extraction pipeline.
+ */
+import { OcrRegion, TextScript } from '../types';
+
+// Languages an image is read with unless a region is read again with another
+export const DEFAULT_OCR_LANGUAGE = 'ara+eng';
+
+export const ocrLanguageOptions: { value: string; label: string }[] = [
+  { value: 'ara+eng', label: 'Arabic + English' },
+  { value: 'ara', label: 'Arabic' },
+  { value: 'eng', label: 'English' }
+];
+
+export const scriptLabels: Record<TextScript, string> = {
+  arabic: 'Arabic',
+  latin: 'Latin',
+  mixed: 'Mixed',
+  none: 'No letters'
+};
+
+// Share of the letters a script needs to count as the block's only script
+const DOMINANT_SHARE = 0.85;
+
+// Blank line between blocks, so each block becomes its own document section
+const REGION_SEPARATOR = '\n\n';
+
+const ARABIC_LETTERS = /[\u0621-\u064A\u0671-\u06D3\uFB50-\uFDFF\uFE70-\uFEFC]/g;
+const LATIN_LETTERS = /[A-Za-z\u00C0-\u024F]/g;
+
+// The script of a piece of text, by the letters it contains
+export const detectScript = (text: string): TextScript => {
+  const arabic = text.match(ARABIC_LETTERS)?.length ?? 0;
+  const latin = text.match(LATIN_LETTERS)?.length ?? 0;
+  const letters = arabic + latin;
+
+  if (letters === 0) return 'none';
+  if (arabic / letters >= DOMINANT_SHARE) return 'arabic';
+  if (latin / letters >= DOMINANT_SHARE) return 'latin';
+  return 'mixed';
+};
+
+export const createOcrRegion = (
+  text: string,
+  language: string,
+  confidence: number,
+  bbox: OcrRegion['bbox']
+): OcrRegion => ({
+  text: text.trim(),
+  script: detectScript(text),
+  language,
+  confidence,
+  bbox
+});
+
+// The document text of an image
+export const joinOcrRegions = (regions: OcrRegion[]): string =>
+  regions.map(region => region.text).join(REGION_SEPARATOR);
+
+// Character offsets of every region in the joined text
+export const ocrRegionOffsets = (regions: OcrRegion[]): { start: number; end: number }[] => {
+  let offset = 0;
+  return regions.map(region => {
+    const span = { start: offset, end: offset + region.text.length };
+    offset = span.end + REGION_SEPARATOR.length;
+    return span;
+  });
+};
+
+// The regions after one of them was read again
+export const replaceOcrRegion = (
+  regions: OcrRegion[],
+  index: number,
+  text: string,
+  language: string,
+  confidence: number
+): OcrRegion[] =>
+  regions.map((region, i) => i === index ? createOcrRegion(text, language, confidence, region.bbox) : region);
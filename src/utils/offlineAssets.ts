@@ -0,0 +1,38 @@
+/**
+ * Files that PDF and image extraction load at runtime
+ *
+ * The PDF.js worker, the Tesseract worker and engine, and the OCR language data are copied
+ * into the build by offlineAssetsPlugin.ts, so extraction never reaches out to a CDN. The
+ * paths here must match the ones the plugin writes.
+ */
+
+export interface OfflineAsset {
+  label: string;
+  path: string;
+}
+
+export const offlineAssetPaths = {
+  pdfWorker: 'pdfjs/pdf.worker.min.mjs',
+  ocrWorker: 'ocr/worker.min.js',
+  ocrCore: 'ocr/core',
+  ocrLanguages: 'ocr/lang'
+};
+
+// Language data shipped with the app
+export const OCR_LANGUAGES = ['eng', 'ara'];
+
+export const requiredOfflineAssets: OfflineAsset[] = [
+  { label: 'PDF.js worker', path: offlineAssetPaths.pdfWorker },
+  { label: 'OCR worker', path: offlineAssetPaths.ocrWorker },
+  // Tesseract picks one of the two engines depending on the browser's SIMD support
+  { label: 'OCR engine (SIMD)', path: `${offlineAssetPaths.ocrCore}/tesseract-core-simd-lstm.wasm.js` },
+  { label: 'OCR engine', path: `${offlineAssetPaths.ocrCore}/tesseract-core-lstm.wasm.js` },
+  ...OCR_LANGUAGES.map(language => ({
+    label: `OCR language data (${language})`,
+    path: `${offlineAssetPaths.ocrLanguages}/${language}.traineddata.gz`
+  }))
+];
+
+// Absolute URL of an asset, usable from the page as well as from workers
+export const offlineAssetUrl = (path: string): string =>
+  new URL(`${import.meta.env.BASE_URL}${path}`, self.location.href).href;
@@ -0,0 +1,45 @@
+/**
+ * Text of PDF pages: the text layer where the page has one, OCR where it is a scan
+ *
+ * A page whose text layer has fewer than MIN_TEXT_LAYER_CHARACTERS non-blank characters is
+ * rendered and read by OCR instead, so scanned and digital pages can be mixed in one PDF.
+ * Values found on a page read by OCR lose confidence: a flat amount for the less reliable
+ * method, and more the less sure OCR was of the page.
+ */
+import { PageText, PageTextMethod } from '../types';
+
+// Fewer characters than this and the page is treated as scanned, e.g. a scan with a stamped header
+export const MIN_TEXT_LAYER_CHARACTERS = 20;
+
+const OCR_BASE_PENALTY = 5;
+
+// Share of OCR's own uncertainty taken off the value's confidence
+const OCR_UNCERTAINTY_WEIGHT = 0.2;
+
+export const pageMethodLabels: Record<PageTextMethod, string> = {
+  textLayer: 'Text layer',
+  ocr: 'OCR'
+};
+
+export const countTextCharacters = (text: string): number => text.replace(/\s/g, '').length;
+
+export const needsOcr = (textLayer: string): boolean => countTextCharacters(textLayer) < MIN_TEXT_LAYER_CHARACTERS;
+
+// Confidence points (negative) a value loses when its page was read by OCR
+export const ocrPagePenalty = (page: PageText): number => {
+  if (page.method !== 'ocr') return 0;
+  const uncertainty = 100 - Math.min(100, Math.max(0, page.ocrConfidence ?? 0));
+  return -Math.round(OCR_BASE_PENALTY + uncertainty * OCR_UNCERTAINTY_WEIGHT);
+};
+
+// Short description of how a document's pages were read, e.g. "Pages 2 and 3 of 3 read by OCR"
+export const describePageMethods = (pages: PageText[]): string => {
+  const ocrPages = pages.filter(page => page.method === 'ocr').map(page => page.page);
+  if (ocrPages.length === 0) return pages.length === 1 ? 'Read from the text layer' : `All ${pages.length} pages read from the text layer`;
+  if (ocrPages.length === pages.length) return pages.length === 1 ? 'Scanned page read by OCR' : `All ${pages.length} pages scanned and read by OCR`;
+
+  const list = ocrPages.length === 1
+    ? `Page ${ocrPages[0]}`
+    : `Pages ${ocrPages.slice(0, -1).join(', ')} and ${ocrPages[ocrPages.length - 1]}`;
+  return `${list} of ${pages.length} read by OCR`;
+};
@@ -0,0 +1,149 @@
+/**
+ * Review workflow of stored extraction results
+ *
+ * A processed document is extracted, taken into review, verified against the document, approved
+ * for payment, exported in a payment file and finally marked paid. It can be rejected at any point
+ * before export. Every change records who made it and when; only approved documents go into the
+ * payment file by default.
+ *
+ * Approval follows maker-checker: the person who verified or corrected a refund can't approve it,
+ * approving and rejecting need a reason, and correcting a verified or approved refund sends it back
+ * to review. Once a refund is in a payment file it can no longer be corrected.
+ */
+import { ApprovalDecision, ApprovalState, ExtractedData, ReviewState, ReviewStatus, UserProfile } from '../types';
+
+export const reviewStatuses: ReviewStatus[] = ['extracted', 'inReview', 'verified', 'approved', 'exported', 'paid', 'rejected'];
+
+export const reviewStatusLabels: Record<ReviewStatus, string> = {
+  extracted: 'Extracted',
+  inReview: 'In review',
+  verified: 'Verified',
+  approved: 'Approved',
+  exported: 'Exported',
+  paid: 'Paid',
+  rejected: 'Rejected'
+};
+
+// The statuses a document can move to from each status; going back sends it to review again
+export const reviewTransitions: Record<ReviewStatus, ReviewStatus[]> = {
+  extracted: ['inReview', 'rejected'],
+  inReview: ['verified', 'rejected'],
+  verified: ['approved', 'inReview', 'rejected'],
+  approved: ['exported', 'inReview', 'rejected'],
+  exported: ['paid'],
+  paid: [],
+  rejected: ['inReview']
+};
+
+// Set by the system when a result is first stored
+export const SYSTEM_ACTOR = 'system';
+
+// Results stored before the workflow existed count as extracted
+export const getReviewStatus = (data: ExtractedData): ReviewStatus => data.review?.status ?? 'extracted';
+
+export const canTransition = (from: ReviewStatus, to: ReviewStatus): boolean => reviewTransitions[from].includes(to);
+
+export const initialReviewState = (changedAt: string = new Date().toISOString()): ReviewState => ({
+  status: 'extracted',
+  changedBy: SYSTEM_ACTOR,
+  changedAt
+});
+
+const approvalOf = (data: ExtractedData): ApprovalState => data.approval ?? { correctedBy: [], decisions: [] };
+
+// Why a user can't move a result to a status, or null when they can
+export const transitionBlocker = (
+  data: ExtractedData,
+  status: ReviewStatus,
+  user: UserProfile,
+  reason?: string
+): string | null => {
+  const current = getReviewStatus(data);
+  if (!canTransition(current, status)) {
+    return `${data.fileName} can't move from ${reviewStatusLabels[current]} to ${reviewStatusLabels[status]}`;
+  }
+  if ((status === 'approved' || status === 'rejected') && !reason?.trim()) {
+    return `A reason is needed to ${status === 'approved' ? 'approve' : 'reject'} ${data.fileName}`;
+  }
+  if (status === 'approved') {
+    const approval = approvalOf(data);
+    if (approval.verifiedBy?.userId === user.id) {
+      return `${data.fileName} needs a second person: ${user.name} verified it`;
+    }
+    if (approval.correctedBy.includes(user.id!)) {
+      return `${data.fileName} needs a second person: ${user.name} corrected it`;
+    }
+  }
+  return null;
+};
+
+// Move a result to a new status, or return null when the user can't. The note is the reason
+// for an approval or rejection.
+export const applyReviewStatus = (
+  data: ExtractedData,
+  status: ReviewStatus,
+  user: UserProfile,
+  note?: string,
+  changedAt: string = new Date().toISOString()
+): ExtractedData | null => {
+  if (transitionBlocker(data, status, user, note)) return null;
+
+  const approval = approvalOf(data);
+  const decision: ApprovalDecision | null = status === 'approved' || status === 'rejected'
+    ? { decision: status, userId: user.id!, userName: user.name, reason: note!.trim(), decidedAt: changedAt }
+    : null;
+
+  return {
+    ...data,
+    review: { status, changedBy: user.name, changedAt, ...(note ? { note } : {}) },
+    approval: {
+      ...approval,
+      ...(status === 'verified' ? { verifiedBy: { userId: user.id!, userName: user.name, verifiedAt: changedAt } } : {}),
+      decisions: decision ? [...approval.decisions, decision] : approval.decisions
+    }
+  };
+};
+
+// Why a result's values can't be corrected any more, or null when they can
+export const correctionBlocker = (data: ExtractedData): string | null => {
+  const status = getReviewStatus(data);
+  return status === 'exported' || status === 'paid'
+    ? `${data.fileName} was already ${reviewStatusLabels[status].toLowerCase()} and can't be corrected`
+    : null;
+};
+
+// Record a correction. A verified or approved result goes back to review, to be verified and
+// approved again by someone else than the corrector. Throws for results that can't be corrected.
+export const applyCorrection = (
+  data: ExtractedData,
+  user: UserProfile,
+  correctedAt: string = new Date().toISOString()
+): ExtractedData => {
+  const blocker = correctionBlocker(data);
+  if (blocker) throw new Error(blocker);
+  
+  const approval = approvalOf(data);
+  const correctedBy = approval.correctedBy.includes(user.id!) ? approval.correctedBy : [...approval.correctedBy, user.id!];
+  const status = getReviewStatus(data);
+  const reset = status === 'verified' || status === 'approved';
+
+  return {
+    ...data,
+    ...(reset ? {
+      review: { status: 'inReview', changedBy: user.name, changedAt: correctedAt, note: `Corrected after it was ${reviewStatusLabels[status].toLowerCase()}` }
+    } : {}),
+    approval: {
+      ...approval,
+      ...(reset ? { verifiedBy: undefined } : {}),
+      correctedBy
+    }
+  };
+};
+
+// The approval that cleared a result for payment, if it is still approved or later
+export const currentApproval = (data: ExtractedData): ApprovalDecision | null => {
+  if (!['approved', 'exported', 'paid'].includes(getReviewStatus(data))) return null;
+  const decisions = approvalOf(data).decisions;
+  const last = decisions[decisions.length - 1];
+  return last?.decision === 'approved' ? last : null;
+};
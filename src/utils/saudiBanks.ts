@@ -0,0 +1,51 @@
+/**
+ * Saudi banks by the 2-digit bank code in characters 5-6 of a Saudi IBAN
+ *
+ * Follows the bank identifiers published by the Saudi Central Bank (SAMA). Codes of banks that
+ * have merged stay in the table because their customers' IBANs remain in use.
+ */
+
+export interface SaudiBank {
+  code: string;
+  name: string;
+  digital?: boolean; // Licensed digital bank
+  mergedInto?: string; // Name of the bank that now holds its accounts
+}
+
+export const saudiBanks: SaudiBank[] = [
+  { code: '05', name: 'Alinma Bank' },
+  { code: '10', name: 'The Saudi National Bank (SNB)' },
+  { code: '15', name: 'Bank Albilad' },
+  { code: '20', name: 'Riyad Bank' },
+  { code: '30', name: 'Arab National Bank' },
+  { code: '36', name: 'STC Bank', digital: true },
+  { code: '37', name: 'Vision Bank', digital: true },
+  { code: '38', name: 'D360 Bank', digital: true },
+  { code: '40', name: 'Samba Financial Group', mergedInto: 'The Saudi National Bank (SNB)' },
+  { code: '45', name: 'Saudi Awwal Bank (SAB)' },
+  { code: '50', name: 'Alawwal Bank', mergedInto: 'Saudi Awwal Bank (SAB)' },
+  { code: '55', name: 'Banque Saudi Fransi' },
+  { code: '60', name: 'Bank AlJazira' },
+  { code: '65', name: 'Saudi Investment Bank' },
+  { code: '71', name: 'National Bank of Bahrain' },
+  { code: '75', name: 'National Bank of Kuwait' },
+  { code: '76', name: 'Bank Muscat' },
+  { code: '80', name: 'Al Rajhi Bank' },
+  { code: '81', name: 'Deutsche Bank' },
+  { code: '83', name: 'State Bank of India' },
+  { code: '84', name: 'T.C. Ziraat Bankasi' },
+  { code: '85', name: 'BNP Paribas' },
+  { code: '86', name: 'J.P. Morgan Chase Bank' },
+  { code: '87', name: 'Industrial and Commercial Bank of China' },
+  { code: '90', name: 'Gulf International Bank (GIB)' },
+  { code: '95', name: 'Emirates NBD' }
+];
+
+export const getSaudiBank = (code: string): SaudiBank | undefined => {
+  return saudiBanks.find(bank => bank.code === code);
+};
+
+// Name shown to reviewers, noting where a merged bank's accounts went
+export const saudiBankDisplayName = (bank: SaudiBank): string => {
+  return bank.mergedInto ? `${bank.name} (now ${bank.mergedInto})` : bank.name;
+};
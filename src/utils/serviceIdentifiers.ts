@@ -0,0 +1,177 @@
+/**
+ * Registry of service identifier types found in the customer service number field
+ *
+ * The defaults below seed the registry; the live list is stored in IndexedDB and managed from
+ * the Pattern Registry, so new identifier types don't need a code change.
+ */
+
+export interface ServiceIdentifierType {
+  id?: number;
+  key: string; // Stable identifier stored with extracted values, e.g. "ftth"
+  label: string;
+  // Regex source matching the identifier in document text, without capturing groups
+  pattern: string;
+  // Regex source the whole identifier must match once whitespace is removed and it is upper-cased
+  validation: string;
+  validationMessage: string; // Shown when a value looks like this type but doesn't validate
+  // Labels printed before the identifier on forms, e.g. "service number"
+  keywords: string[];
+  // The pattern is distinctive enough to be found without one of the keywords in front of it
+  standalone: boolean;
+  priority: number; // Lower runs first
+  enabled: boolean;
+}
+
+export const defaultServiceIdentifierTypes: ServiceIdentifierType[] = [
+  {
+    key: 'ftth',
+    label: 'FTTH Service Number',
+    pattern: 'FTTH\\d+',
+    validation: '^FTTH\\d{3,9}$',
+    validationMessage: 'Service number must have between 3 and 9 digits after FTTH',
+    keywords: ['customer service number', 'service number', 'customer id', 'reference number', 'reference'],
+    standalone: true,
+    priority: 1,
+    enabled: true
+  },
+  {
+    key: 'dsl',
+    label: 'DSL/VDSL Circuit ID',
+    pattern: 'V?DSL[-/]?\\d{6,12}',
+    validation: '^V?DSL[-/]?\\d{6,12}$',
+    validationMessage: 'Circuit IDs are DSL or VDSL followed by 6 to 12 digits',
+    keywords: ['circuit id', 'circuit number', 'dsl number', 'vdsl number'],
+    standalone: true,
+    priority: 2,
+    enabled: true
+  },
+  {
+    key: 'landline',
+    label: 'Landline Number',
+    // Saudi landlines: area code 011-017 and a 7-digit subscriber number
+    pattern: '0?1[1-7][ -]?\\d{3}[ -]?\\d{4}',
+    validation: '^0?1[1-7]-?\\d{3}-?\\d{4}$',
+    validationMessage: 'Landline numbers are an area code 011-017 followed by 7 digits',
+    keywords: ['landline number', 'landline', 'telephone number', 'phone line', 'line number'],
+    standalone: false,
+    priority: 3,
+    enabled: true
+  },
+  {
+    key: 'account',
+    label: 'Account Number',
+    pattern: '\\d{8,12}',
+    validation: '^\\d{8,12}$',
+    validationMessage: 'Account numbers have 8 to 12 digits',
+    keywords: ['billing account number', 'account number', 'account no', 'billing account'],
+    standalone: false,
+    priority: 4,
+    enabled: true
+  },
+  {
+    key: 'order',
+    label: 'Order Number',
+    pattern: '(?:ORD|SO)?-?\\d{6,10}',
+    validation: '^(?:ORD|SO)?-?\\d{6,10}$',
+    validationMessage: 'Order numbers have 6 to 10 digits, optionally after ORD or SO',
+    keywords: ['work order number', 'order number', 'order no', 'order id', 'work order'],
+    standalone: false,
+    priority: 5,
+    enabled: true
+  }
+];
+
+// The types currently in use, replaced when the registry is loaded from the database
+let activeTypes: ServiceIdentifierType[] = defaultServiceIdentifierTypes;
+
+export const setServiceIdentifierTypes = (types: ServiceIdentifierType[]): void => {
+  activeTypes = [...types].sort((a, b) => a.priority - b.priority);
+};
+
+// Enabled identifier types, highest priority first
+export const getServiceIdentifierTypes = (): ServiceIdentifierType[] => {
+  return activeTypes.filter(type => type.enabled);
+};
+
+export const getServiceIdentifierType = (key: string): ServiceIdentifierType | undefined => {
+  return activeTypes.find(type => type.key === key);
+};
+
+// Compile a stored regex source; invalid sources entered in the registry never match
+const compile = (source: string, flags: string = 'i'): RegExp | null => {
+  try {
+    return new RegExp(source, flags);
+  } catch (error) {
+    console.error(`Invalid service identifier regex: ${source}`, error);
+    return null;
+  }
+};
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export interface ServiceIdentifierPattern {
+  pattern: RegExp; // One capturing group for the identifier
+  type: ServiceIdentifierType;
+  // Where the pattern looks: the customer information section, after a label, or anywhere
+  kind: 'customerInfo' | 'labelled' | 'bare';
+}
+
+// Extraction patterns for a list of types: standalone types in the customer information section,
+// then every type after one of its labels, then standalone types anywhere in the text
+export const buildServiceIdentifierPatterns = (types: ServiceIdentifierType[]): ServiceIdentifierPattern[] => {
+  const standalone = types.filter(type => type.standalone);
+  const withPattern = (type: ServiceIdentifierType, kind: ServiceIdentifierPattern['kind'], source: string) => {
+    const pattern = compile(source);
+    return pattern ? [{ pattern, type, kind }] : [];
+  };
+  
+  return [
+    ...standalone.flatMap(type => withPattern(type, 'customerInfo', `customer information[\\s\\S]{0,100}(${type.pattern})`)),
+    ...types
+      .filter(type => type.keywords.length > 0)
+      .flatMap(type => {
+        const keywords = type.keywords.map(keyword => escapeRegex(keyword).replace(/ /g, '\\s*')).join('|');
+        return withPattern(type, 'labelled', `(?:${keywords})\\s*[:#.]?\\s*(${type.pattern})`);
+      }),
+    ...standalone.flatMap(type => withPattern(type, 'bare', `(${type.pattern})`))
+  ];
+};
+
+// Regex source matching an identifier of any of the types, in one capturing group. Used after a
+// label learned from a correction; a digit may not follow, so a shorter type's pattern can't
+// stop partway through a longer number.
+export const serviceIdentifierValuePattern = (types: ServiceIdentifierType[] = getServiceIdentifierTypes()): string => {
+  const sources = types.filter(type => compile(type.pattern)).map(type => `(?:${type.pattern})`);
+  return `(${sources.join('|')})(?!\\d)`;
+};
+
+// Remove whitespace and upper-case an identifier before validating it
+export const cleanServiceIdentifier = (value: string): string => value.replace(/\s/g, '').toUpperCase();
+
+// The first enabled type an identifier validates as, trying the preferred type first
+export const identifyServiceIdentifier = (
+  value: string,
+  preferredKey?: string
+): ServiceIdentifierType | undefined => {
+  const clean = cleanServiceIdentifier(value);
+  const types = getServiceIdentifierTypes();
+  const ordered = [
+    ...types.filter(type => type.key === preferredKey),
+    ...types.filter(type => type.key !== preferredKey)
+  ];
+  return ordered.find(type => compile(type.validation)?.test(clean));
+};
+
+// The first enabled type an identifier looks like, even if it doesn't validate
+export const resembleServiceIdentifier = (value: string): ServiceIdentifierType | undefined => {
+  const clean = cleanServiceIdentifier(value);
+  return getServiceIdentifierTypes().find(type => compile(`^${type.pattern}`)?.test(clean));
+};
+
+// Type of an extracted identifier: the type whose pattern matched it, otherwise the first type
+// it validates as (e.g. for patterns learned from corrections)
+export const serviceIdentifierTypeOf = (value: string, patternSource?: string): ServiceIdentifierType | undefined => {
+  const matched = buildServiceIdentifierPatterns(getServiceIdentifierTypes())
+    .find(({ pattern }) => pattern.source === patternSource);
+  return matched?.type ?? identifyServiceIdentifier(value);
+};
@@ -0,0 +1,94 @@
+/**
+ * Unicode normalization applied to extracted text before field extraction.
+ *
+ * Converts Arabic-Indic and Persian digits, Arabic separators, full-width characters and Arabic
+ * presentation forms to the characters our patterns expect, and drops direction marks, tatweel
+ * and zero-width characters. Every normalized character keeps the offset of the character it
+ * came from, so matches in the normalized text can be mapped back to the original.
+ */
+
+export interface NormalizedText {
+  text: string;
+  original: string;
+  // offsetMap[i] is the offset in the original text of the character normalized text[i] came from.
+  // It has one extra entry, the original length, so end offsets can be mapped too.
+  offsetMap: number[];
+}
+
+// Characters removed entirely: tatweel, Arabic letter mark, zero-width space, LRM/RLM,
+// direction embeddings and isolates, and the byte order mark
+const REMOVED_CHARACTERS = /[\u0640\u061C\u200B\u200E\u200F\u202A-\u202E\u2066-\u2069\uFEFF]/;
+
+// Single character replacements
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+  '\u066B': '.', // Arabic decimal separator
+  '\u066C': ',', // Arabic thousands separator
+  '\u060C': ',', // Arabic comma
+  '\u066A': '%', // Arabic percent sign
+  '\u00A0': ' ', // No-break space
+  '\u3000': ' ' // Ideographic space
+};
+
+// Ranges folded with NFKC: Arabic presentation forms A and B, and full-width/half-width forms
+const NFKC_RANGES = /[\uFB50-\uFDFF\uFE70-\uFEFC\uFF01-\uFFEE]/;
+
+const normalizeCharacter = (char: string): string => {
+  if (REMOVED_CHARACTERS.test(char)) return '';
+
+  const code = char.charCodeAt(0);
+  // Arabic-Indic digits
+  if (code >= 0x0660 && code <= 0x0669) return String(code - 0x0660);
+  // Extended Arabic-Indic (Persian/Urdu) digits
+  if (code >= 0x06F0 && code <= 0x06F9) return String(code - 0x06F0);
+
+  if (char in CHARACTER_REPLACEMENTS) return CHARACTER_REPLACEMENTS[char];
+  if (NFKC_RANGES.test(char)) return char.normalize('NFKC');
+
+  return char;
+};
+
+// Normalize text for extraction, keeping a map back to the original offsets
+export function normalizeText(original: string): NormalizedText {
+  let text = '';
+  const offsetMap: number[] = [];
+
+  for (let offset = 0; offset < original.length; ) {
+    const char = String.fromCodePoint(original.codePointAt(offset)!);
+    const normalized = normalizeCharacter(char);
+
+    text += normalized;
+    for (let i = 0; i < normalized.length; i++) {
+      offsetMap.push(offset);
+    }
+
+    offset += char.length;
+  }
+
+  offsetMap.push(original.length);
+  return { text, original, offsetMap };
+}
+
+// Normalize a single value, e.g. user input to a validator
+export function normalizeValue(value: string): string {
+  return normalizeText(value).text;
+}
+
+// Map a character span in the normalized text back to the original text
+export function toOriginalSpan(
+  normalized: NormalizedText,
+  start: number,
+  end: number
+): { start: number; end: number } {
+  if (start < 0 || end < 0) return { start, end };
+
+  const { offsetMap, original } = normalized;
+  const originalStart = offsetMap[Math.min(start, offsetMap.length - 1)];
+  if (end <= start) return { start: originalStart, end: originalStart };
+
+  // End just after the original character the last normalized character came from
+  const lastSource = offsetMap[Math.min(end - 1, offsetMap.length - 1)];
+  const lastCodePoint = original.codePointAt(lastSource);
+  const lastLength = lastCodePoint !== undefined && lastCodePoint > 0xFFFF ? 2 : 1;
+
+  return { start: originalStart, end: Math.min(lastSource + lastLength, original.length) };
+}
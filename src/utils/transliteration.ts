@@ -0,0 +1,135 @@
+/**
+ * Deterministic Arabic-to-Latin transliteration for customer names.
+ *
+ * Based on a simplified ALA-LC scheme without diacritic marks, so the same Arabic spelling always
+ * produces the same Latin spelling. Used for export and for matching Arabic names against
+ * Latin-script records.
+ */
+
+// Consonants and long vowels
+const LETTERS: Record<string, string> = {
+  '\u0621': "'", // hamza
+  '\u0622': 'a', // alef with madda
+  '\u0623': 'a', // alef with hamza above
+  '\u0624': "'", // waw with hamza
+  '\u0625': 'i', // alef with hamza below
+  '\u0626': "'", // yeh with hamza
+  '\u0627': 'a', // alef
+  '\u0628': 'b',
+  '\u0629': 'a', // teh marbuta
+  '\u062A': 't',
+  '\u062B': 'th',
+  '\u062C': 'j',
+  '\u062D': 'h',
+  '\u062E': 'kh',
+  '\u062F': 'd',
+  '\u0630': 'dh',
+  '\u0631': 'r',
+  '\u0632': 'z',
+  '\u0633': 's',
+  '\u0634': 'sh',
+  '\u0635': 's',
+  '\u0636': 'd',
+  '\u0637': 't',
+  '\u0638': 'z',
+  '\u0639': "'", // ain
+  '\u063A': 'gh',
+  '\u0641': 'f',
+  '\u0642': 'q',
+  '\u0643': 'k',
+  '\u0644': 'l',
+  '\u0645': 'm',
+  '\u0646': 'n',
+  '\u0647': 'h',
+  '\u0648': 'w', // waw, see transliterateWord for the vowel form
+  '\u0649': 'a', // alef maksura
+  '\u064A': 'y' // yeh, see transliterateWord for the vowel form
+};
+
+// Short vowel marks, written when the text is vocalized
+const VOWEL_MARKS: Record<string, string> = {
+  '\u064B': 'an', // fathatan
+  '\u064C': 'un', // dammatan
+  '\u064D': 'in', // kasratan
+  '\u064E': 'a', // fatha
+  '\u064F': 'u', // damma
+  '\u0650': 'i', // kasra
+  '\u0652': '' // sukun
+};
+
+const SHADDA = '\u0651';
+const WAW = '\u0648';
+const YEH = '\u064A';
+const ALEF = '\u0627';
+const DEFINITE_ARTICLE = '\u0627\u0644'; // al-
+
+// Arabic letters (after normalization)
+const ARABIC_LETTER_PATTERN = /[\u0621-\u064A]/;
+
+// True when the text contains Arabic letters
+export const isArabicScript = (text: string): boolean => ARABIC_LETTER_PATTERN.test(text);
+
+const capitalize = (word: string): string => {
+  // Leading ' (hamza/ain) stays in front of the capitalized letter
+  const firstLetter = word.search(/[a-z]/);
+  if (firstLetter < 0) return word;
+  return word.slice(0, firstLetter) + word.charAt(firstLetter).toUpperCase() + word.slice(firstLetter + 1);
+};
+
+const transliterateWord = (word: string): string => {
+  let result = '';
+  let previous = '';
+
+  for (let i = 0; i < word.length; i++) {
+    const char = word[i];
+    const next = word[i + 1];
+
+    if (char === SHADDA) {
+      // Doubled consonant
+      result += previous;
+      continue;
+    }
+
+    if (char in VOWEL_MARKS) {
+      result += VOWEL_MARKS[char];
+      previous = '';
+      continue;
+    }
+
+    let latin = LETTERS[char];
+    if (latin === undefined) {
+      // Keep anything that isn't an Arabic letter as it is
+      result += char;
+      previous = '';
+      continue;
+    }
+
+    // Waw and yeh are consonants at the start of a word or before alef, long vowels otherwise
+    if ((char === WAW || char === YEH) && i > 0 && next !== ALEF) {
+      latin = char === WAW ? 'u' : 'i';
+    }
+
+    result += latin;
+    previous = latin;
+  }
+
+  return result;
+};
+
+/**
+ * Transliterate Arabic text to Latin script. Words are capitalized and the definite article is
+ * written "Al-", e.g. the unvocalized Arabic spelling of Mohammed Al Mutairi becomes "Mhmd Al-Mtiri".
+ */
+export const transliterateArabic = (text: string): string => {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(word => word.length > 0)
+    .map(word => {
+      if (word.startsWith(DEFINITE_ARTICLE) && word.length > DEFINITE_ARTICLE.length) {
+        return 'Al-' + capitalize(transliterateWord(word.slice(DEFINITE_ARTICLE.length)));
+      }
+      return capitalize(transliterateWord(word));
+    })
+    .join(' ');
+};
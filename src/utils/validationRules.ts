@@ -0,0 +1,242 @@
+/**
+ * Declarative validation rules checked against every extraction result
+ *
+ * A rule names a subject (a field, or something derived from one such as the IBAN's bank code),
+ * a condition and the severity of the finding it raises when the condition holds. The defaults
+ * below seed the rule set; the live rules are stored in IndexedDB and edited from the
+ * Validation Rules tab, so treasury can add rules without a code change.
+ */
+
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+// Conditions that raise a finding
+export type RuleCondition =
+  | 'missing' // The field is empty or was not found
+  | 'invalid' // The field has a value its validator rejects
+  | 'equals'
+  | 'notEquals'
+  | 'greaterThan'
+  | 'lessThan'
+  | 'matches' // Regex source in value
+  | 'notMatches'
+  | 'inList' // Comma-separated list in value
+  | 'notInList';
+
+export const ruleConditions: { value: RuleCondition; label: string; needsValue: boolean }[] = [
+  { value: 'missing', label: 'is missing', needsValue: false },
+  { value: 'invalid', label: 'is invalid', needsValue: false },
+  { value: 'equals', label: 'equals', needsValue: true },
+  { value: 'notEquals', label: 'does not equal', needsValue: true },
+  { value: 'greaterThan', label: 'is greater than', needsValue: true },
+  { value: 'lessThan', label: 'is less than', needsValue: true },
+  { value: 'matches', label: 'matches regex', needsValue: true },
+  { value: 'notMatches', label: 'does not match regex', needsValue: true },
+  { value: 'inList', label: 'is one of', needsValue: true },
+  { value: 'notInList', label: 'is not one of', needsValue: true }
+];
+
+export interface ValidationRule {
+  id?: number;
+  ruleId: string; // Stable identifier reported with findings, e.g. "amount.secondReview"
+  description: string;
+  // Field key, or "<field key>.<attribute>" for a derived subject (see ruleAttributes)
+  subject: string;
+  condition: RuleCondition;
+  value?: string; // Operand of the condition
+  severity: RuleSeverity;
+  // Shown to the reviewer; {label}, {value}, {message} and the subject's details are filled in
+  message: string;
+  layouts: string[]; // Layout names the rule applies to; empty for every layout
+  enabled: boolean;
+}
+
+// A rule whose condition held for an extraction result
+export interface RuleFinding {
+  ruleId: string;
+  severity: RuleSeverity;
+  field: string; // Field key the finding is reported on
+  message: string;
+}
+
+// Attributes derived from a field, usable as "<field key>.<attribute>" subjects
+export const ruleAttributes: { subject: string; label: string; details?: string[] }[] = [
+  { subject: 'refundAmount.currency', label: 'Refund amount currency' },
+  { subject: 'refundAmount.matchesAmountInWords', label: 'Refund amount matches the amount in words (yes/no)', details: ['amount', 'wordsAmount'] },
+  { subject: 'refundAmount.lineItemsReconciled', label: 'Line items add up to their stated total (yes/no)', details: ['computedTotal', 'statedTotal'] },
+  { subject: 'refundAmount.matchesLineItems', label: 'Refund amount matches the net of the line items (yes/no)', details: ['amount', 'computedTotal'] },
+  { subject: 'ibanNumber.bankCode', label: 'IBAN bank code' },
+  { subject: 'ibanNumber.bankName', label: 'IBAN bank name' },
+  { subject: 'ibanNumber.country', label: 'IBAN country code' },
+  { subject: 'customerName.wordCount', label: 'Number of words in the customer name' },
+  { subject: 'customerServiceNumber.identifierType', label: 'Service identifier type' }
+];
+
+const requiredFieldRules = (field: string, label: string): ValidationRule[] => [
+  {
+    ruleId: `${field}.missing`,
+    description: `${label} is required`,
+    subject: field,
+    condition: 'missing',
+    severity: 'error',
+    message: `${label} was not found`,
+    layouts: [],
+    enabled: true
+  },
+  {
+    ruleId: `${field}.invalid`,
+    description: `${label} must be valid`,
+    subject: field,
+    condition: 'invalid',
+    severity: 'error',
+    message: '{message}',
+    layouts: [],
+    enabled: true
+  }
+];
+
+const optionalFieldRule = (field: string, label: string): ValidationRule => ({
+  ruleId: `${field}.invalid`,
+  description: `${label} should be valid when present`,
+  subject: field,
+  condition: 'invalid',
+  severity: 'warning',
+  message: '{message}',
+  layouts: [],
+  enabled: true
+});
+
+export const defaultValidationRules: ValidationRule[] = [
+  ...requiredFieldRules('customerName', 'Customer Name'),
+  ...requiredFieldRules('refundAmount', 'Refund Amount'),
+  ...requiredFieldRules('ibanNumber', 'IBAN'),
+  ...requiredFieldRules('customerServiceNumber', 'Customer Service Number'),
+  optionalFieldRule('customerNameArabic', 'Customer Name (Arabic)'),
+  optionalFieldRule('amountInWords', 'Amount in Words'),
+  optionalFieldRule('mobileNumber', 'Mobile Number'),
+  optionalFieldRule('email', 'E-mail'),
+  optionalFieldRule('requestDate', 'Request Date'),
+  {
+    ruleId: 'customerName.singleWord',
+    description: 'Customer names should include a surname',
+    subject: 'customerName.wordCount',
+    condition: 'lessThan',
+    value: '2',
+    severity: 'warning',
+    message: 'Name may be incomplete - no surname detected',
+    layouts: [],
+    enabled: true
+  },
+  {
+    ruleId: 'amount.wordsMismatch',
+    description: 'The refund amount must agree with the amount in words',
+    subject: 'refundAmount.matchesAmountInWords',
+    condition: 'equals',
+    value: 'no',
+    severity: 'warning',
+    message: 'Amount {amount} differs from the amount in words ({wordsAmount})',
+    layouts: [],
+    enabled: true
+  },
+  {
+    ruleId: 'amount.lineItemsUnreconciled',
+    description: 'Line items must add up to the stated total',
+    subject: 'refundAmount.lineItemsReconciled',
+    condition: 'equals',
+    value: 'no',
+    severity: 'warning',
+    message: 'Line items add up to {computedTotal}, but the stated total is {statedTotal}',
+    layouts: [],
+    enabled: true
+  },
+  {
+    ruleId: 'amount.lineItemsMismatch',
+    description: 'The refund amount must be the net of the line items',
+    subject: 'refundAmount.matchesLineItems',
+    condition: 'equals',
+    value: 'no',
+    severity: 'warning',
+    message: 'Amount {amount} differs from the net of the line items ({computedTotal})',
+    layouts: [],
+    enabled: true
+  },
+  // Examples treasury can switch on from the Validation Rules tab
+  {
+    ruleId: 'amount.secondReview',
+    description: 'Large refunds need a second review',
+    subject: 'refundAmount',
+    condition: 'greaterThan',
+    value: '10000',
+    severity: 'warning',
+    message: 'Amount {value} is above 10,000 and requires a second review',
+    layouts: [],
+    enabled: false
+  },
+  {
+    ruleId: 'iban.allowedBanks',
+    description: 'Refunds are only paid to approved banks',
+    subject: 'ibanNumber.bankCode',
+    condition: 'notInList',
+    value: '05, 10, 15, 20, 30, 45, 55, 60, 65, 80',
+    severity: 'error',
+    message: 'IBAN bank {value} is not in the allowed bank list',
+    layouts: [],
+    enabled: false
+  }
+];
+
+// The rules currently in use, replaced when the rule set is loaded from the database
+let activeRules: ValidationRule[] = defaultValidationRules;
+
+export const setValidationRules = (rules: ValidationRule[]): void => {
+  activeRules = rules;
+};
+
+// Enabled rules, optionally only those that apply to a layout
+export const getValidationRules = (layout?: string): ValidationRule[] => {
+  return activeRules.filter(rule =>
+    rule.enabled && (!layout || rule.layouts.length === 0 || rule.layouts.includes(layout))
+  );
+};
+
+// Parse a number written with thousands separators or a currency, e.g. "SAR 12,500.00"
+const toNumber = (value: string): number => parseFloat(value.replace(/[^\d.-]/g, ''));
+
+const toList = (value: string): string[] => {
+  return value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+};
+
+// Whether a condition comparing the subject's value holds; missing and invalid are decided by the caller
+export const conditionHolds = (condition: RuleCondition, subjectValue: string, operand: string = ''): boolean => {
+  switch (condition) {
+    case 'equals':
+      return subjectValue.toLowerCase() === operand.trim().toLowerCase();
+    case 'notEquals':
+      return subjectValue.toLowerCase() !== operand.trim().toLowerCase();
+    case 'greaterThan':
+    case 'lessThan': {
+      const number = toNumber(subjectValue);
+      const limit = toNumber(operand);
+      if (isNaN(number) || isNaN(limit)) return false;
+      return condition === 'greaterThan' ? number > limit : number < limit;
+    }
+    case 'matches':
+    case 'notMatches':
+      try {
+        return new RegExp(operand, 'i').test(subjectValue) === (condition === 'matches');
+      } catch (error) {
+        console.error(`Invalid validation rule regex: ${operand}`, error);
+        return false;
+      }
+    case 'inList':
+      return toList(operand).includes(subjectValue.toLowerCase());
+    case 'notInList':
+      return !toList(operand).includes(subjectValue.toLowerCase());
+    default:
+      return false;
+  }
+};
+
+// Fill {placeholders} in a rule message
+export const formatRuleMessage = (message: string, values: Record<string, string>): string => {
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+};
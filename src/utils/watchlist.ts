@@ -0,0 +1,182 @@
+/**
+ * Screening of customer names against the internal blocked-parties watchlist
+ *
+ * Every name and alias on the list is compared with the customer's Latin and Arabic names, both
+ * as text (Fuse.js) and transliteration-aware (nameSimilarity), and scored 0-100 by the better of
+ * the two. A hit at or above the hold threshold holds the refund until a reviewer releases it.
+ */
+import Fuse from 'fuse.js';
+import { ScreeningResult, WatchlistHit } from '../types';
+import { parseCsv, nameSimilarity } from './customerMaster';
+
+export interface WatchlistEntry {
+  id?: number;
+  name: string;
+  aliases: string[];
+  reference?: string; // ID of the party in the source list
+  reason?: string;
+  importedAt: string;
+}
+
+export interface WatchlistImport {
+  entries: WatchlistEntry[];
+  errors: string[];
+}
+
+// Score from which a refund is held
+export const DEFAULT_HOLD_THRESHOLD = 85;
+
+// Lower-scoring hits are still reported so reviewers see near misses
+const REPORT_THRESHOLD = 70;
+
+// Aliases in one CSV cell are separated by semicolons or vertical bars
+const splitAliases = (value: string): string[] => {
+  return value.split(/[;|]/).map(alias => alias.trim()).filter(Boolean);
+};
+
+const headerKey = (header: string): string => header.toLowerCase().replace(/[^a-z]/g, '');
+
+const parseWatchlistCsv = (text: string, importedAt: string): WatchlistImport => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { entries: [], errors: ['The file is empty'] };
+
+  const keys = header.map(headerKey);
+  const column = (...aliases: string[]) => keys.findIndex(key => aliases.includes(key));
+  const nameColumn = column('name', 'fullname', 'partyname', 'listedname');
+  const aliasColumn = column('aliases', 'alias', 'aka', 'othernames');
+  const referenceColumn = column('reference', 'id', 'listid', 'ref');
+  const reasonColumn = column('reason', 'remarks', 'notes', 'comment');
+  if (nameColumn < 0) return { entries: [], errors: ['Missing column: name'] };
+
+  const entries: WatchlistEntry[] = [];
+  const errors: string[] = [];
+  rows.forEach((cells, index) => {
+    const name = (cells[nameColumn] ?? '').trim();
+    if (!name) {
+      errors.push(`Line ${index + 2}: no name`);
+      return;
+    }
+    entries.push({
+      name,
+      aliases: aliasColumn >= 0 ? splitAliases(cells[aliasColumn] ?? '') : [],
+      ...(referenceColumn >= 0 && cells[referenceColumn]?.trim() ? { reference: cells[referenceColumn].trim() } : {}),
+      ...(reasonColumn >= 0 && cells[reasonColumn]?.trim() ? { reason: cells[reasonColumn].trim() } : {}),
+      importedAt
+    });
+  });
+  return { entries, errors };
+};
+
+// JSON lists are an array of names or of { name, aliases, reference, reason } objects,
+// optionally under an "entries" key
+const parseWatchlistJson = (text: string, importedAt: string): WatchlistImport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { entries: [], errors: ['The file is not valid JSON'] };
+  }
+
+  const items = Array.isArray(parsed) ? parsed : (parsed as { entries?: unknown })?.entries;
+  if (!Array.isArray(items)) return { entries: [], errors: ['Expected an array of watchlist entries'] };
+
+  const entries: WatchlistEntry[] = [];
+  const errors: string[] = [];
+  items.forEach((item, index) => {
+    const record = (typeof item === 'string' ? { name: item } : item) as Record<string, unknown>;
+    const name = typeof record?.name === 'string' ? record.name.trim() : '';
+    if (!name) {
+      errors.push(`Entry ${index + 1}: no name`);
+      return;
+    }
+
+    const aliases = Array.isArray(record.aliases)
+      ? record.aliases.filter((alias): alias is string => typeof alias === 'string').map(alias => alias.trim()).filter(Boolean)
+      : typeof record.aliases === 'string' ? splitAliases(record.aliases) : [];
+    entries.push({
+      name,
+      aliases,
+      ...(record.reference !== undefined ? { reference: String(record.reference) } : {}),
+      ...(typeof record.reason === 'string' ? { reason: record.reason } : {}),
+      importedAt
+    });
+  });
+  return { entries, errors };
+};
+
+// Read a watchlist file; JSON files are recognised by their extension or content
+export const parseWatchlistFile = (
+  text: string,
+  fileName: string,
+  importedAt: string = new Date().toISOString()
+): WatchlistImport => {
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+  return isJson ? parseWatchlistJson(text, importedAt) : parseWatchlistCsv(text, importedAt);
+};
+
+// Screen a customer's names (e.g. the Latin and the Arabic spelling) against the watchlist
+export const screenNames = (
+  names: string[],
+  entries: WatchlistEntry[],
+  threshold: number = DEFAULT_HOLD_THRESHOLD,
+  screenedAt: string = new Date().toISOString()
+): ScreeningResult => {
+  // One searchable item per listed name or alias
+  const listedNames = entries.flatMap(entry => [entry.name, ...entry.aliases].map(listedName => ({ entry, listedName })));
+  const fuse = new Fuse(listedNames, {
+    keys: ['listedName'],
+    includeScore: true,
+    ignoreLocation: true,
+    threshold: 0.4
+  });
+
+  // Best hit per entry
+  const best = new Map<number, WatchlistHit>();
+  const record = (entry: WatchlistEntry, listedName: string, screenedName: string, score: number) => {
+    const rounded = Math.round(score);
+    const existing = best.get(entry.id!);
+    if (rounded < REPORT_THRESHOLD || (existing && existing.score >= rounded)) return;
+
+    best.set(entry.id!, {
+      entryId: entry.id!,
+      listedName,
+      screenedName,
+      score: rounded,
+      ...(entry.reference ? { reference: entry.reference } : {}),
+      ...(entry.reason ? { reason: entry.reason } : {})
+    });
+  };
+
+  for (const screenedName of names) {
+    fuse.search(screenedName).forEach(match => {
+      record(match.item.entry, match.item.listedName, screenedName, (1 - (match.score ?? 1)) * 100);
+    });
+    listedNames.forEach(({ entry, listedName }) => {
+      record(entry, listedName, screenedName, nameSimilarity(screenedName, listedName) * 100);
+    });
+  }
+
+  const hits = [...best.values()].sort((a, b) => b.score - a.score);
+  return {
+    status: hits.some(hit => hit.score >= threshold) ? 'hold' : 'clear',
+    threshold,
+    hits,
+    watchlistSize: entries.length,
+    screenedAt
+  };
+};
+
+// One-line summary for the audit trail
+export const describeScreening = (result: ScreeningResult): string => {
+  if (result.hits.length === 0) {
+    return `Clear: no match among ${result.watchlistSize} watchlist entries`;
+  }
+
+  const hits = result.hits
+    .map(hit => `"${hit.screenedName}" ~ "${hit.listedName}" ${hit.score}%`)
+    .join(', ');
+  const outcome = result.status === 'hold' ? `Held (threshold ${result.threshold}%)`
+    : result.status === 'released' ? 'Hold released'
+    : `Clear below threshold ${result.threshold}%`;
+  return `${outcome}: ${hits}`;
+};
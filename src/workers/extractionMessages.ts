@@ -0,0 +1,28 @@
+import { ExtractedData, OcrRegion, PageText, PreprocessingReport, PreprocessingSettings } from '../types';
+
+// Messages between the extraction worker pool and its workers
+
+export interface ExtractionRequest {
+  taskId: string;
+  file: File;
+  textOnly?: boolean; // Only extract the text, e.g. for the document viewer
+  region?: { bbox: OcrRegion['bbox']; language: string }; // Only read this region of an image
+  documentText?: { text: string; pages?: PageText[] }; // Extract the fields from this text instead of reading the file
+  preprocessing?: PreprocessingSettings; // How images are cleaned up before OCR
+  preview?: boolean; // Only return the preprocessed image
+  trainingVersion: number; // Version of the training data in the app; the worker reloads when it changes
+}
+
+export type ExtractionResponse =
+  | { type: 'progress'; taskId: string; progress: number } // 0-1
+  | {
+      type: 'result';
+      taskId: string;
+      text: string;
+      data?: ExtractedData;
+      regions?: OcrRegion[];
+      confidence?: number;
+      preprocessing?: PreprocessingReport;
+      preview?: Blob;
+    }
+  | { type: 'error'; taskId: string; message: string };
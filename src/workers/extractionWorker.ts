@@ -0,0 +1,66 @@
+import DocumentExtractorService from '../services/DocumentExtractorService';
+import TrainingService from '../services/TrainingService';
+import { processDocumentText } from '../utils/extractors';
+import { ExtractionRequest, ExtractionResponse } from './extractionMessages';
+
+// Extracts one document at a time for the extraction worker pool. The OCR worker is kept
+// between documents.
+const ctx = self as unknown as Worker;
+const documentExtractor = DocumentExtractorService.getInstance();
+
+// The app seeds the training data; workers only read it, and again only after it changed
+const trainingService = TrainingService.getInstance();
+trainingService.setReadOnly();
+let loadedTrainingVersion: number | null = null;
+
+const post = (message: ExtractionResponse) => ctx.postMessage(message);
+
+// Pick up patterns and rules edited in the app since they were last loaded
+const loadTrainingData = async (trainingVersion: number) => {
+  if (trainingVersion !== loadedTrainingVersion) {
+    await trainingService.reload();
+    loadedTrainingVersion = trainingVersion;
+  }
+};
+
+ctx.onmessage = async (event: MessageEvent<ExtractionRequest>) => {
+  const { taskId, file, textOnly, region, documentText, preprocessing, preview, trainingVersion } = event.data;
+
+  try {
+    if (documentText) {
+      await loadTrainingData(trainingVersion);
+      const data = await processDocumentText(documentText.text, file.name, documentText.pages);
+      post({ type: 'result', taskId, text: documentText.text, data });
+      return;
+    }
+
+    if (preview && preprocessing) {
+      const { image, report } = await documentExtractor.previewPreprocessing(file, preprocessing);
+      post({ type: 'result', taskId, text: '', preview: image, preprocessing: report });
+      return;
+    }
+
+    if (region) {
+      const { text, confidence } = await documentExtractor.readImageRegion(file, region.bbox, region.language, preprocessing);
+      post({ type: 'result', taskId, text, confidence });
+      return;
+    }
+
+    // Reading the text is most of the work; field extraction takes the last tenth
+    const { text, regions, pages, preprocessing: report } = await documentExtractor.extractDocument(file, progress => {
+      post({ type: 'progress', taskId, progress: textOnly ? progress : progress * 0.9 });
+    }, preprocessing);
+    if (textOnly) {
+      post({ type: 'result', taskId, text, regions, preprocessing: report });
+      return;
+    }
+
+    await loadTrainingData(trainingVersion);
+    const data = await processDocumentText(text, file.name, pages);
+    if (regions) data.ocrRegions = regions;
+    if (report) data.preprocessing = report;
+    post({ type: 'result', taskId, text, data, regions, preprocessing: report });
+  } catch (error) {
+    post({ type: 'error', taskId, message: error instanceof Error ? error.message : String(error) });
+  }
+};
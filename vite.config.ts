@@ -1,13 +1,18 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { resolve } from 'path';
+import offlineAssetsPlugin from './offlineAssetsPlugin';
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), offlineAssetsPlugin()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  // Extraction workers import PDF.js and Tesseract, which need code splitting
+  worker: {
+    format: 'es'
+  },
   build: {
     rollupOptions: {
       input: {
@@ -1,10 +1,11 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { resolve } from 'path';
+import offlineAssetsPlugin from './offlineAssetsPlugin';
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), offlineAssetsPlugin()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },